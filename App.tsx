@@ -1,33 +1,420 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { GameState, GameCommentary } from './types';
-import { generateCommentary } from './services/geminiService';
+import TrackingDebugPanel from './components/TrackingDebugPanel';
+import SpeechSettingsPanel from './components/SpeechSettingsPanel';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import GameplaySettingsPanel from './components/GameplaySettingsPanel';
+import CommentaryCaption from './components/CommentaryCaption';
+import MatchStatsReport from './components/MatchStatsReport';
+import MatchHistoryPanel from './components/MatchHistoryPanel';
+import NetplayPanel from './components/NetplayPanel';
+import TournamentPanel from './components/TournamentPanel';
+import { useDialog } from './components/useDialog';
+import { GameState, GameCommentary, MatchRules, MatchResult, PauseInfo, PlayerId, PaddleId, GameSetup, CpuDifficulty, SmoothingSettings, AssignmentPolicy, InputKind, SpeechSettings, AudioSettings, MatchRecord, PowerUpSettings, PlayerProfile, Theme, VisualSettings, EffectsQuality, GameplaySettings, Tournament } from './types';
+import { CommentaryQueue, createConfiguredProvider } from './services/commentaryQueue';
+import { subscribeCommentary } from './services/commentaryTriggers';
+import { GameEventBus } from './services/gameEvents';
+import { Announcer, DEFAULT_SPEECH_SETTINGS, SpeechProgress, TtsVoice, WebSpeechBackend } from './services/speechService';
+import { DEFAULT_AUDIO_SETTINGS, SoundEngine } from './services/soundEngine';
+import { LiveAnnouncer } from './services/liveAnnouncer';
+import { MatchStatsCollector } from './services/matchStats';
+import { addToHistory, clearHistory, createMatchRecord, loadHistory } from './services/matchHistory';
+import { NetInfo, NetSession } from './services/netplay';
+import { ReplayData, ReplayFormatError, decodeReplay, downloadReplay } from './services/replay';
+import { MATCH_RULESETS, DEFAULT_RULES } from './services/matchRules';
+import { CPU_PROFILES } from './services/cpuController';
+import { DEFAULT_PLAYER_SMOOTHING } from './services/handSmoothing';
+import { ASSIGNMENT_POLICIES } from './services/handAssignment';
+import { INPUT_KINDS } from './services/inputProviders';
+import { GAME_FORMATS, teamOf, isDoubles } from './services/physicsEngine';
+import { POWER_UPS, POWER_UP_KINDS, SPAWN_RATES, DEFAULT_POWER_UP_SETTINGS } from './services/powerUps';
+import { THEMES, MAX_NAME_LENGTH, cleanName, loadAppearance, saveAppearance, themeById } from './services/themes';
+import { EFFECTS_QUALITIES, DEFAULT_VISUAL_SETTINGS } from './services/particles';
+import { gameplayFromUrl, gameplayUrl, loadGameplay, matchingPreset, saveGameplay, stripGameplayParams } from './services/gameplaySettings';
+import { entrantById, loadTournament, matchPlayers, nextMatch, reportResult, saveTournament, stageLabel, tournamentContext } from './services/tournament';
 import { GoogleGenAI } from "@google/genai";
 
+// A side's name, or "NAME · P3" for a doubles partner
+const paddleLabel = (players: Record<PlayerId, PlayerProfile>, id: PaddleId) =>
+  id === 'p1' || id === 'p2' ? players[id].name : `${players[teamOf(id)].name} · ${id.toUpperCase()}`;
+
+// Shared style for the menu's toggle buttons
+const optionClass = (selected: boolean) =>
+  `py-2 px-3 rounded border text-xs font-bold tracking-wide transition-all ${
+    selected
+      ? 'border-cyan-400 bg-cyan-900/40 text-cyan-300 shadow-[0_0_10px_rgba(6,182,212,0.4)]'
+      : 'border-gray-700 bg-black/40 text-gray-400 hover:border-gray-500'
+  }`;
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [commentary, setCommentary] = useState<GameCommentary | null>(null);
-  const [apiKeyAvailable, setApiKeyAvailable] = useState(false);
   const [resetGameKey, setResetGameKey] = useState(0);
+  const [matchRules, setMatchRules] = useState<MatchRules>(DEFAULT_RULES);
+  const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
+  const [resumeKey, setResumeKey] = useState(0);
+  const [pauseInfo, setPauseInfo] = useState<PauseInfo | null>(null);
+  const [setup, setSetup] = useState<GameSetup>({
+    opponent: 'human',
+    humanSide: 'p1',
+    format: 'singles',
+    cpuDifficulty: 'normal',
+    inputs: { p1: 'hand', p2: 'hand' },
+    assist: { p1: false, p2: false }
+  });
+  const [smoothing, setSmoothing] = useState<Record<PlayerId, SmoothingSettings>>(DEFAULT_PLAYER_SMOOTHING);
+  const [showTrackingPanel, setShowTrackingPanel] = useState(false);
+  const [assignmentPolicy, setAssignmentPolicy] = useState<AssignmentPolicy>('side');
+  const [gesturesEnabled, setGesturesEnabled] = useState(true);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [speechProgress, setSpeechProgress] = useState<SpeechProgress | null>(null);
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [showVoicePanel, setShowVoicePanel] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [showSoundPanel, setShowSoundPanel] = useState(false);
+  const [instantReplay, setInstantReplay] = useState(true);
+  const [powerUps, setPowerUps] = useState<PowerUpSettings>(DEFAULT_POWER_UP_SETTINGS);
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [loadedReplay, setLoadedReplay] = useState<ReplayData | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [lastRecord, setLastRecord] = useState<MatchRecord | null>(null);
+  const [history, setHistory] = useState<MatchRecord[]>(loadHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const [netInfo, setNetInfo] = useState<NetInfo | null>(null);
+  const [appearance, setAppearance] = useState(loadAppearance); // Theme and player profiles, as edited
+  const [opponentProfile, setOpponentProfile] = useState<PlayerProfile | null>(null); // Online: their own name and colour
+  const [visual, setVisual] = useState<VisualSettings>(DEFAULT_VISUAL_SETTINGS);
+  // A shared link's settings win over the stored ones (and are saved in their place)
+  const [gameplay, setGameplay] = useState<GameplaySettings>(() => gameplayFromUrl(window.location.search) ?? loadGameplay());
+  const [hostGameplay, setHostGameplay] = useState<GameplaySettings | null>(null); // Online client: the host's settings
+  const [showGameplayPanel, setShowGameplayPanel] = useState(false);
+  const [liveMessage, setLiveMessage] = useState(''); // Screen-reader announcement
+  const [tournament, setTournament] = useState<Tournament | null>(loadTournament);
+  const [tournamentMatchId, setTournamentMatchId] = useState<string | null>(null); // The bracket match being played
+  const [showTournament, setShowTournament] = useState(false);
+  const theme = themeById(appearance.themeId);
+
+  // Match events: GameCanvas publishes, commentary (and anything else) subscribes
+  const eventsRef = useRef<GameEventBus | null>(null);
+  if (!eventsRef.current) eventsRef.current = new GameEventBus();
+
+  // Spoken commentary: every line shown is also read aloud
+  const announcerRef = useRef<Announcer | null>(null);
+  if (!announcerRef.current) {
+    announcerRef.current = new Announcer(new WebSpeechBackend(), speechSettings, setSpeechProgress);
+  }
+  const ttsBackend = announcerRef.current.backend;
+
+  // Sound effects and music, synthesised from match events
+  const soundRef = useRef<SoundEngine | null>(null);
+  if (!soundRef.current) soundRef.current = new SoundEngine(audioSettings);
+  const sound = soundRef.current;
+
+  // Screen-reader announcements of scores, serves, pauses and commentary
+  const liveRef = useRef<LiveAnnouncer | null>(null);
+  if (!liveRef.current) liveRef.current = new LiveAnnouncer(setLiveMessage);
+  const live = liveRef.current;
+
+  // Online play: one session, used only while the mode is "Online"
+  const netRef = useRef<NetSession | null>(null);
+  if (!netRef.current) netRef.current = new NetSession(setNetInfo);
+  const net = netRef.current;
+  const online = setup.opponent === 'remote';
+  const netRole = online ? netInfo?.role ?? null : null;
+  const activeGameplay = netRole === 'client' && hostGameplay ? hostGameplay : gameplay;
+
+  // Tournament: the match being played (or the one just finished), read by event handlers without resubscribing
+  const tournamentMatch = tournament?.matches.find(m => m.id === tournamentMatchId) ?? null;
+  const tournamentRef = useRef({ tournament, matchId: tournamentMatchId });
+  tournamentRef.current = { tournament, matchId: tournamentMatchId };
+
+  // Names and colours as shown and announced: blanks fall back to the defaults, and online the opponent names their own side.
+  // A tournament match uses the entrants'
+  const opponentSide: PlayerId = setup.humanSide === 'p1' ? 'p2' : 'p1';
+  const players = useMemo<Record<PlayerId, PlayerProfile>>(() => {
+    if (tournament && tournamentMatch) return matchPlayers(tournament, tournamentMatch);
+    const edited = appearance.players;
+    const clean = (id: PlayerId, profile: PlayerProfile) => ({ name: cleanName(profile.name, id), color: profile.color });
+    const remote = netRole && opponentProfile ? opponentProfile : null;
+    return {
+      p1: clean('p1', remote && opponentSide === 'p1' ? remote : edited.p1),
+      p2: clean('p2', remote && opponentSide === 'p2' ? remote : edited.p2)
+    };
+  }, [appearance.players, netRole, opponentProfile, opponentSide, tournament, tournamentMatch]);
+
+  // Commentary: one queue for the whole app, falling back to the offline commentator
+  const commentaryRef = useRef<CommentaryQueue | null>(null);
+  if (!commentaryRef.current) {
+    commentaryRef.current = new CommentaryQueue(createConfiguredProvider(), line => {
+      netRef.current?.send({ type: 'commentary', line }); // No-op unless hosting a connected match
+      setCommentary(line);
+      announcerRef.current?.say(line);
+    });
+  }
+  const commentaryProvider = commentaryRef.current.provider;
+
+  // Post-match stats, saved to the local history when a match ends
+  const statsRef = useRef<MatchStatsCollector | null>(null);
+  if (!statsRef.current) statsRef.current = new MatchStatsCollector();
+  const setupRef = useRef(setup); // Read when a match ends, without resubscribing
+  setupRef.current = setup;
 
   useEffect(() => {
-     if (process.env.API_KEY) {
-         setApiKeyAvailable(true);
-     }
+    const events = eventsRef.current!;
+    const queue = commentaryRef.current!;
+    const announcer = announcerRef.current!;
+    const stats = statsRef.current!;
+    const unsubscribers = [
+      subscribeCommentary(events, queue, () => {
+        const { tournament, matchId } = tournamentRef.current;
+        const match = tournament?.matches.find(m => m.id === matchId);
+        return tournament && match ? tournamentContext(tournament, match) : null;
+      }),
+      stats.subscribe(events),
+      sound.subscribe(events),
+      live.subscribe(events),
+      sound.installUnlock(window), // Browsers only allow audio after a click or key press
+      events.on('match_start', () => announcer.stop()),
+      events.on('match_end', ({ result }) => {
+        const { opponent, humanSide } = setupRef.current;
+        const cpu = { p1: opponent === 'cpu' && humanSide !== 'p1', p2: opponent === 'cpu' && humanSide !== 'p2' };
+        const record = createMatchRecord(stats.players, cpu, result, stats.snapshot());
+        setLastRecord(record);
+        setHistory(addToHistory(record));
+        // A tournament match moves the bracket on: sets decide a multi-set match, points a single game
+        const { matchId } = tournamentRef.current;
+        if (matchId) {
+          const score: [number, number] = result.rules.setsToWin > 1 ? [result.sets.p1, result.sets.p2] : [result.scores.p1, result.scores.p2];
+          setTournament(prev => prev && reportResult(prev, matchId, result.winner === 'p1' ? 0 : 1, score));
+        }
+      })
+    ];
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      queue.reset();
+      announcer.stop();
+      sound.setMusicActive(false);
+    };
   }, []);
 
-  const startGame = async () => {
+  useEffect(() => {
+    announcerRef.current?.configure(speechSettings);
+  }, [speechSettings]);
+
+  useEffect(() => {
+    sound.configure(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    sound.setGameplay(activeGameplay);
+  }, [activeGameplay]);
+
+  // Music and effects dip while the announcer is speaking
+  const speaking = speechProgress !== null;
+  useEffect(() => {
+    if (speaking) sound.duck();
+    else sound.unduck();
+  }, [speaking]);
+
+  // The music loop plays during live play only
+  useEffect(() => {
+    sound.setMusicActive(gameState === GameState.PLAYING);
+  }, [gameState]);
+
+  // Voices arrive asynchronously in most browsers
+  useEffect(() => {
+    setVoices(ttsBackend.getVoices());
+    return ttsBackend.onVoicesChanged(() => setVoices(ttsBackend.getVoices()));
+  }, [ttsBackend]);
+
+  const toggleMute = () => setSpeechSettings(prev => ({ ...prev, muted: !prev.muted }));
+
+  const startGame = () => {
+    setMatchResult(null);
+    setLastRecord(null);
+    setCommentary(null);
+    setResetGameKey(prev => prev + 1); // Fresh scores, sets and clock for every match
     setGameState(GameState.PLAYING);
-    // Trigger intro commentary
-    if (process.env.API_KEY) {
-        try {
-            const text = await generateCommentary('intro', 0, 0);
-            setCommentary({ text, timestamp: Date.now(), type: 'intro' });
-        } catch (e) {
-            console.warn("Intro commentary failed");
+  };
+
+  // Stable identity: GameCanvas's render loop depends on it
+  const handleGameOver = useCallback((result: MatchResult) => {
+    setMatchResult(result);
+  }, []);
+
+  const loadReplay = async (file: File) => {
+    try {
+        setLoadedReplay(decodeReplay(await file.text()));
+        setReplayError(null);
+        setGameState(GameState.REPLAY);
+    } catch (err) {
+        setReplayError(err instanceof ReplayFormatError ? err.message : 'Could not read that replay file.');
+    }
+  };
+
+  // --- Online Play ---
+  // Leaving the Online mode closes the session
+  useEffect(() => {
+    if (!online) net.leave();
+  }, [online]);
+
+  useEffect(() => () => net.leave(), []);
+
+  // The host tells the client which screen to show
+  useEffect(() => {
+    if (netRole !== 'host' || netInfo?.status !== 'connected') return;
+    const shown = gameState === GameState.REPLAY || gameState === GameState.LOADING ? GameState.MENU : gameState;
+    net.send({ type: 'phase', gameState: shown, rules: matchRules, gameplay, pause: pauseInfo, result: matchResult });
+  }, [netRole, netInfo?.status, gameState, matchRules, gameplay, pauseInfo, matchResult]);
+
+  // The client follows the host's screens and hears its commentary
+  useEffect(() => {
+    if (netRole !== 'client') return;
+    return net.subscribe(message => {
+        if (message.type === 'phase') {
+            setMatchRules(message.rules);
+            setHostGameplay(message.gameplay);
+            setPauseInfo(message.pause);
+            setMatchResult(message.result);
+            setGameState(prev => {
+                if (message.gameState === GameState.PLAYING && prev !== GameState.PLAYING && prev !== GameState.PAUSED) setCommentary(null);
+                return message.gameState;
+            });
+        } else if (message.type === 'commentary') {
+            setCommentary(message.line);
+            announcerRef.current?.say(message.line);
         }
+    });
+  }, [netRole]);
+
+  // A client cut off from the host pauses until it's back (the host pauses itself in GameCanvas)
+  useEffect(() => {
+    if (netRole !== 'client' || netInfo?.status === 'connected') return;
+    if (gameState === GameState.PLAYING || gameState === GameState.PAUSED) {
+        setGameState(GameState.PAUSED);
+        setPauseInfo({ reason: 'disconnected', missing: [], countdown: null });
+    }
+  }, [netRole, netInfo?.status, gameState]);
+
+  // Each side tells the other its own name and colour once connected, and again after any edit
+  useEffect(() => {
+    if (!netRole) {
+        setOpponentProfile(null);
+        return;
     }
+    return net.subscribe(message => {
+        if (message.type === 'profile') setOpponentProfile(message.profile);
+    });
+  }, [netRole]);
+
+  const ownProfile = players[setup.humanSide];
+  useEffect(() => {
+    if (netRole && netInfo?.status === 'connected') net.send({ type: 'profile', profile: ownProfile });
+  }, [netRole, netInfo?.status, ownProfile.name, ownProfile.color]);
+
+  const hostGame = () => {
+    setSetup(prev => ({ ...prev, humanSide: 'p1' }));
+    net.host();
+  };
+
+  const joinGame = (code: string) => {
+    setSetup(prev => ({ ...prev, humanSide: 'p2' }));
+    net.join(code);
+  };
+
+  // --- Appearance ---
+  useEffect(() => saveAppearance(appearance), [appearance]);
+
+  // --- Gameplay Settings ---
+  useEffect(() => saveGameplay(gameplay), [gameplay]);
+
+  // Once read, a shared link's parameters come off the address bar so a reload doesn't undo later edits
+  useEffect(() => {
+    const search = stripGameplayParams(window.location.search);
+    if (search !== window.location.search) window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, []);
+
+  // --- Tournament ---
+  useEffect(() => saveTournament(tournament), [tournament]);
+
+  // Back at the menu, the names there apply again
+  useEffect(() => {
+    if (gameState === GameState.MENU) setTournamentMatchId(null);
+  }, [gameState]);
+
+  // Bracket matches are local two-player singles (or air hockey), under the menu's match rules
+  const playTournamentMatch = (matchId: string) => {
+    setSetup(prev => ({ ...prev, opponent: 'human', format: isDoubles(prev.format) ? 'singles' : prev.format }));
+    setTournamentMatchId(matchId);
+    setShowTournament(false);
+    startGame();
+  };
+
+  const upcomingMatch = tournament ? nextMatch(tournament) : null;
+
+  const setProfile = (id: PlayerId, changes: Partial<PlayerProfile>) => {
+    setAppearance(prev => ({ ...prev, players: { ...prev.players, [id]: { ...prev.players[id], ...changes } } }));
+  };
+
+  // A new theme brings its own palette; names stay
+  const selectTheme = (next: Theme) => {
+    setAppearance(prev => ({
+        themeId: next.id,
+        players: { p1: { ...prev.players.p1, color: next.colors.p1 }, p2: { ...prev.players.p2, color: next.colors.p2 } }
+    }));
+  };
+
+  const setPlayerInput = (id: PlayerId, kind: InputKind) => {
+    setSetup(prev => ({ ...prev, inputs: { ...prev.inputs, [id]: kind } }));
+  };
+
+  // Players whose input is picked in the menu (the CPU's or remote player's paddle has none)
+  const humanPlayers: PlayerId[] = setup.opponent === 'human' ? ['p1', 'p2'] : [setup.humanSide];
+  const doubles = setup.opponent === 'human' && isDoubles(setup.format); // Every paddle on hand tracking
+  const usesHands = doubles || humanPlayers.some(id => setup.inputs[id] === 'hand');
+
+  const handlePause = () => setGameState(GameState.PAUSED);
+  const handleResume = () => setResumeKey(prev => prev + 1);
+
+  // Keyboard: P / Escape toggles pause, M mutes the announcer. Not while typing in a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+        if (e.key === 'm' || e.key === 'M') {
+            toggleMute();
+            return;
+        }
+        if (e.key !== 'p' && e.key !== 'P' && e.key !== 'Escape') return;
+        if (netRole === 'client') return; // The host controls pausing
+        if (gameState === GameState.PLAYING) handlePause();
+        else if (gameState === GameState.PAUSED) handleResume();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameState, netRole]);
+
+  // --- Accessibility ---
+  // Pauses (the countdown comes from the event stream) and commentary lines go to the live region too
+  const missingHands = pauseInfo?.missing.map(id => paddleLabel(players, id)).join(' and ') ?? '';
+  useEffect(() => {
+    if (gameState !== GameState.PAUSED || !pauseInfo || pauseInfo.countdown) return;
+    if (pauseInfo.reason === 'disconnected') live.say(netRole === 'client' ? 'Paused. Connection to the host lost.' : 'Paused. Opponent disconnected.');
+    else if (missingHands) live.say(`Paused. ${missingHands}: hand not detected.`);
+    else live.say(netRole === 'client' ? 'Paused by the host.' : 'Paused. Press P or Escape to resume.');
+  }, [gameState, pauseInfo?.reason, pauseInfo?.countdown, missingHands, netRole]);
+
+  useEffect(() => {
+    if (commentary) live.say(commentary.text);
+  }, [commentary]);
+
+  const pauseRef = useDialog<HTMLDivElement>(undefined, gameState === GameState.PAUSED);
+  const resultsRef = useDialog<HTMLDivElement>(undefined, gameState === GameState.GAME_OVER && !!matchResult);
+
+  const setAssist = (id: PlayerId, assist: boolean) => {
+    setSetup(prev => ({ ...prev, assist: { ...prev.assist, [id]: assist } }));
   };
 
   const handleRestart = () => {
@@ -36,17 +423,43 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center p-4 font-display">
+    <div
+        className={`min-h-screen bg-black text-white flex flex-col items-center justify-center p-4 font-display ${visual.reducedMotion ? 'reduce-motion' : ''} ${visual.highContrast ? 'high-contrast' : ''}`}
+        style={{ fontFamily: theme.font }}
+    >
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{liveMessage}</div>
+
       {/* Header */}
       <header className="w-full max-w-6xl flex justify-between items-center mb-6">
         <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-cyan-500 rounded-full shadow-[0_0_10px_#06b6d4]"></div>
-            <div className="w-3 h-3 bg-magenta-500 rounded-full shadow-[0_0_10px_#d946ef]"></div>
-            <h1 className="text-2xl md:text-3xl font-bold tracking-wider text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-500">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: players.p1.color, boxShadow: `0 0 ${10 * theme.glow}px ${players.p1.color}` }}></div>
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: players.p2.color, boxShadow: `0 0 ${10 * theme.glow}px ${players.p2.color}` }}></div>
+            <h1
+                className="text-2xl md:text-3xl font-bold tracking-wider text-transparent bg-clip-text"
+                style={{ backgroundImage: `linear-gradient(to right, ${players.p1.color}, ${players.p2.color})` }}
+            >
                 NEON HAND HOCKEY
             </h1>
         </div>
-        <div className="text-xs text-gray-500 font-mono">
+        <div className="flex items-center gap-4 text-xs text-gray-500 font-mono">
+             {netRole && netInfo?.status === 'connected' && (
+                 <span className="text-green-400">[NET {netInfo.latencyMs === null ? '--' : Math.round(netInfo.latencyMs)} ms]</span>
+             )}
+             <button onClick={() => setShowTrackingPanel(prev => !prev)} className="hover:text-cyan-400 transition-colors">
+                 [TRACKING]
+             </button>
+             <button onClick={() => setShowHistory(prev => !prev)} className="hover:text-cyan-400 transition-colors">
+                 [HISTORY]
+             </button>
+             <button onClick={() => setShowVoicePanel(prev => !prev)} className="hover:text-cyan-400 transition-colors">
+                 [VOICE]
+             </button>
+             <button onClick={() => setShowSoundPanel(prev => !prev)} className="hover:text-cyan-400 transition-colors">
+                 [SOUND]
+             </button>
+             <button onClick={toggleMute} className="hover:text-cyan-400 transition-colors" aria-pressed={speechSettings.muted}>
+                 {speechSettings.muted ? '[UNMUTE]' : '[MUTE]'}
+             </button>
              POWERED BY GEMINI & MEDIAPIPE
         </div>
       </header>
@@ -58,10 +471,101 @@ const App: React.FC = () => {
         <GameCanvas 
             gameState={gameState} 
             setGameState={setGameState} 
-            onCommentary={setCommentary}
+            events={eventsRef.current}
             resetTrigger={resetGameKey}
+            matchRules={matchRules}
+            onGameOver={handleGameOver}
+            resumeTrigger={resumeKey}
+            onPauseInfo={setPauseInfo}
+            setup={setup}
+            smoothing={smoothing}
+            assignmentPolicy={assignmentPolicy}
+            gesturesEnabled={gesturesEnabled}
+            instantReplay={instantReplay}
+            replay={loadedReplay}
+            onRecording={setLastReplay}
+            net={online ? net : null}
+            powerUps={online ? { ...powerUps, enabled: false } : powerUps}
+            players={gameState === GameState.REPLAY && loadedReplay ? loadedReplay.players : players}
+            theme={theme}
+            visual={visual}
+            gameplay={activeGameplay}
         />
 
+        {/* Tracking Filter Debug Panel */}
+        {showTrackingPanel && (
+            <TrackingDebugPanel smoothing={smoothing} colors={{ p1: players.p1.color, p2: players.p2.color }} onChange={setSmoothing} onClose={() => setShowTrackingPanel(false)} />
+        )}
+
+        {/* Local Match History */}
+        {showHistory && (
+            <MatchHistoryPanel
+                matches={history}
+                onClear={() => {
+                    clearHistory();
+                    setHistory([]);
+                }}
+                onClose={() => setShowHistory(false)}
+            />
+        )}
+
+        {/* Announcer Voice Settings */}
+        {showVoicePanel && (
+            <SpeechSettingsPanel
+                settings={speechSettings}
+                voices={voices}
+                available={ttsBackend.available}
+                onChange={setSpeechSettings}
+                onTest={() => announcerRef.current?.say({ text: 'Gemini-X online. Velocity check, one, two!', timestamp: Date.now(), type: 'intro' })}
+                onClose={() => setShowVoicePanel(false)}
+            />
+        )}
+
+        {/* Gameplay Tuning */}
+        {showGameplayPanel && (
+            <GameplaySettingsPanel
+                settings={activeGameplay}
+                shareUrl={gameplayUrl(activeGameplay, window.location)}
+                locked={netRole === 'client'}
+                onChange={setGameplay}
+                onClose={() => setShowGameplayPanel(false)}
+            />
+        )}
+
+        {/* Tournament Registration & Bracket */}
+        {showTournament && (
+            <TournamentPanel
+                tournament={tournament}
+                suggested={[appearance.players.p1, appearance.players.p2].map((profile, i) => ({ ...profile, name: cleanName(profile.name, i === 0 ? 'p1' : 'p2') }))}
+                onCreate={setTournament}
+                onPlay={playTournamentMatch}
+                onDiscard={() => setTournament(null)}
+                onClose={() => setShowTournament(false)}
+            />
+        )}
+
+        {/* Sound Effects & Music Settings */}
+        {showSoundPanel && (
+            <AudioSettingsPanel
+                settings={audioSettings}
+                available={sound.available}
+                onChange={setAudioSettings}
+                onTest={() => sound.preview()}
+                onClose={() => setShowSoundPanel(false)}
+            />
+        )}
+
+        {/* Pause Button Overlay - Only visible when playing */}
+        {gameState === GameState.PLAYING && (
+            <button
+                onClick={handlePause}
+                className="absolute top-4 right-36 z-50 flex items-center gap-2 px-4 py-2 bg-black/60 hover:bg-gray-800/60 border border-gray-500/50 text-gray-300 rounded-full text-xs md:text-sm font-bold tracking-wider backdrop-blur-md transition-all hover:scale-105"
+            >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" /></svg>
+                PAUSE
+            </button>
+        )}
+
         {/* Restart Button Overlay - Only visible when playing */}
         {gameState === GameState.PLAYING && (
             <button 
@@ -76,38 +580,446 @@ const App: React.FC = () => {
         {/* Menu Overlay Layer (Z-50 to ensure clickability) */}
         {gameState === GameState.MENU && (
             <div className="absolute inset-0 flex flex-col items-center justify-center z-50 bg-black/80 backdrop-blur-sm transition-all duration-500">
-                <h2 className="text-5xl md:text-7xl font-bold mb-8 text-center animate-pulse">
-                    <span className="text-cyan-500">CYAN</span> VS <span className="text-fuchsia-500">MAGENTA</span>
+                <h2 className="text-4xl md:text-6xl font-bold mb-8 text-center animate-pulse">
+                    <span style={{ color: players.p1.color }}>{players.p1.name}</span> VS <span style={{ color: players.p2.color }}>{players.p2.name}</span>
                 </h2>
                 
-                <div className="bg-gray-900/90 p-6 rounded-lg border border-gray-800 max-w-md text-center mb-8 backdrop-blur-md shadow-2xl">
+                <div className="bg-gray-900/90 p-6 rounded-lg border border-gray-800 max-w-md max-h-[75%] overflow-y-auto text-center mb-8 backdrop-blur-md shadow-2xl">
                     <h3 className="text-lg font-bold mb-4 text-gray-300">HOW TO PLAY</h3>
                     <ul className="text-left text-gray-400 space-y-2 text-sm mb-6 font-sans">
                         <li className="flex items-start gap-2">
-                            <span className="text-cyan-500">1.</span> 
+                            <span style={{ color: players.p1.color }}>1.</span> 
                             <span>Wave your hands! Tracking dots should appear.</span>
                         </li>
                         <li className="flex items-start gap-2">
-                            <span className="text-cyan-500">2.</span> 
-                            <span><strong className="text-cyan-400">Left Hand</strong> moves Left Paddle.</span>
+                            <span style={{ color: players.p1.color }}>2.</span> 
+                            <span><strong style={{ color: players.p1.color }}>Left Hand</strong> moves Left Paddle.</span>
+                        </li>
+                        <li className="flex items-start gap-2">
+                            <span style={{ color: players.p2.color }}>3.</span> 
+                            <span><strong style={{ color: players.p2.color }}>Right Hand</strong> moves Right Paddle.</span>
                         </li>
                         <li className="flex items-start gap-2">
-                            <span className="text-fuchsia-500">3.</span> 
-                            <span><strong className="text-fuchsia-400">Right Hand</strong> moves Right Paddle.</span>
+                            <span className="text-gray-300">4.</span>
+                            <span>Pinch or push forward as you hit to <strong className="text-white">smash</strong>. Hold an open palm still to pause, make a fist to serve.</span>
                         </li>
                     </ul>
-                    
-                    <button 
-                        onClick={startGame}
-                        className="w-full py-3 px-6 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(6,182,212,0.5)] cursor-pointer z-50 pointer-events-auto"
-                    >
-                        Initialise Arena
+
+                    <h3 className="text-sm font-bold mb-2 text-gray-300">MODE</h3>
+                    <div className="grid grid-cols-3 gap-2 mb-4">
+                        <button onClick={() => setSetup(prev => ({ ...prev, opponent: 'human' }))} className={optionClass(setup.opponent === 'human')}>
+                            2 Players
+                        </button>
+                        <button onClick={() => setSetup(prev => ({ ...prev, opponent: 'cpu', format: 'singles' }))} className={optionClass(setup.opponent === 'cpu')}>
+                            1P vs CPU
+                        </button>
+                        <button onClick={() => setSetup(prev => ({ ...prev, opponent: 'remote', format: 'singles' }))} className={optionClass(online)}>
+                            Online
+                        </button>
+                    </div>
+
+                    {setup.opponent === 'human' && (
+                        <div className="grid grid-cols-2 gap-2 mb-4">
+                            {GAME_FORMATS.map(format => (
+                                <button key={format.id} onClick={() => setSetup(prev => ({ ...prev, format: format.id }))} className={optionClass(setup.format === format.id)}>
+                                    {format.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {online && (
+                        <NetplayPanel
+                            info={netInfo ?? net.info}
+                            available={net.available}
+                            opponentName={opponentProfile ? players[opponentSide].name : null}
+                            onHost={hostGame}
+                            onJoin={joinGame}
+                            onLeave={() => net.leave()}
+                        />
+                    )}
+
+                    {setup.opponent === 'cpu' && (
+                        <>
+                            <div className="grid grid-cols-2 gap-2 mb-2">
+                                <button onClick={() => setSetup(prev => ({ ...prev, humanSide: 'p1' }))} className={optionClass(setup.humanSide === 'p1')}>
+                                    Play Left ({players.p1.name})
+                                </button>
+                                <button onClick={() => setSetup(prev => ({ ...prev, humanSide: 'p2' }))} className={optionClass(setup.humanSide === 'p2')}>
+                                    Play Right ({players.p2.name})
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2 mb-4">
+                                {(Object.keys(CPU_PROFILES) as CpuDifficulty[]).map(level => (
+                                    <button key={level} onClick={() => setSetup(prev => ({ ...prev, cpuDifficulty: level }))} className={optionClass(setup.cpuDifficulty === level)}>
+                                        {CPU_PROFILES[level].label}
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    <h3 className="text-sm font-bold mb-2 text-gray-300">CONTROLS</h3>
+                    {doubles && (
+                        <p className="text-xs text-gray-400 mb-2">
+                            Four hands: P1 and P3 ({players.p1.name}) stand left, P2 and P4 ({players.p2.name}) right.
+                            {setup.format === 'doubles_lanes'
+                                ? ' P3 and P4 take the front lanes.'
+                                : ' P3 guards the top edge and P4 the bottom: move your hand sideways.'}
+                        </p>
+                    )}
+                    {setup.format === 'air_hockey' && (
+                        <p className="text-xs text-gray-400 mb-2">
+                            Air hockey: hands and mouse/touch move your mallet anywhere in your half. Keys and gamepad only slide it up and down.
+                        </p>
+                    )}
+                    {!doubles && humanPlayers.map(id => (
+                        <div key={id} className="flex items-center gap-2 mb-2">
+                            <span className="w-8 text-xs font-bold" style={{ color: players[id].color }}>{id.toUpperCase()}</span>
+                            <div className="grid grid-cols-5 gap-2 flex-1">
+                                {INPUT_KINDS.map(kind => (
+                                    <button key={kind.id} onClick={() => setPlayerInput(id, kind.id)} className={optionClass(setup.inputs[id] === kind.id)}>
+                                        {kind.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+
+                    {!doubles && !online && (
+                        <div className="grid grid-cols-2 gap-2 mb-2">
+                            {humanPlayers.map(id => (
+                                <button key={id} onClick={() => setAssist(id, !setup.assist[id])} className={optionClass(setup.assist[id])} aria-pressed={setup.assist[id]}>
+                                    {players[id].name} Assisted: {setup.assist[id] ? 'On' : 'Off'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {!doubles && !online && humanPlayers.some(id => setup.assist[id] || setup.inputs[id] === 'switch') && (
+                        <p className="text-xs text-gray-400 mb-2">
+                            Assisted: a longer paddle, and the ball slows down on its way to you. One Switch: the paddle sweeps by itself;
+                            {humanPlayers.every(id => setup.inputs[id] === 'switch') && humanPlayers.length > 1 ? ' Left Shift (P1) or Right Shift / Enter (P2)' : ' Space or Enter'} turns it round.
+                        </p>
+                    )}
+
+                    {usesHands && (
+                        <button onClick={() => setGesturesEnabled(prev => !prev)} className={`w-full mt-2 mb-2 ${optionClass(gesturesEnabled)}`}>
+                            Gesture Controls: {gesturesEnabled ? 'On' : 'Off'}
+                        </button>
+                    )}
+
+                    {setup.opponent === 'human' && usesHands && (
+                        <div className="grid grid-cols-3 gap-2 mb-4 mt-4">
+                            {ASSIGNMENT_POLICIES.map(policy => (
+                                <button key={policy.id} onClick={() => setAssignmentPolicy(policy.id)} className={optionClass(assignmentPolicy === policy.id)}>
+                                    {policy.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <h3 className="text-sm font-bold mb-2 text-gray-300">MATCH RULES</h3>
+                    <div className="grid grid-cols-2 gap-2 mb-2">
+                        {MATCH_RULESETS.map(rules => (
+                            <button
+                                key={rules.id}
+                                onClick={() => setMatchRules(rules)}
+                                className={optionClass(matchRules.id === rules.id)}
+                            >
+                                {rules.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {!online && (
+                        <>
+                            <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">POWER-UPS</h3>
+                            <div className="grid grid-cols-4 gap-2 mb-2">
+                                <button onClick={() => setPowerUps(prev => ({ ...prev, enabled: !prev.enabled }))} className={optionClass(powerUps.enabled)}>
+                                    {powerUps.enabled ? 'On' : 'Off'}
+                                </button>
+                                {SPAWN_RATES.map(rate => (
+                                    <button
+                                        key={rate.label}
+                                        onClick={() => setPowerUps(prev => ({ ...prev, enabled: true, spawnSeconds: rate.seconds }))}
+                                        className={optionClass(powerUps.enabled && powerUps.spawnSeconds === rate.seconds)}
+                                    >
+                                        {rate.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {powerUps.enabled && (
+                                <div className="grid grid-cols-4 gap-2 mb-2">
+                                    {POWER_UP_KINDS.map(kind => (
+                                        <button
+                                            key={kind}
+                                            onClick={() => setPowerUps(prev => ({ ...prev, kinds: { ...prev.kinds, [kind]: !prev.kinds[kind] } }))}
+                                            className={optionClass(powerUps.kinds[kind])}
+                                        >
+                                            {POWER_UPS[kind].glyph} {POWER_UPS[kind].label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">PLAYERS</h3>
+                    {(online ? [setup.humanSide] : (['p1', 'p2'] as PlayerId[])).map(id => (
+                        <div key={id} className="flex items-center gap-2 mb-2">
+                            <input
+                                type="color"
+                                value={appearance.players[id].color}
+                                onChange={e => setProfile(id, { color: e.target.value })}
+                                aria-label={`${id.toUpperCase()} colour`}
+                                className="w-8 h-8 bg-transparent border border-gray-700 rounded cursor-pointer"
+                            />
+                            <input
+                                value={appearance.players[id].name}
+                                onChange={e => setProfile(id, { name: e.target.value.toUpperCase().slice(0, MAX_NAME_LENGTH) })}
+                                placeholder={cleanName('', id)}
+                                aria-label={`${id.toUpperCase()} name`}
+                                className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-sm tracking-wider"
+                                style={{ color: appearance.players[id].color }}
+                            />
+                        </div>
+                    ))}
+
+                    <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">THEME</h3>
+                    <div className="grid grid-cols-3 gap-2 mb-2">
+                        {THEMES.map(option => (
+                            <button key={option.id} onClick={() => selectTheme(option)} className={optionClass(theme.id === option.id)}>
+                                <span style={{ color: option.colors.p1 }}>●</span>
+                                <span style={{ color: option.colors.p2 }}>●</span> {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {theme.colorblindSafe && (
+                        <p className="text-xs text-gray-400 mb-2">Colorblind-safe palette. Custom colours above override it.</p>
+                    )}
+
+                    <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">EFFECTS</h3>
+                    <div className="grid grid-cols-3 gap-2 mb-2">
+                        {(Object.keys(EFFECTS_QUALITIES) as EffectsQuality[]).map(quality => (
+                            <button key={quality} onClick={() => setVisual(prev => ({ ...prev, quality }))} className={optionClass(visual.quality === quality)}>
+                                {EFFECTS_QUALITIES[quality].label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 mb-2">
+                        <button onClick={() => setVisual(prev => ({ ...prev, reducedMotion: !prev.reducedMotion }))} className={optionClass(visual.reducedMotion)} aria-pressed={visual.reducedMotion}>
+                            Reduced Motion
+                        </button>
+                        <button onClick={() => setVisual(prev => ({ ...prev, highContrast: !prev.highContrast }))} className={optionClass(visual.highContrast)} aria-pressed={visual.highContrast}>
+                            High Contrast
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-400 mb-2">
+                        {visual.reducedMotion
+                            ? 'No sparks, shake, flashes or pulsing.'
+                            : 'Lower quality means fewer sparks, shorter trails and softer glow.'}
+                        {visual.highContrast && ' High contrast: a dark table, white markings and outlines, no glow.'}
+                    </p>
+
+                    {!online && (
+                        <>
+                            <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">TOURNAMENT</h3>
+                            <div className="grid grid-cols-2 gap-2 mb-2">
+                                <button onClick={() => setShowTournament(prev => !prev)} className={optionClass(showTournament)}>
+                                    {tournament ? 'Bracket' : 'New Tournament'}
+                                </button>
+                                {tournament && upcomingMatch && (
+                                    <button onClick={() => playTournamentMatch(upcomingMatch.id)} className={optionClass(false)}>
+                                        Play Next Match
+                                    </button>
+                                )}
+                            </div>
+                            {tournament && (
+                                <p className="text-xs text-gray-400 mb-2">
+                                    {upcomingMatch
+                                        ? `${tournament.name} · ${stageLabel(tournament, upcomingMatch)}: ${entrantById(tournament, upcomingMatch.players[0])?.name} vs ${entrantById(tournament, upcomingMatch.players[1])?.name}`
+                                        : `${tournament.name} · Champion: ${entrantById(tournament, tournament.champion)?.name ?? '-'}`}
+                                </p>
+                            )}
+                        </>
+                    )}
+
+                    <h3 className="text-sm font-bold mb-2 mt-4 text-gray-300">GAMEPLAY</h3>
+                    <button onClick={() => setShowGameplayPanel(prev => !prev)} className={`${optionClass(showGameplayPanel)} w-full mb-2`}>
+                        {matchingPreset(activeGameplay)?.label ?? 'Custom'} · Sizes & Speeds
                     </button>
+
+                    <div className="grid grid-cols-2 gap-2 mt-4 mb-6">
+                        <button onClick={() => setInstantReplay(prev => !prev)} className={optionClass(instantReplay)}>
+                            Instant Replays: {instantReplay ? 'On' : 'Off'}
+                        </button>
+                        <button onClick={() => replayInputRef.current?.click()} className={optionClass(false)}>
+                            Load Replay
+                        </button>
+                        <input
+                            ref={replayInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                e.target.value = ''; // Allow loading the same file twice
+                                if (file) loadReplay(file);
+                            }}
+                        />
+                    </div>
+                    {replayError && (
+                        <p className="text-red-400 text-xs mb-4 -mt-4">{replayError}</p>
+                    )}
+                    
+                    {netRole === 'client' ? (
+                        <p className="text-sm text-gray-400 font-sans">Waiting for the host to start the match…</p>
+                    ) : (
+                        <button 
+                            onClick={startGame}
+                            disabled={online && !(netRole === 'host' && netInfo?.status === 'connected')}
+                            className="w-full py-3 px-6 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(6,182,212,0.5)] cursor-pointer z-50 pointer-events-auto disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100"
+                        >
+                            Initialise Arena
+                        </button>
+                    )}
                 </div>
                 
-                {!apiKeyAvailable && (
-                   <p className="text-red-500 text-xs mt-2">Warning: API_KEY not detected. Commentary disabled.</p>
+                {commentaryProvider.id === 'offline' && (
+                   <p className="text-gray-500 text-xs mt-2">No commentary API configured. Using the offline announcer.</p>
+                )}
+            </div>
+        )}
+
+        {/* Paused Overlay */}
+        {gameState === GameState.PAUSED && (
+            <div ref={pauseRef} role="dialog" aria-label="Paused" tabIndex={-1} className="absolute inset-0 flex flex-col items-center justify-center z-50 bg-black/70 backdrop-blur-sm">
+                {pauseInfo?.countdown ? (
+                    <div key={pauseInfo.countdown} className="text-8xl md:text-9xl font-bold text-white animate-pulse drop-shadow-[0_0_30px_rgba(6,182,212,0.8)]">
+                        {pauseInfo.countdown}
+                    </div>
+                ) : (
+                    <>
+                        <h2 className="text-5xl md:text-6xl font-bold mb-4 tracking-widest">PAUSED</h2>
+                        {pauseInfo?.reason === 'disconnected' ? (
+                            <div className="text-center mb-6">
+                                <p className="text-lg font-bold text-red-400">
+                                    {netRole === 'client' ? 'CONNECTION TO HOST LOST' : 'OPPONENT DISCONNECTED'}
+                                </p>
+                                <p className="text-sm text-gray-400 mt-2 font-sans">
+                                    {netRole === 'client'
+                                        ? 'Rejoin the lobby from the menu, or wait for the connection to recover.'
+                                        : `Play resumes when they rejoin lobby ${netInfo?.lobby ?? ''}.`}
+                                </p>
+                                <button
+                                    onClick={() => setGameState(GameState.MENU)}
+                                    className="mt-4 py-2 px-6 border border-gray-600 hover:border-gray-400 text-gray-300 font-bold rounded uppercase tracking-widest transition-all"
+                                >
+                                    Menu
+                                </button>
+                            </div>
+                        ) : pauseInfo && pauseInfo.missing.length > 0 ? (
+                            <div className="text-center mb-6">
+                                {pauseInfo.missing.map(id => (
+                                    <p key={id} className="text-lg font-bold" style={{ color: players[teamOf(id)].color }}>
+                                        {paddleLabel(players, id)} HAND NOT DETECTED
+                                    </p>
+                                ))}
+                                <p className="text-sm text-gray-400 mt-2 font-sans">Raise your hand in front of the camera to continue.</p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-400 mb-6 font-sans">
+                                {netRole === 'client' ? 'Waiting for the host to resume.' : 'Press P or Esc to resume.'}
+                            </p>
+                        )}
+                        {pauseInfo?.reason === 'manual' && netRole !== 'client' && (
+                            <button
+                                onClick={handleResume}
+                                className="py-3 px-8 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(6,182,212,0.5)]"
+                            >
+                                Resume
+                            </button>
+                        )}
+                        {usesHands && netRole !== 'client' && (
+                            <button onClick={() => setGesturesEnabled(prev => !prev)} aria-pressed={gesturesEnabled} className="mt-4 py-1 px-4 border border-gray-600 hover:border-gray-400 text-gray-300 text-sm rounded">
+                                Gesture Controls: {gesturesEnabled ? 'On' : 'Off'}
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        )}
+
+        {/* Results Overlay */}
+        {gameState === GameState.GAME_OVER && matchResult && (
+            <div ref={resultsRef} role="dialog" aria-label="Match over" tabIndex={-1} className="absolute inset-0 flex flex-col items-center justify-center z-50 bg-black/80 backdrop-blur-sm overflow-y-auto py-6">
+                <p className="text-sm text-gray-400 tracking-[0.3em] mb-2">MATCH OVER</p>
+                <h2 className="text-5xl md:text-7xl font-bold mb-4 text-center" style={{ color: players[matchResult.winner].color }}>
+                    {matchResult.winnerName} WINS
+                </h2>
+                <p className="text-3xl font-bold mb-1">
+                    <span style={{ color: players.p1.color }}>{matchResult.rules.setsToWin > 1 ? matchResult.sets.p1 : matchResult.scores.p1}</span>
+                    <span className="text-gray-500 mx-3">-</span>
+                    <span style={{ color: players.p2.color }}>{matchResult.rules.setsToWin > 1 ? matchResult.sets.p2 : matchResult.scores.p2}</span>
+                </p>
+                {tournament && tournamentMatch && (
+                    <p className="text-xs text-cyan-400 mb-1 font-mono tracking-widest">
+                        {tournament.name.toUpperCase()} · {stageLabel(tournament, tournamentMatch).toUpperCase()}
+                        {tournament.champion && ` · ${entrantById(tournament, tournament.champion)?.name} IS CHAMPION`}
+                    </p>
+                )}
+                <p className="text-xs text-gray-500 mb-4 font-mono">
+                    {matchResult.rules.label}{matchResult.rules.setsToWin > 1 ? ' · SETS' : ''}{matchResult.suddenDeath ? ' · DECIDED IN SUDDEN DEATH' : ''}
+                </p>
+
+                {lastRecord && <MatchStatsReport stats={lastRecord.stats} players={lastRecord.players} />}
+
+                {commentary?.type === 'game_over' && (
+                    <p className="max-w-md text-center text-sm text-white font-light italic mb-6">"{commentary.text}"</p>
                 )}
+
+                <div className="flex gap-4">
+                    {tournamentMatch && (
+                        <>
+                            {upcomingMatch && (
+                                <button
+                                    onClick={() => playTournamentMatch(upcomingMatch.id)}
+                                    className="py-3 px-6 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(6,182,212,0.5)]"
+                                >
+                                    Next Match
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setShowTournament(true)}
+                                className="py-3 px-6 border border-gray-600 hover:border-gray-400 text-gray-300 font-bold rounded uppercase tracking-widest transition-all"
+                            >
+                                Bracket
+                            </button>
+                        </>
+                    )}
+                    {netRole !== 'client' && !tournamentMatch && (
+                        <button
+                            onClick={startGame}
+                            className="py-3 px-6 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(6,182,212,0.5)]"
+                        >
+                            Rematch
+                        </button>
+                    )}
+                    {lastReplay && netRole !== 'client' && (
+                        <button
+                            onClick={() => downloadReplay(lastReplay)}
+                            className="py-3 px-6 border border-gray-600 hover:border-gray-400 text-gray-300 font-bold rounded uppercase tracking-widest transition-all"
+                        >
+                            Export Replay
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setGameState(GameState.MENU)}
+                        className="py-3 px-6 border border-gray-600 hover:border-gray-400 text-gray-300 font-bold rounded uppercase tracking-widest transition-all"
+                    >
+                        Menu
+                    </button>
+                </div>
             </div>
         )}
 
@@ -124,7 +1036,7 @@ const App: React.FC = () => {
                             <span className="inline-block w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
                         </div>
                         <p className="text-sm md:text-base text-white font-light italic">
-                            "{commentary.text}"
+                            "<CommentaryCaption text={commentary.text} progress={speechProgress?.line === commentary ? speechProgress : null} />"
                         </p>
                     </div>
                 </div>
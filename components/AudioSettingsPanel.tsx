@@ -0,0 +1,72 @@
+import React from 'react';
+import { AudioSettings } from '../types';
+import { DEFAULT_AUDIO_SETTINGS } from '../services/soundEngine';
+import { useDialog } from './useDialog';
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  available: boolean;
+  onChange: (settings: AudioSettings) => void;
+  onTest: () => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'sfx', label: 'Effects' },
+  { key: 'music', label: 'Music' }
+];
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, available, onChange, onTest, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const update = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Sound" tabIndex={-1} className="absolute top-4 right-4 z-[55] w-72 bg-black/80 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">SOUND</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      {!available && <p className="text-red-400 mb-3">Web Audio is not supported in this browser.</p>}
+
+      <label className="flex items-center gap-2 mb-1">
+        <input type="checkbox" checked={settings.muted} onChange={e => update({ muted: e.target.checked })} className="accent-cyan-500" />
+        <span>Muted</span>
+      </label>
+      <label className="flex items-center gap-2 mb-3">
+        <input type="checkbox" checked={settings.musicEnabled} onChange={e => update({ musicEnabled: e.target.checked })} className="accent-cyan-500" />
+        <span>Background music</span>
+      </label>
+
+      {FIELDS.map(field => (
+        <label key={field.key} className="block mb-1">
+          <div className="flex justify-between">
+            <span>{field.label}</span>
+            <span className="text-white">{Math.round(settings[field.key] * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings[field.key]}
+            onChange={e => update({ [field.key]: parseFloat(e.target.value) })}
+            className="w-full accent-cyan-500"
+          />
+        </label>
+      ))}
+
+      <div className="flex justify-between mt-3">
+        <button onClick={onTest} disabled={!available || settings.muted} className="text-cyan-400 hover:text-white disabled:text-gray-600">
+          TEST
+        </button>
+        <button onClick={() => onChange({ ...DEFAULT_AUDIO_SETTINGS })} className="text-[10px] text-gray-500 hover:text-white">
+          RESET
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { SpeechProgress } from '../services/speechService';
+
+interface CommentaryCaptionProps {
+  text: string;
+  progress: SpeechProgress | null; // Null when this line isn't being spoken
+}
+
+// Commentary text with the spoken part lit up and the current word highlighted
+const CommentaryCaption: React.FC<CommentaryCaptionProps> = ({ text, progress }) => {
+  if (!progress) return <>{text}</>;
+
+  const wordEnd = progress.charIndex + progress.charLength;
+  return (
+    <>
+      <span>{text.slice(0, progress.charIndex)}</span>
+      <span className="text-cyan-300 font-normal">{text.slice(progress.charIndex, wordEnd)}</span>
+      <span className="text-gray-400">{text.slice(wordEnd)}</span>
+    </>
+  );
+};
+
+export default CommentaryCaption;
@@ -1,100 +1,367 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { VisionService } from '../services/visionService';
-import { GameState, PlayerState, BallState, GameCommentary } from '../types';
-import { generateCommentary } from '../services/geminiService';
+import { GameState, PlayerState, PlayerId, PaddleId, MatchRules, MatchResult, PauseInfo, GameSetup, SmoothingSettings, AssignmentPolicy, GestureKind, PowerUpSettings, EffectKind, BallState, PlayerProfile, Theme, VisualSettings, GameplaySettings } from '../types';
+import { PhysicsEngine, RenderSnapshot, PADDLE_HEIGHT, PADDLE_WIDTH, PADDLE_INSET, BALL_SIZE, FRONT_LANE_X, PADDLE_IDS, teamOf, isDoubles, paddlesIn, paddleAxis, paddleRect } from '../services/physicsEngine';
+import { GOAL_MOUTH, MALLET_RADIUS, PUCK_RADIUS } from '../services/airHockey';
+import { MatchEngine } from '../services/matchRules';
+import { MatchTracker } from '../services/matchTracker';
+import { GameEventBus } from '../services/gameEvents';
+import { CpuController } from '../services/cpuController';
+import { HandSmoother } from '../services/handSmoothing';
+import { HandAssigner, DetectedHand } from '../services/handAssignment';
+import { InputProvider, createInputProviders, humanInputs } from '../services/inputProviders';
+import { GestureRecognizer, GestureReading } from '../services/gestureRecognizer';
+import { ReplayData, ReplayHand, ReplayPlayer, ReplayRecorder } from '../services/replay';
+import { NetSession } from '../services/netplay';
+import { POWER_UPS, PICKUP_RADIUS, DEFAULT_POWER_UP_SETTINGS, pickupLife } from '../services/powerUps';
+import { DEFAULT_THEME, defaultPlayers, withAlpha } from '../services/themes';
+import { ArenaEffects, DEFAULT_VISUAL_SETTINGS } from '../services/particles';
+import { DEFAULT_GAMEPLAY } from '../services/gameplaySettings';
+import ReplayControls from './ReplayControls';
 
-// --- Constants ---
-const PADDLE_HEIGHT = 0.2; // 20% of screen height
-const PADDLE_WIDTH = 0.02; // 2% of screen width
-const BALL_SIZE = 0.025;
+// --- Pause Constants ---
+const DEFAULT_HAND_LOSS_PAUSE_MS = 1500;
+const RESUME_COUNTDOWN_MS = 3000;
+const HAND_LOST_EVENT_MS = 500; // Untracked this long = hand_lost event (well before auto-pause)
 
-// DIFFICULTY SETTINGS
-const INITIAL_SPEED = 0.025; // Increased starting speed for immediate challenge
-const SPEED_INCREMENT = 0.0025; // Faster ramp-up per hit
-const MAX_SPEED = 0.08; // Higher top speed
-const MAX_REFLECTION_ANGLE = Math.PI / 3; // 60 degrees - Sharper angles for edge hits
+// --- Replay Constants ---
+const INSTANT_REPLAY_SECONDS = 2.5; // Run-up to the goal that gets replayed
+const INSTANT_REPLAY_SPEED = 0.35;
+const REPLAY_UI_INTERVAL_MS = 100; // How often the scrub bar follows playback
+
+// --- Gesture Constants ---
+// Open palm held this long pauses (or resumes a manual pause). Players steer with an open hand too,
+// so it only counts while the palm is clearly open and held still
+const PALM_HOLD_MS = 2500;
+const PALM_PAUSE_CONFIDENCE = 0.9;
+const AUTO_SERVE_MS = 3000; // Serve on its own if the server never makes a fist
+const GESTURE_LABELS: Record<GestureKind, string> = {
+  pinch: 'SMASH READY',
+  open_palm: 'HOLD STILL TO PAUSE',
+  fist: 'FIST',
+  push: 'SMASH READY'
+};
+const DEFAULT_PLAYERS = defaultPlayers();
 
 interface GameCanvasProps {
   gameState: GameState;
   setGameState: (state: GameState) => void;
-  onCommentary: (commentary: GameCommentary) => void;
+  events: GameEventBus; // Everything that happens in the match is published here
   resetTrigger: number; // Increments to trigger a reset
+  matchRules: MatchRules;
+  onGameOver: (result: MatchResult) => void;
+  resumeTrigger: number; // Increments when the user asks to resume from PAUSED
+  onPauseInfo: (info: PauseInfo | null) => void;
+  handLossPauseMs?: number; // Auto-pause after a side has no tracked hand for this long (0 = off)
+  setup: GameSetup;
+  smoothing: Record<PlayerId, SmoothingSettings>;
+  assignmentPolicy: AssignmentPolicy;
+  gesturesEnabled?: boolean; // Pinch/push smash, palm pause, fist serve
+  instantReplay?: boolean; // Slow-motion replay of the run-up after each goal
+  replay?: ReplayData | null; // Played back in the REPLAY state
+  onRecording?: (replay: ReplayData) => void; // The finished match, ready to export
+  net?: NetSession | null; // Online match: host simulates and streams, client follows
+  powerUps?: PowerUpSettings; // Applied when a match starts
+  players?: Record<PlayerId, PlayerProfile>; // Names and colours for each side
+  theme?: Theme;
+  visual?: VisualSettings; // Effects quality and reduced motion
+  gameplay?: GameplaySettings; // Sizes and speeds; changes wait for the next serve
+}
+
+interface ReplayUi {
+  time: number;
+  playing: boolean;
+  speed: number;
 }
 
 // Helper to track raw hand positions for visualization
 interface HandVisual {
   x: number;
   y: number;
-  player: 'P1' | 'P2';
+  player: PaddleId | null; // null = detected but not driving a paddle
+  gesture: GestureReading | null;
 }
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onCommentary, resetTrigger }) => {
+const paddlePos = (snapshot: Pick<RenderSnapshot, 'p1Y' | 'p2Y' | 'p3Pos' | 'p4Pos'>, id: PaddleId) =>
+  id === 'p1' ? snapshot.p1Y : id === 'p2' ? snapshot.p2Y : id === 'p3' ? snapshot.p3Pos : snapshot.p4Pos;
+
+const formatClock = (seconds: number) => {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const GameCanvas: React.FC<GameCanvasProps> = ({
+  gameState, setGameState, events, resetTrigger, matchRules, onGameOver,
+  resumeTrigger, onPauseInfo, handLossPauseMs = DEFAULT_HAND_LOSS_PAUSE_MS, setup, smoothing, assignmentPolicy,
+  gesturesEnabled = true, instantReplay = true, replay = null, onRecording, net = null,
+  powerUps = DEFAULT_POWER_UP_SETTINGS, players = DEFAULT_PLAYERS, theme = DEFAULT_THEME, visual = DEFAULT_VISUAL_SETTINGS,
+  gameplay = DEFAULT_GAMEPLAY
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // Game Logic Refs (Mutable state for high-performance loop)
-  const player1Ref = useRef<PlayerState>({ score: 0, y: 0.5, name: 'CYAN', color: '#06b6d4' });
-  const player2Ref = useRef<PlayerState>({ score: 0, y: 0.5, name: 'MAGENTA', color: '#d946ef' });
-  const ballRef = useRef<BallState>({ x: 0.5, y: 0.5, vx: INITIAL_SPEED, vy: 0.01, speed: INITIAL_SPEED });
+  const player1Ref = useRef<PlayerState>({ score: 0, y: 0.5, x: 0.5, partner: 0.5, ...players.p1, effects: {} });
+  const player2Ref = useRef<PlayerState>({ score: 0, y: 0.5, x: 0.5, partner: 0.5, ...players.p2, effects: {} });
+  const physicsRef = useRef<PhysicsEngine | null>(null);
+  if (!physicsRef.current) {
+    physicsRef.current = new PhysicsEngine(player1Ref.current, player2Ref.current);
+    physicsRef.current.setGameplay(gameplay, true);
+  }
+  const matchRef = useRef<MatchEngine | null>(null);
+  if (!matchRef.current) {
+    matchRef.current = new MatchEngine(matchRules, player1Ref.current, player2Ref.current);
+  }
+  const trackerRef = useRef<MatchTracker | null>(null);
+  if (!trackerRef.current) {
+    trackerRef.current = new MatchTracker(player1Ref.current, player2Ref.current);
+  }
+  const cpuRef = useRef<CpuController | null>(null);
+  const assignerRef = useRef<HandAssigner>(new HandAssigner(assignmentPolicy));
+  // Doubles partners share their team's tracking settings
+  const smoothersRef = useRef<Record<PaddleId, HandSmoother>>({
+    p1: new HandSmoother(smoothing.p1), p2: new HandSmoother(smoothing.p2),
+    p3: new HandSmoother(smoothing.p1), p4: new HandSmoother(smoothing.p2)
+  });
+  // Air hockey: each hand also steers its mallet across the table
+  const xSmoothersRef = useRef<Record<PlayerId, HandSmoother>>({ p1: new HandSmoother(smoothing.p1), p2: new HandSmoother(smoothing.p2) });
+  const providersRef = useRef<Partial<Record<PaddleId, InputProvider>>>({});
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  // Gesture Refs
+  const recognizersRef = useRef<Record<PaddleId, GestureRecognizer>>({
+    p1: new GestureRecognizer(), p2: new GestureRecognizer(), p3: new GestureRecognizer(), p4: new GestureRecognizer()
+  });
+  const gesturesRef = useRef<Record<PaddleId, GestureReading | null>>({ p1: null, p2: null, p3: null, p4: null });
+  const serveDeadlineRef = useRef<number | null>(null);
   
   // Visualization Refs
   const handsVisualRef = useRef<HandVisual[]>([]);
+  const replayHandsRef = useRef<ReplayHand[]>([]); // Same hands, in the recorder's format
   const scoreEffectsRef = useRef({ p1: 1, p2: 1 }); // Scale factor for score animation
+  const effectsRef = useRef<ArenaEffects>(new ArenaEffects(visual)); // Sparks, trails, shake and flash
+  const lastDrawRef = useRef<number | null>(null);
   
   const requestRef = useRef<number>();
   const lastVideoTimeRef = useRef<number>(-1);
-  const scoreTriggeredRef = useRef<boolean>(false);
+
+  // Replay Refs
+  const recorderRef = useRef<ReplayRecorder>(new ReplayRecorder());
+  const instantReplayRef = useRef<ReplayPlayer | null>(null);
+  const playbackRef = useRef<ReplayPlayer | null>(null);
+  const replayUiSyncRef = useRef(0);
+  const netScoresRef = useRef<Record<PlayerId, number>>({ p1: 0, p2: 0 }); // Client: last scores seen, for the pop effect
+  const [instantReplaying, setInstantReplaying] = useState(false);
+  const [replayUi, setReplayUi] = useState<ReplayUi | null>(null);
+
+  // Pause Refs
+  const lastHandSeenRef = useRef<Record<PaddleId, number>>({ p1: performance.now(), p2: performance.now(), p3: performance.now(), p4: performance.now() });
+  const handPresentRef = useRef<Record<PaddleId, boolean>>({ p1: true, p2: true, p3: true, p4: true });
+  const pauseRef = useRef<{ reason: PauseInfo['reason']; resumeRequested: boolean; countdownEnd: number | null; startedMs: number } | null>(null);
+  const pauseInfoKeyRef = useRef<string>('');
 
   // Vision Service
   const [visionLoaded, setVisionLoaded] = useState(false);
   const [cameraActive, setCameraActive] = useState(false);
+  const [visionError, setVisionError] = useState<string | null>(null);
+  const [visionAttempt, setVisionAttempt] = useState(0); // Increments on "Retry"
 
-  // Helper to reset ball with Progressive Difficulty
-  const resetBall = (scorer: 'p1' | 'p2') => {
-    const totalScore = player1Ref.current.score + player2Ref.current.score;
-    
-    // Difficulty Ramp: Speed increases slightly with every goal scored
-    const difficultyBoost = Math.min(totalScore * 0.0015, 0.02); 
-    const startSpeed = INITIAL_SPEED + difficultyBoost;
-
-    ballRef.current = {
-      x: 0.5,
-      y: 0.5,
-      vx: scorer === 'p1' ? startSpeed : -startSpeed, // Loser serves
-      vy: (Math.random() - 0.5) * 0.06, // More random initial serving angle
-      speed: startSpeed
-    };
-  };
+  // --- Player Profiles ---
+  // Edited in the menu (or sent by an online opponent); match_start announces whatever is set
+  useEffect(() => {
+    player1Ref.current.name = players.p1.name;
+    player1Ref.current.color = players.p1.color;
+    player2Ref.current.name = players.p2.name;
+    player2Ref.current.color = players.p2.color;
+  }, [players]);
+
+  // --- Gameplay Settings ---
+  // Mid-match they wait for the next serve; otherwise (and on an online client, which only draws) they apply at once
+  useEffect(() => {
+    const inPlay = (gameState === GameState.PLAYING || gameState === GameState.PAUSED) && net?.role !== 'client';
+    physicsRef.current?.setGameplay(gameplay, !inPlay);
+  }, [gameplay, gameState, net]);
+
+  useEffect(() => {
+    effectsRef.current.setGameplay(gameplay);
+  }, [gameplay]);
+
+  useEffect(() => {
+    VisionService.getInstance().setDetectBudget(gameplay.detectBudgetMs);
+  }, [gameplay.detectBudgetMs]);
+
+  // --- Assisted Play ---
+  // Only for players on this machine: never the CPU's side, and not online or in doubles
+  useEffect(() => {
+    const local = (id: PlayerId) =>
+        (setup.opponent === 'human' && !isDoubles(setup.format)) || (setup.opponent === 'cpu' && id === setup.humanSide);
+    physicsRef.current?.setAssist({ p1: setup.assist.p1 && local('p1'), p2: setup.assist.p2 && local('p2') });
+  }, [setup]);
+
+  // --- Visual Effects ---
+  useEffect(() => {
+    effectsRef.current.configure(visual);
+  }, [visual]);
+
+  // Sparks and pulses in the side's colour; walls spark in the ball's
+  useEffect(() => {
+    const effects = effectsRef.current;
+    const colorOf = (id: PlayerId) => (id === 'p1' ? player1Ref.current.color : player2Ref.current.color);
+    const unsubscribers = [
+      events.on('paddle_hit', event => effects.paddleHit(event.paddle, event.x, event.y, colorOf(event.player), event.speed, event.smash)),
+      events.on('wall_bounce', event => effects.wallBounce(event.x, event.y, theme.ball, event.speed)),
+      events.on('goal', event => effects.goal(event.at.x, event.at.y, colorOf(event.scorer)))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [events, theme]);
 
   // --- Reset Logic ---
   useEffect(() => {
     if (resetTrigger > 0) {
-        // Reset Scores
-        player1Ref.current.score = 0;
-        player2Ref.current.score = 0;
+        // Reset Scores & Ball (Randomize starter)
+        physicsRef.current?.setPowerUps(powerUps);
+        physicsRef.current?.resetMatch();
+        matchRef.current?.reset(matchRules);
+        trackerRef.current?.reset();
+
+        // CPU opponent takes whichever side the human isn't playing
+        cpuRef.current = setup.opponent === 'cpu'
+            ? new CpuController(setup.humanSide === 'p1' ? 'p2' : 'p1', setup.cpuDifficulty)
+            : null;
         
         // Reset Animation Effects
         scoreEffectsRef.current = { p1: 1, p2: 1 };
+        effectsRef.current.reset();
 
-        // Reset Ball (Randomize starter)
-        resetBall(Math.random() > 0.5 ? 'p1' : 'p2');
+        // Give players a moment to get their hands up before auto-pause kicks in
+        const now = performance.now();
+        lastHandSeenRef.current = { p1: now, p2: now, p3: now, p4: now };
+        handPresentRef.current = { p1: true, p2: true, p3: true, p4: true };
+        pauseRef.current = null;
+        serveDeadlineRef.current = null;
+
+        recorderRef.current.reset(physicsRef.current!.getFormat(), physicsRef.current!.gameplay.ballSize);
+        instantReplayRef.current = null;
+        setInstantReplaying(false);
+
+        events.emit({
+            type: 'match_start',
+            players: {
+                p1: { name: player1Ref.current.name, color: player1Ref.current.color },
+                p2: { name: player2Ref.current.name, color: player2Ref.current.color }
+            }
+        });
     }
   }, [resetTrigger]);
 
+  // --- Pause Bookkeeping ---
+  useEffect(() => {
+    if (gameState === GameState.PAUSED && !pauseRef.current) {
+        // Entered PAUSED from the pause button
+        pauseRef.current = { reason: 'manual', resumeRequested: false, countdownEnd: null, startedMs: performance.now() };
+    } else if (gameState !== GameState.PAUSED) {
+        pauseRef.current = null;
+        pauseInfoKeyRef.current = '';
+    }
+  }, [gameState]);
+
+  // --- Input Providers ---
+  // They only listen during a match, so the menus' text fields keep their keys
+  const inputLive = gameState === GameState.PLAYING || gameState === GameState.PAUSED;
+  useEffect(() => {
+    const providers = createInputProviders(humanInputs(setup), smoothersRef.current, xSmoothersRef.current);
+    const element = containerRef.current;
+    if (inputLive) Object.values(providers).forEach(provider => element && provider?.attach(element));
+    providersRef.current = providers;
+    return () => {
+      Object.values(providers).forEach(provider => provider?.detach());
+    };
+  }, [setup, inputLive]);
+
+  // Only block on the camera when someone actually plays with their hands (never for replays)
+  const needsCamera = gameState !== GameState.REPLAY && Object.values(humanInputs(setup)).includes('hand');
+
+  // --- Replay Playback ---
+  useEffect(() => {
+    if (gameState === GameState.REPLAY && replay) {
+        const playback = new ReplayPlayer(replay.frames);
+        playbackRef.current = playback;
+        setReplayUi({ time: playback.time, playing: playback.playing, speed: playback.speed });
+    } else {
+        playbackRef.current = null;
+        setReplayUi(null);
+    }
+  }, [gameState, replay]);
+
+  const syncReplayUi = () => {
+    const playback = playbackRef.current;
+    if (playback) setReplayUi({ time: playback.time, playing: playback.playing, speed: playback.speed });
+  };
+
+  // --- Table Format ---
+  // Applied straight away so the menu shows (and tracks) the doubles paddles
+  useEffect(() => {
+    physicsRef.current?.setFormat(setup.format);
+    assignerRef.current.reset();
+    VisionService.getInstance().setMaxHands(paddlesIn(setup.format).length).catch(error => console.warn('Could not change the tracked hand count:', error));
+  }, [setup.format]);
+
+  // --- Hand Assignment Policy ---
+  useEffect(() => {
+    assignerRef.current.reset(assignmentPolicy);
+  }, [assignmentPolicy]);
+
+  // --- Tracking Filter Tuning ---
+  useEffect(() => {
+    PADDLE_IDS.forEach(id => smoothersRef.current[id].configure(smoothing[teamOf(id)]));
+    (['p1', 'p2'] as PlayerId[]).forEach(id => xSmoothersRef.current[id].configure(smoothing[id]));
+  }, [smoothing]);
+
+  // --- Gesture Toggle ---
+  useEffect(() => {
+    physicsRef.current?.setServeHold(gesturesEnabled);
+    if (!gesturesEnabled) {
+        PADDLE_IDS.forEach(id => physicsRef.current?.setSmashArmed(id, false));
+    }
+  }, [gesturesEnabled]);
+
+  // A hand player's gesture that has been held for at least `holdMs` (and began after `afterMs`)
+  const heldGesture = (id: PaddleId, kind: GestureKind, now: number, holdMs: number, afterMs = -Infinity) => {
+    const reading = gesturesRef.current[id];
+    return gesturesEnabled && providersRef.current[id]?.kind === 'hand' && reading?.gesture === kind &&
+        reading.sinceMs > afterMs && now - reading.sinceMs >= holdMs;
+  };
+
+  // The pause gesture: a clearly open palm, held still for PALM_HOLD_MS (and begun after `afterMs`)
+  const heldStillPalm = (id: PaddleId, now: number, afterMs = -Infinity) => {
+    const reading = gesturesRef.current[id];
+    return heldGesture(id, 'open_palm', now, PALM_HOLD_MS, afterMs) && reading!.confidence >= PALM_PAUSE_CONFIDENCE &&
+        now - reading!.stillSinceMs >= PALM_HOLD_MS;
+  };
+
+  // --- Resume Request ---
+  useEffect(() => {
+    if (resumeTrigger > 0 && pauseRef.current) {
+        pauseRef.current.resumeRequested = true;
+    }
+  }, [resumeTrigger]);
+
   // --- Initialization ---
   useEffect(() => {
     const initVision = async () => {
+      setVisionError(null);
       try {
         await VisionService.getInstance().initialize();
         setVisionLoaded(true);
       } catch (e) {
         console.error("Failed to load vision", e);
+        setVisionError(e instanceof Error ? e.message : "Hand tracking failed to load.");
       }
     };
     initVision();
-  }, []);
+  }, [visionAttempt]);
 
   // --- Camera Setup ---
   useEffect(() => {
@@ -114,10 +381,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
         setCameraActive(true);
       } catch (err) {
         console.error("Camera permission denied", err);
+        setVisionError("Camera access was denied or no camera was found.");
       }
     };
 
-    if (gameState !== GameState.LOADING && visionLoaded) {
+    if (gameState !== GameState.LOADING && gameState !== GameState.REPLAY && visionLoaded) {
       enableCamera();
     }
 
@@ -128,142 +396,359 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
         tracks.forEach(track => track.stop());
       }
     };
-  }, [visionLoaded, gameState]);
+  }, [visionLoaded, gameState, visionAttempt]);
+
+  // --- Match End ---
+  const endMatch = useCallback((result: MatchResult) => {
+    setGameState(GameState.GAME_OVER);
+    onGameOver(result);
+    events.emit({ type: 'match_end', result });
+    onRecording?.(recorderRef.current.toData(matchRef.current!.rules, player1Ref.current, player2Ref.current, result));
+  }, [setGameState, onGameOver, events, onRecording]);
+
+  // --- Instant Replay ---
+  const endInstantReplay = useCallback(() => {
+    instantReplayRef.current = null;
+    setInstantReplaying(false);
+  }, []);
+
+  // --- Scoring Feedback ---
+  const handleScore = useCallback((scorer: PlayerId, server: PlayerId, y: number, bank: boolean, at: { x: number; y: number }) => {
+    scoreEffectsRef.current[scorer] = 2.5; // Pop effect
+
+    // Snapshot the stats before a set win resets the scores
+    const { context, events: moments } = trackerRef.current!.recordGoal(scorer, bank);
+    const match = matchRef.current!;
+    const outcome = match.recordPoint(scorer);
+
+    events.emit({ type: 'goal', scorer, server, y, at, context });
+    moments.forEach(moment => events.emit(moment));
+
+    if (outcome.type === 'match') {
+        endMatch(outcome.result);
+        return;
+    }
+
+    // In sudden death (or level one short of the target) both sides are on it
+    const onMatchPoint = (['p1', 'p2'] as PlayerId[]).filter(id => match.isMatchPoint(id));
+    if (onMatchPoint.length > 0) {
+        const player = onMatchPoint.length === 1 ? onMatchPoint[0] : null;
+        events.emit({ type: 'match_point', player, context: trackerRef.current!.getContext() });
+    }
+
+    if (instantReplay) {
+        const frames = recorderRef.current.lastGoalFrames(INSTANT_REPLAY_SECONDS);
+        if (frames.length > 1) {
+            instantReplayRef.current = new ReplayPlayer(frames, INSTANT_REPLAY_SPEED);
+            setInstantReplaying(true);
+        }
+    }
+  }, [events, endMatch, instantReplay]);
+
+  // --- Pause / Auto-Pause ---
+  // Returns true when the game should not advance this frame
+  const updatePause = useCallback((now: number): boolean => {
+    const paddles = paddlesIn(physicsRef.current!.getFormat());
+    const missing = paddles.filter(id =>
+        handLossPauseMs > 0 && providersRef.current[id]?.usesCamera && now - lastHandSeenRef.current[id] > handLossPauseMs
+    );
+
+    // Online host without a connected client
+    const peerLost = net?.role === 'host' && !net.connected;
+
+    if (gameState === GameState.PLAYING) {
+        if (pauseRef.current) return true; // Auto-pause already requested, waiting for the state change
+        if (peerLost) {
+            pauseRef.current = { reason: 'disconnected', resumeRequested: false, countdownEnd: null, startedMs: now };
+        } else if (missing.length === 0) {
+            // Holding an open palm still is a hands-free pause button
+            if (!paddles.some(id => heldStillPalm(id, now))) return false;
+            pauseRef.current = { reason: 'manual', resumeRequested: false, countdownEnd: null, startedMs: now };
+        } else {
+            pauseRef.current = { reason: 'hand_lost', resumeRequested: false, countdownEnd: null, startedMs: now };
+        }
+        setGameState(GameState.PAUSED);
+        return true;
+    }
+
+    // Paddles keep following the hands so players can line up before play resumes
+    physicsRef.current?.syncPaddles();
+
+    const pause = pauseRef.current;
+    if (!pause) return true; // Just resumed, waiting for the state change
+
+    // A fresh palm hold (not the one that paused) resumes a manual pause
+    if (pause.reason === 'manual' && paddles.some(id => heldStillPalm(id, now, pause.startedMs))) {
+        pause.resumeRequested = true;
+    }
+
+    // Hand-loss and disconnect pauses resume on their own; manual ones wait for the resume button
+    const wantsResume = pause.reason !== 'manual' || pause.resumeRequested;
+    if (!wantsResume || missing.length > 0 || peerLost) {
+        pause.countdownEnd = null;
+    } else if (pause.countdownEnd === null) {
+        pause.countdownEnd = now + RESUME_COUNTDOWN_MS;
+    } else if (now >= pause.countdownEnd) {
+        events.emit({ type: 'countdown', count: 0 });
+        pauseRef.current = null;
+        pauseInfoKeyRef.current = '';
+        onPauseInfo(null);
+        setGameState(GameState.PLAYING);
+        return true;
+    }
+
+    const info: PauseInfo = {
+        reason: pause.reason,
+        missing,
+        countdown: pause.countdownEnd === null ? null : Math.ceil((pause.countdownEnd - now) / 1000)
+    };
+    // Only push to React when something visible changed
+    const key = JSON.stringify(info);
+    if (key !== pauseInfoKeyRef.current) {
+        pauseInfoKeyRef.current = key;
+        onPauseInfo(info);
+        if (info.countdown !== null) events.emit({ type: 'countdown', count: info.countdown });
+    }
+    return true;
+  }, [gameState, setGameState, onPauseInfo, handLossPauseMs, gesturesEnabled, net, events]);
 
   // --- Game Loop ---
   const updateGame = useCallback(() => {
     if (!canvasRef.current) return;
 
     // 1. Vision Processing - Run in both MENU and PLAYING states so user can test hands
-    const shouldDetect = gameState === GameState.PLAYING || gameState === GameState.MENU;
+    const shouldDetect = gameState === GameState.PLAYING || gameState === GameState.MENU || gameState === GameState.PAUSED;
     const vision = VisionService.getInstance();
+    const format = physicsRef.current!.getFormat();
+    const paddles = paddlesIn(format);
 
     if (shouldDetect && videoRef.current && videoRef.current.readyState >= 2) {
        const t = performance.now();
-       if (t - lastVideoTimeRef.current >= 30) { // Limit vision processing rate
-         lastVideoTimeRef.current = t;
+       const videoTime = videoRef.current.currentTime;
+       const newFrame = videoTime !== lastVideoTimeRef.current;
+       lastVideoTimeRef.current = videoTime;
+       if (newFrame && !vision.skipFrame()) { // Only run detection on new camera frames (fewer when detection runs slow)
          const results = vision.detect(videoRef.current, t);
          
          handsVisualRef.current = []; // Reset visuals
+         replayHandsRef.current = [];
 
          if (results && results.landmarks) {
            // Process raw landmarks into simple points
-           const hands = results.landmarks.map((landmarks) => {
+           const hands: DetectedHand[] = results.landmarks.map((landmarks, i) => {
              const avgX = landmarks.reduce((acc, pt) => acc + pt.x, 0) / landmarks.length;
              const avgY = landmarks.reduce((acc, pt) => acc + pt.y, 0) / landmarks.length;
+             // MediaPipe labels handedness as if the image were mirrored; ours isn't, so swap
+             const label = results.handedness?.[i]?.[0]?.categoryName;
+             const handedness = label === 'Left' ? 'Right' : label === 'Right' ? 'Left' : null;
              // MIRROR MODE: Flip X axis for visual intuition
-             return { x: 1 - avgX, y: avgY }; 
+             return { x: 1 - avgX, y: avgY, handedness }; 
            });
 
-           // Assign hands to players based on Visual X position
-           hands.forEach(hand => {
-               if (hand.x < 0.5) {
-                   // Left side -> Player 1
-                   player1Ref.current.y = hand.y;
-                   handsVisualRef.current.push({ ...hand, player: 'P1' });
-               } else {
-                   // Right side -> Player 2
-                   player2Ref.current.y = hand.y;
-                   handsVisualRef.current.push({ ...hand, player: 'P2' });
+           // Only paddles set to hand control take a hand
+           const handPlayers = paddles.filter(id => providersRef.current[id]?.kind === 'hand');
+           const owners = assignerRef.current.assign(hands, handPlayers, t);
+
+           // Gestures come from the full landmark set of each player's own hand
+           handPlayers.forEach(id => {
+               const i = owners.indexOf(id);
+               gesturesRef.current[id] = recognizersRef.current[id].update(i >= 0 ? results.landmarks[i] : null, t);
+           });
+
+           hands.forEach((hand, i) => {
+               const owner = owners[i];
+               handsVisualRef.current.push({
+                   x: hand.x,
+                   y: hand.y,
+                   player: owner,
+                   gesture: owner && gesturesEnabled ? gesturesRef.current[owner] : null
+               });
+               if (owner) {
+                   // Top/bottom paddles follow the hand sideways
+                   smoothersRef.current[owner].addSample(paddleAxis(format, owner) === 'x' ? hand.x : hand.y, t);
+                   if (format === 'air_hockey' && (owner === 'p1' || owner === 'p2')) xSmoothersRef.current[owner].addSample(hand.x, t);
+                   lastHandSeenRef.current[owner] = t;
                }
            });
+           replayHandsRef.current = hands.map((hand, i) => ({ x: hand.x, y: hand.y, player: owners[i] }));
          }
        }
     }
 
-    // 2. Physics - Only run during PLAYING
-    if (gameState === GameState.PLAYING) {
-        const ball = ballRef.current;
-        const p1 = player1Ref.current;
-        const p2 = player2Ref.current;
+    // Every input provider (filtered hands, keys, pointer, gamepad) sets paddle targets each render frame
+    const now = performance.now();
 
-        ball.x += ball.vx;
-        ball.y += ball.vy;
+    // Hand lost / regained, for players steering with a camera
+    if (gameState === GameState.PLAYING || gameState === GameState.PAUSED) {
+        paddles.forEach(id => {
+            if (!providersRef.current[id]?.usesCamera) return;
+            const unseenMs = now - lastHandSeenRef.current[id];
+            const present = unseenMs <= HAND_LOST_EVENT_MS;
+            if (present === handPresentRef.current[id]) return;
+            handPresentRef.current[id] = present;
+            // Events name the team; doubles partners report as their side
+            const player = teamOf(id);
+            events.emit(present ? { type: 'hand_regained', player, afterMs: unseenMs } : { type: 'hand_lost', player });
+        });
+    }
 
-        // Wall Collisions (Top/Bottom)
-        if (ball.y <= 0 || ball.y >= 1) {
-            ball.vy *= -1;
-            ball.y = Math.max(0, Math.min(1, ball.y)); // Clamp
-        }
+    paddles.forEach(id => {
+        const provider = providersRef.current[id];
+        const pos = provider?.getTarget(now);
+        if (pos !== null && pos !== undefined) physicsRef.current?.setPaddleTarget(id, pos);
+        // Air-hockey mallets also move across the table (inputs without a second axis hold their x)
+        const x = format === 'air_hockey' && (id === 'p1' || id === 'p2') ? provider?.getTargetX?.(now) : null;
+        if (x !== null && x !== undefined) physicsRef.current?.setMalletTargetX(id, x);
+    });
 
-        // Paddle Collisions
-        // PADDLE_WIDTH + 0.02 buffer prevents tunneling at high speeds
-        
-        // Player 1 (Left, x=0)
-        if (ball.x <= PADDLE_WIDTH + 0.02 && ball.x >= -0.02 && ball.vx < 0) {
-            // Check vertical overlap
-            if (Math.abs(ball.y - p1.y) < PADDLE_HEIGHT / 2 + BALL_SIZE) {
-                // Calculate normalized intersection point (-1 to 1)
-                // -1 = Top of paddle, 0 = Center, 1 = Bottom of paddle
-                let intersectY = (ball.y - p1.y) / (PADDLE_HEIGHT / 2);
-                intersectY = Math.max(-1, Math.min(1, intersectY)); // Clamp
-
-                // Determine bounce angle
-                const bounceAngle = intersectY * MAX_REFLECTION_ANGLE;
-
-                // Increase Speed
-                ball.speed = Math.min(ball.speed + SPEED_INCREMENT, MAX_SPEED);
-
-                // Set new velocity based on angle
-                // P1 is on left, so ball bounces to the right (Positive Cos)
-                ball.vx = ball.speed * Math.cos(bounceAngle);
-                ball.vy = ball.speed * Math.sin(bounceAngle);
+    // Online host: the client's paddle arrives over the network
+    if (net?.role === 'host' && net.remotePaddle !== null) {
+        physicsRef.current?.setPaddleTarget(net.side === 'p1' ? 'p2' : 'p1', net.remotePaddle);
+    }
+
+    // 2. Physics - Only run during PLAYING, on a fixed timestep
+    const frameTime = lastFrameTimeRef.current === null ? 0 : (now - lastFrameTimeRef.current) / 1000;
+    lastFrameTimeRef.current = now;
+
+    // Replay playback: nothing is simulated, the recording is just advanced
+    if (gameState === GameState.REPLAY) {
+        const playback = playbackRef.current;
+        if (playback) {
+            playback.advance(Math.min(frameTime, 0.25));
+            if (playback.playing && playback.finished) {
+                playback.playing = false;
+                syncReplayUi();
+            }
+            if (now - replayUiSyncRef.current > REPLAY_UI_INTERVAL_MS) {
+                replayUiSyncRef.current = now;
+                syncReplayUi();
             }
         }
+        return;
+    }
 
-        // Player 2 (Right, x=1)
-        if (ball.x >= 1 - (PADDLE_WIDTH + 0.02) && ball.x <= 1.02 && ball.vx > 0) {
-            // Check vertical overlap
-            if (Math.abs(ball.y - p2.y) < PADDLE_HEIGHT / 2 + BALL_SIZE) {
-                // Calculate normalized intersection point
-                let intersectY = (ball.y - p2.y) / (PADDLE_HEIGHT / 2);
-                intersectY = Math.max(-1, Math.min(1, intersectY)); // Clamp
+    // Online client: the host simulates everything; send our paddle, follow its snapshots
+    if (net?.role === 'client') {
+        const physics = physicsRef.current;
+        if (!physics) return;
+        physics.syncPaddles(); // Our own paddle moves at once, without waiting for the host
+        net.send({ type: 'paddle', y: physics.getPlayer(net.side).y });
 
-                // Determine bounce angle
-                const bounceAngle = intersectY * MAX_REFLECTION_ANGLE;
+        const latest = net.snapshots.latest;
+        if (latest) {
+            (['p1', 'p2'] as PlayerId[]).forEach(id => {
+                if (latest.scores[id] > netScoresRef.current[id]) {
+                    // No physics events here: explode at the middle of the line the ball crossed
+                    scoreEffectsRef.current[id] = 2.5;
+                    effectsRef.current.goal(id === 'p1' ? 1 : 0, 0.5, id === 'p1' ? player1Ref.current.color : player2Ref.current.color);
+                }
+            });
+            netScoresRef.current = latest.scores;
+        }
+        return;
+    }
 
-                // Increase Speed
-                ball.speed = Math.min(ball.speed + SPEED_INCREMENT, MAX_SPEED);
+    // Pause handling - physics, match clock and score commentary are all frozen while PAUSED
+    if (gameState === GameState.PLAYING || gameState === GameState.PAUSED) {
+        if (updatePause(now)) return;
+    }
 
-                // Set new velocity based on angle
-                // P2 is on right, so ball bounces to the left (Negative Cos)
-                ball.vx = -ball.speed * Math.cos(bounceAngle);
-                ball.vy = ball.speed * Math.sin(bounceAngle);
-            }
+    // Instant replay after a goal: play stands still until it ends (or is skipped)
+    const instant = instantReplayRef.current;
+    if (gameState === GameState.PLAYING && instant) {
+        instant.advance(Math.min(frameTime, 0.25));
+        if (instant.finished) endInstantReplay();
+        physicsRef.current?.syncPaddles();
+        return;
+    }
+
+    const match = matchRef.current!;
+    if (gameState === GameState.PLAYING && physicsRef.current && !match.isOver) {
+        // CPU opponent steers its paddle like any other input
+        const cpu = cpuRef.current;
+        if (cpu) {
+            const physics = physicsRef.current;
+            const opponentY = physics.getPlayer(cpu.side === 'p1' ? 'p2' : 'p1').y;
+            const target = cpu.update(
+                Math.min(frameTime, 0.25), physics.incomingBall(cpu.side), opponentY, physics.getAspectRatio(),
+                physics.ballRadius, physics.paddleLength(cpu.side)
+            );
+            physics.setPaddleTarget(cpu.side, target);
         }
 
-        // Scoring
-        if (ball.x < -0.05) { // Allow ball to go slightly off screen before resetting
-            // P2 Scores
-            p2.score += 1;
-            scoreEffectsRef.current.p2 = 2.5; // Pop effect
-            resetBall('p2');
-            
-            // Trigger Gemini
-            if (!scoreTriggeredRef.current) {
-                scoreTriggeredRef.current = true;
-                generateCommentary('score_p2', p1.score, p2.score).then(text => {
-                    onCommentary({ text, timestamp: Date.now(), type: 'score' });
-                    scoreTriggeredRef.current = false;
-                });
-            }
-        } else if (ball.x > 1.05) {
-            // P1 Scores
-            p1.score += 1;
-            scoreEffectsRef.current.p1 = 2.5; // Pop effect
-            resetBall('p1');
-            
-            // Trigger Gemini
-            if (!scoreTriggeredRef.current) {
-                scoreTriggeredRef.current = true;
-                generateCommentary('score_p1', p1.score, p2.score).then(text => {
-                    onCommentary({ text, timestamp: Date.now(), type: 'score' });
-                    scoreTriggeredRef.current = false;
+        const physics = physicsRef.current;
+        paddles.forEach(id => {
+            // Pinch held at contact, or a push just before it, smashes the return
+            const armed = heldGesture(id, 'pinch', now, 0) || (heldGesture(id, 'push', now, 0) && recognizersRef.current[id].pushedWithin(now));
+            physics.setSmashArmed(id, armed);
+        });
+
+        // After a goal the ball waits for a fist from the serving side (either partner in doubles)
+        const server = physics.awaitingServe;
+        if (server === null) {
+            serveDeadlineRef.current = null;
+        } else {
+            if (serveDeadlineRef.current === null) serveDeadlineRef.current = now + AUTO_SERVE_MS;
+            const servers = paddles.filter(id => teamOf(id) === server);
+            const usesGestures = gesturesEnabled && servers.some(id => providersRef.current[id]?.kind === 'hand');
+            if (!usesGestures || servers.some(id => heldGesture(id, 'fist', now, 0)) || now >= serveDeadlineRef.current) physics.serve();
+        }
+
+        // Record every tick; a goal is marked before the tick's reset ball is stored
+        const recorder = recorderRef.current;
+        const physicsEvents = physics.advance(frameTime, tickEvents => {
+            tickEvents.forEach(event => event.type === 'score' && recorder.markGoal(event.scorer));
+            const paddleLength = { p1: physics.paddleLength('p1'), p2: physics.paddleLength('p2') };
+            recorder.record(physics.balls, paddleLength, player1Ref.current, player2Ref.current, replayHandsRef.current);
+        });
+
+        const tracker = trackerRef.current!;
+        for (const event of physicsEvents) {
+            if (event.type === 'paddle_hit') {
+                const moments = tracker.recordHit(event.player, event.intersectY, event.speed, event.smash);
+                events.emit({
+                    type: 'paddle_hit', player: event.player, paddle: event.paddle, intersectY: event.intersectY,
+                    speed: event.speed, smash: event.smash, rally: tracker.rallyLength, x: event.x, y: event.y
                 });
+                moments.forEach(moment => events.emit(moment));
+            } else if (event.type === 'wall_bounce' || event.type === 'serve' || event.type === 'power_up' || event.type === 'power_up_end') {
+                events.emit(event);
+            } else {
+                handleScore(event.scorer, event.server, event.y, event.bank, event.at);
             }
+            if (match.isOver) break;
         }
+
+        // Match clock
+        const clockSeconds = Math.min(frameTime, 0.25);
+        const timeUp = match.isOver ? null : match.tick(clockSeconds);
+        if (timeUp) endMatch(timeUp);
+        else if (!match.isOver) tracker.tick(clockSeconds).forEach(moment => events.emit(moment));
+    } else {
+        // Menu: paddles mirror the hands directly so players can test tracking
+        physicsRef.current?.syncPaddles();
     }
-  }, [gameState, onCommentary]);
+  }, [gameState, handleScore, endMatch, updatePause, gesturesEnabled, events, endInstantReplay, net]);
+
+  // --- Online Host: stream the authoritative state ---
+  const sendSnapshot = useCallback(() => {
+    const physics = physicsRef.current;
+    if (net?.role !== 'host' || !net.connected || !physics || gameState === GameState.REPLAY) return;
+    const match = matchRef.current!;
+    net.send({
+        type: 'snapshot',
+        snapshot: {
+            t: performance.now(),
+            ball: { ...physics.ball },
+            p1Y: player1Ref.current.y,
+            p2Y: player2Ref.current.y,
+            scores: { p1: player1Ref.current.score, p2: player2Ref.current.score },
+            sets: { ...match.sets },
+            clock: match.remainingSeconds,
+            suddenDeath: match.suddenDeath
+        }
+    });
+  }, [net, gameState]);
 
   // --- Rendering ---
   const draw = useCallback(() => {
@@ -274,37 +759,160 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
 
     const { width, height } = canvas;
     const time = Date.now();
+
+    // Effects run on frame time, whatever the physics is doing
+    const effects = effectsRef.current;
+    const reducedMotion = effects.reducedMotion;
+    // High contrast: white ball and markings over a near-black table, no glow, outlined paddles
+    const highContrast = visual.highContrast;
+    const look: Theme = highContrast
+        ? { ...theme, ball: '#ffffff', lines: '#ffffff', glow: 0, markings: theme.markings === 'none' ? 'minimal' : theme.markings }
+        : theme;
+    const lineAlpha = (alpha: number) => (highContrast ? Math.max(alpha, 0.6) : alpha);
+    const drawMs = performance.now();
+    effects.update(lastDrawRef.current === null ? 0 : Math.min((drawMs - lastDrawRef.current) / 1000, 0.1), width / height);
+    lastDrawRef.current = drawMs;
     
-    // Clear Canvas
+    // Clear Canvas (unshaken, so no stale strip is left along an edge)
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, width, height);
     
     // Draw semi-transparent overlay
     // Make it darker in menu mode so text is readable
-    const overlayOpacity = gameState === GameState.MENU ? 0.5 : 0.3;
+    const overlayOpacity = highContrast ? 0.85 : gameState === GameState.MENU ? 0.5 : 0.3;
     ctx.fillStyle = `rgba(0, 0, 0, ${overlayOpacity})`; 
     ctx.fillRect(0, 0, width, height);
 
-    // Grid/Table effect
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(width / 2, 0);
-    ctx.lineTo(width / 2, height);
-    ctx.stroke();
+    // Goal shake moves everything drawn from here on
+    const shake = effects.shake();
+    ctx.setTransform(1, 0, 0, 1, shake.x * height, shake.y * height);
+
+    // Replays (full or instant) draw recorded frames instead of the live game
+    const replaying = gameState === GameState.REPLAY ? playbackRef.current : instantReplayRef.current;
+    const frame = replaying?.frame() ?? null;
+    // Online client: the host's state, except our own paddle which follows local input
+    const remote = !frame && net?.role === 'client' ? net.snapshots.sample(performance.now()) : null;
+    const live = physicsRef.current!.getRenderSnapshot();
+    const snapshot = frame ?? (remote
+        ? {
+            ...remote,
+            balls: [remote.ball],
+            paddleLength: live.paddleLength,
+            p1Y: net!.side === 'p1' ? live.p1Y : remote.p1Y,
+            p2Y: net!.side === 'p2' ? live.p2Y : remote.p2Y,
+            p3Pos: live.p3Pos,
+            p4Pos: live.p4Pos,
+            p1X: live.p1X,
+            p2X: live.p2X
+        }
+        : live);
+    const format = gameState === GameState.REPLAY ? replay?.gameFormat ?? 'singles' : physicsRef.current!.getFormat();
+    const aspect = width / height;
+    // Full replays use the ball size they were recorded with
+    const ballRadius = gameState !== GameState.REPLAY ? physicsRef.current!.ballRadius : format === 'air_hockey' ? PUCK_RADIUS : replay?.ballSize ?? BALL_SIZE;
+    const scores = (frame ?? remote)?.scores ?? { p1: player1Ref.current.score, p2: player2Ref.current.score };
+    const hands: HandVisual[] = frame
+        ? frame.hands.map(h => ({ x: h.x, y: h.y, player: h.player, gesture: null }))
+        : handsVisualRef.current;
+    const glow = (blur: number) => blur * look.glow * effects.quality.blur;
+    const font = (px: number) => `bold ${px}px ${look.font}`;
+    const wave = (rate: number, phase = 0) => (reducedMotion ? 0 : Math.sin(time * rate + phase)); // Pulsing and blinking; still under reduced motion
 
-    // Center Circle
-    ctx.beginPath();
-    ctx.arc(width / 2, height / 2, 50, 0, Math.PI * 2);
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-    ctx.stroke();
+    // Table markings: centre line and circle, a dashed line, or nothing
+    ctx.strokeStyle = look.lines;
+    ctx.lineWidth = highContrast ? 3 : 2;
+    if (look.markings === 'full') {
+        ctx.globalAlpha = lineAlpha(0.1);
+        ctx.beginPath();
+        ctx.moveTo(width / 2, 0);
+        ctx.lineTo(width / 2, height);
+        ctx.stroke();
+
+        ctx.globalAlpha = lineAlpha(0.2);
+        ctx.beginPath();
+        ctx.arc(width / 2, height / 2, 50, 0, Math.PI * 2);
+        ctx.stroke();
+    } else if (look.markings === 'minimal') {
+        ctx.globalAlpha = lineAlpha(0.3);
+        ctx.setLineDash([10, 10]);
+        ctx.beginPath();
+        ctx.moveTo(width / 2, 0);
+        ctx.lineTo(width / 2, height);
+        ctx.stroke();
+        ctx.setLineDash([]);
+    }
+    ctx.globalAlpha = 1.0;
+
+    // Doubles markings: front lanes, or the top/bottom goal lines in the defending team's colour
+    if (format === 'doubles_lanes') {
+        ctx.strokeStyle = withAlpha(look.lines, lineAlpha(0.08));
+        ctx.setLineDash([6, 10]);
+        [FRONT_LANE_X, 1 - FRONT_LANE_X].forEach(x => {
+            ctx.beginPath();
+            ctx.moveTo(x * width, 0);
+            ctx.lineTo(x * width, height);
+            ctx.stroke();
+        });
+        ctx.setLineDash([]);
+    } else if (format === 'doubles_walls') {
+        ctx.lineWidth = 3;
+        ctx.globalAlpha = 0.5;
+        ctx.strokeStyle = player1Ref.current.color;
+        ctx.beginPath();
+        ctx.moveTo(0, 1);
+        ctx.lineTo(width, 1);
+        ctx.stroke();
+        ctx.strokeStyle = player2Ref.current.color;
+        ctx.beginPath();
+        ctx.moveTo(0, height - 1);
+        ctx.lineTo(width, height - 1);
+        ctx.stroke();
+        ctx.globalAlpha = 1.0;
+    } else if (format === 'air_hockey') {
+        // Goal mouths in the defending player's colour, with a crease in front of each
+        const mouthTop = (0.5 - GOAL_MOUTH / 2) * height;
+        const mouthHeight = GOAL_MOUTH * height;
+        ([['p1', 0], ['p2', width]] as [PlayerId, number][]).forEach(([id, x]) => {
+            const color = id === 'p1' ? player1Ref.current.color : player2Ref.current.color;
+            ctx.strokeStyle = color;
+            ctx.shadowColor = color;
+            ctx.shadowBlur = glow(15);
+            ctx.lineWidth = 6;
+            ctx.beginPath();
+            ctx.moveTo(x, mouthTop);
+            ctx.lineTo(x, mouthTop + mouthHeight);
+            ctx.stroke();
+            ctx.shadowBlur = 0;
+            ctx.lineWidth = 2;
+            ctx.globalAlpha = 0.3;
+            ctx.beginPath();
+            ctx.arc(x, height / 2, mouthHeight / 2, id === 'p1' ? -Math.PI / 2 : Math.PI / 2, id === 'p1' ? Math.PI / 2 : Math.PI * 1.5);
+            ctx.stroke();
+            ctx.globalAlpha = 1.0;
+        });
+    }
 
     // --- Draw Detected Hands & Connections (Always Draw if Detected) ---
-    handsVisualRef.current.forEach(hand => {
+    hands.forEach(hand => {
         const hX = hand.x * width;
         const hY = hand.y * height;
-        const color = hand.player === 'P1' ? player1Ref.current.color : player2Ref.current.color;
-        const targetX = hand.player === 'P1' ? 20 : width - 20; // Paddle X position
-        const targetY = (hand.player === 'P1' ? player1Ref.current.y : player2Ref.current.y) * height;
+
+        // Spare hand that isn't driving a paddle: faint ring only
+        if (hand.player === null) {
+            ctx.beginPath();
+            ctx.arc(hX, hY, 20, 0, Math.PI * 2);
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 4]);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            return;
+        }
+
+        const color = teamOf(hand.player) === 'p1' ? player1Ref.current.color : player2Ref.current.color;
+        const target = paddleRect(format, hand.player, paddlePos(snapshot, hand.player), aspect, snapshot.paddleLength[teamOf(hand.player)]); // The paddle it steers
+        const targetX = (format === 'air_hockey' ? (hand.player === 'p1' ? snapshot.p1X : snapshot.p2X) : (target.minX + target.maxX) / 2) * width;
+        const targetY = ((target.minY + target.maxY) / 2) * height;
 
         // 1. Connection Line (Hand to Paddle)
         const gradient = ctx.createLinearGradient(hX, hY, targetX, targetY);
@@ -326,11 +934,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
         ctx.strokeStyle = color;
         ctx.lineWidth = 3;
         ctx.shadowColor = color;
-        ctx.shadowBlur = 15;
+        ctx.shadowBlur = glow(15);
         ctx.stroke();
         
         // Inner Pulse
-        const pulse = (Math.sin(time * 0.008) + 1) * 8;
+        const pulse = (wave(0.008) + 1) * 8;
         ctx.beginPath();
         ctx.arc(hX, hY, 15 + pulse, 0, Math.PI * 2);
         ctx.strokeStyle = color;
@@ -342,90 +950,370 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
 
         // 3. Label
         ctx.fillStyle = '#fff';
-        ctx.font = 'bold 12px Orbitron';
-        ctx.fillText(hand.player === 'P1' ? 'P1 CONTROL' : 'P2 CONTROL', hX - 30, hY - 30);
+        ctx.font = font(12);
+        ctx.fillText(`${hand.player.toUpperCase()} CONTROL`, hX - 30, hY - 30);
+
+        // 4. Active Gesture
+        const gesture = hand.gesture?.gesture;
+        if (gesture) {
+            ctx.beginPath();
+            if (gesture === 'open_palm') {
+                // Fill the ring as the hold counts towards a pause; moving the hand starts it again
+                const heldFrom = Math.max(hand.gesture!.sinceMs, hand.gesture!.stillSinceMs);
+                const progress = Math.min(1, (performance.now() - heldFrom) / PALM_HOLD_MS);
+                ctx.arc(hX, hY, 26, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+            } else {
+                ctx.arc(hX, hY, 26, 0, Math.PI * 2);
+            }
+            ctx.strokeStyle = gesture === 'fist' ? color : '#fff';
+            ctx.lineWidth = gesture === 'pinch' || gesture === 'push' ? 4 : 2;
+            ctx.stroke();
+
+            ctx.font = font(10);
+            ctx.textAlign = 'center';
+            ctx.fillText(GESTURE_LABELS[gesture], hX, hY + 42);
+            ctx.textAlign = 'start';
+        }
     });
 
-    // Player 1 Paddle (Left)
-    const p1Y = player1Ref.current.y * height;
-    const p1H = PADDLE_HEIGHT * height;
-    ctx.fillStyle = player1Ref.current.color;
-    ctx.shadowColor = player1Ref.current.color;
-    ctx.shadowBlur = 20;
-    ctx.fillRect(10, p1Y - p1H / 2, 15, p1H);
-
-    // Player 2 Paddle (Right)
-    const p2Y = player2Ref.current.y * height;
-    const p2H = PADDLE_HEIGHT * height;
-    ctx.fillStyle = player2Ref.current.color;
-    ctx.shadowColor = player2Ref.current.color;
-    ctx.shadowBlur = 20;
-    ctx.fillRect(width - 25, p2Y - p2H / 2, 15, p2H);
-
-    // Only draw Ball and Scores if Playing
-    if (gameState === GameState.PLAYING) {
-        // Ball
-        const bX = ballRef.current.x * width;
-        const bY = ballRef.current.y * height;
-        const bSize = BALL_SIZE * height;
-        
-        ctx.beginPath();
-        ctx.arc(bX, bY, bSize, 0, Math.PI * 2);
-        ctx.fillStyle = '#ffffff';
-        ctx.shadowColor = '#ffffff';
-        ctx.shadowBlur = 15;
-        ctx.fill();
-        
-        // Motion Blur / Trail for Ball
-        if (ballRef.current.speed > 0.03) {
+    // Paddles in the theme's style: glowing, flat, or an outline. A hit flares the glow and rings the paddle
+    const drawPaddle = (id: PaddleId, x: number, y: number, w: number, h: number, color: string) => {
+        const pulse = effects.pulse(id);
+        if (look.paddleStyle === 'outline') {
+            ctx.shadowBlur = 0;
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 3;
+            ctx.strokeRect(x + 1.5, y + 1.5, w - 3, h - 3);
+        } else {
+            ctx.fillStyle = color;
+            ctx.shadowColor = color;
+            ctx.shadowBlur = look.paddleStyle === 'glow' ? glow(20 + pulse * 30) : 0;
+            ctx.fillRect(x, y, w, h);
+        }
+        if (highContrast) {
+            ctx.shadowBlur = 0;
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(x - 2, y - 2, w + 4, h + 4);
+        }
+        if (pulse > 0) {
+            const spread = (1 - pulse) * 8;
+            ctx.shadowBlur = 0;
+            ctx.strokeStyle = withAlpha(color, pulse * 0.8);
+            ctx.lineWidth = 2;
+            ctx.strokeRect(x - spread, y - spread, w + spread * 2, h + spread * 2);
+        }
+    };
+
+    const p1Y = snapshot.p1Y * height;
+    const p1H = snapshot.paddleLength.p1 * height; // Grow/shrink power-ups change the length
+    const p2Y = snapshot.p2Y * height;
+    const p2H = snapshot.paddleLength.p2 * height;
+    if (format === 'air_hockey') {
+        // Mallets: a glowing ring around a solid knob, scaled by grow/shrink like the paddles
+        ([['p1', snapshot.p1X, p1Y, p1H], ['p2', snapshot.p2X, p2Y, p2H]] as [PlayerId, number, number, number][]).forEach(([id, x, y, length]) => {
+            const color = id === 'p1' ? player1Ref.current.color : player2Ref.current.color;
+            const radius = MALLET_RADIUS * height * (length / (PADDLE_HEIGHT * height));
+            const pulse = effects.pulse(id);
             ctx.beginPath();
-            ctx.arc(bX - (ballRef.current.vx * width * 2), bY - (ballRef.current.vy * height * 2), bSize * 0.8, 0, Math.PI * 2);
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-            ctx.fill();
+            ctx.arc(x * width, y, radius, 0, Math.PI * 2);
+            ctx.strokeStyle = color;
+            ctx.shadowColor = color;
+            ctx.shadowBlur = look.paddleStyle === 'glow' ? glow(20 + pulse * 30) : 0;
+            ctx.lineWidth = 5;
+            ctx.stroke();
+            if (highContrast) {
+                ctx.beginPath();
+                ctx.arc(x * width, y, radius + 4, 0, Math.PI * 2);
+                ctx.strokeStyle = '#ffffff';
+                ctx.lineWidth = 2;
+                ctx.stroke();
+            }
+            if (pulse > 0) {
+                ctx.beginPath();
+                ctx.arc(x * width, y, radius + (1 - pulse) * 12, 0, Math.PI * 2);
+                ctx.strokeStyle = withAlpha(color, pulse * 0.8);
+                ctx.lineWidth = 2;
+                ctx.stroke();
+            }
+            if (look.paddleStyle !== 'outline') {
+                ctx.beginPath();
+                ctx.arc(x * width, y, radius * 0.45, 0, Math.PI * 2);
+                ctx.fillStyle = color;
+                ctx.fill();
+            }
+        });
+    } else {
+        // Player 1 Paddle (Left)
+        const paddleW = PADDLE_WIDTH * width;
+        drawPaddle('p1', PADDLE_INSET * width, p1Y - p1H / 2, paddleW, p1H, player1Ref.current.color);
+
+        // Player 2 Paddle (Right)
+        drawPaddle('p2', width - PADDLE_INSET * width - paddleW, p2Y - p2H / 2, paddleW, p2H, player2Ref.current.color);
+    }
+
+    // Doubles Partners (front lanes, or top/bottom edges)
+    if (isDoubles(format)) {
+        (['p3', 'p4'] as PaddleId[]).forEach(id => {
+            const color = teamOf(id) === 'p1' ? player1Ref.current.color : player2Ref.current.color;
+            const rect = paddleRect(format, id, paddlePos(snapshot, id), aspect, snapshot.paddleLength[teamOf(id)]);
+            drawPaddle(id, rect.minX * width, rect.minY * height, (rect.maxX - rect.minX) * width, (rect.maxY - rect.minY) * height, color);
+        });
+    }
+
+    // CPU Label
+    const cpu = cpuRef.current;
+    if (cpu && gameState !== GameState.MENU && gameState !== GameState.REPLAY) {
+        ctx.shadowBlur = 0;
+        ctx.font = font(12);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.textAlign = cpu.side === 'p1' ? 'left' : 'right';
+        const labelY = (cpu.side === 'p1' ? p1Y - p1H / 2 : p2Y - p2H / 2) - 8;
+        ctx.fillText(`CPU · ${cpu.profile.label.toUpperCase()}`, cpu.side === 'p1' ? 10 : width - 10, labelY);
+        ctx.textAlign = 'start';
+    }
+
+    // Only draw Ball and Scores if Playing (or watching a replay)
+    if (gameState === GameState.PLAYING || frame) {
+        // --- Power-ups (live play only; replays don't record them) ---
+        if (!frame) {
+            const physics = physicsRef.current!;
+
+            // Pickups waiting on the table, fading out before they expire
+            physics.pickups.forEach(pickup => {
+                const info = POWER_UPS[pickup.kind];
+                const pX = pickup.x * width;
+                const pY = pickup.y * height;
+                const radius = PICKUP_RADIUS * height * (1 + wave(0.006, pickup.id) * 0.08);
+                ctx.globalAlpha = Math.min(1, pickupLife(pickup) * 4);
+                ctx.beginPath();
+                ctx.arc(pX, pY, radius, 0, Math.PI * 2);
+                ctx.strokeStyle = info.color;
+                ctx.shadowColor = info.color;
+                ctx.shadowBlur = glow(15);
+                ctx.lineWidth = 3;
+                ctx.stroke();
+                ctx.shadowBlur = 0;
+                ctx.fillStyle = info.color;
+                ctx.font = font(Math.round(radius));
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(info.glyph, pX, pY);
+                ctx.textBaseline = 'alphabetic';
+                ctx.textAlign = 'start';
+                ctx.globalAlpha = 1.0;
+            });
+
+            (['p1', 'p2'] as PlayerId[]).forEach(id => {
+                const player = physics.getPlayer(id);
+                const left = id === 'p1';
+
+                // Shield: a glowing barrier along the goal line
+                if (player.effects.shield) {
+                    ctx.fillStyle = POWER_UPS.shield.color;
+                    ctx.shadowColor = POWER_UPS.shield.color;
+                    ctx.shadowBlur = glow(20);
+                    ctx.fillRect(left ? 0 : width - 4, 0, 4, height);
+                    ctx.shadowBlur = 0;
+                }
+
+                // Effect timers in the side's top corner: a ring that empties as the effect runs out
+                (Object.keys(player.effects) as EffectKind[]).forEach((kind, i) => {
+                    const effect = player.effects[kind]!;
+                    const info = POWER_UPS[kind];
+                    const cX = left ? 32 + i * 44 : width - 32 - i * 44;
+                    const cY = 32;
+                    ctx.beginPath();
+                    ctx.arc(cX, cY, 16, 0, Math.PI * 2);
+                    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+                    ctx.fill();
+                    ctx.beginPath();
+                    ctx.arc(cX, cY, 16, -Math.PI / 2, -Math.PI / 2 + (effect.remaining / effect.duration) * Math.PI * 2);
+                    ctx.strokeStyle = info.color;
+                    ctx.lineWidth = 3;
+                    ctx.stroke();
+                    ctx.fillStyle = info.color;
+                    ctx.font = font(14);
+                    ctx.textAlign = 'center';
+                    ctx.textBaseline = 'middle';
+                    ctx.fillText(info.glyph, cX, cY);
+                    ctx.textBaseline = 'alphabetic';
+                    ctx.textAlign = 'start';
+                });
+            });
         }
 
+        // Balls (more than one during multi-ball)
+        effects.trails.record(snapshot.balls, effects.quality.trail);
+        snapshot.balls.forEach((ball: BallState, index: number) => {
+            const bX = ball.x * width;
+            const bY = ball.y * height;
+            const bSize = ballRadius * height;
+
+            // Trail through the ball's recent positions (part of the glow style), thinning and fading towards the tail
+            if (look.ballStyle === 'glow') {
+                let previous: { x: number; y: number } | null = null;
+                ctx.shadowBlur = 0;
+                ctx.lineCap = 'round';
+                effects.trails.forEach(index, (x, y, i, count) => {
+                    if (previous) {
+                        ctx.beginPath();
+                        ctx.moveTo(previous.x * width, previous.y * height);
+                        ctx.lineTo(x * width, y * height);
+                        ctx.strokeStyle = withAlpha(look.ball, 0.35 * (i / count));
+                        ctx.lineWidth = bSize * 2 * (i / count);
+                        ctx.stroke();
+                    }
+                    previous = { x, y };
+                });
+                ctx.lineCap = 'butt';
+            }
+
+            ctx.fillStyle = look.ball;
+            ctx.strokeStyle = look.ball;
+            ctx.shadowColor = look.ball;
+            ctx.shadowBlur = look.ballStyle === 'glow' ? glow(15) : 0;
+            if (look.ballStyle === 'square') {
+                ctx.fillRect(bX - bSize, bY - bSize, bSize * 2, bSize * 2);
+            } else {
+                ctx.beginPath();
+                ctx.arc(bX, bY, bSize, 0, Math.PI * 2);
+                if (look.ballStyle === 'ring') {
+                    ctx.lineWidth = 3;
+                    ctx.stroke();
+                } else {
+                    ctx.fill();
+                }
+            }
+            if (highContrast) {
+                // A dark rim keeps the ball readable where it crosses a paddle or a marking
+                ctx.shadowBlur = 0;
+                ctx.strokeStyle = '#000000';
+                ctx.lineWidth = 2;
+                if (look.ballStyle === 'square') {
+                    ctx.strokeRect(bX - bSize - 1, bY - bSize - 1, bSize * 2 + 2, bSize * 2 + 2);
+                } else {
+                    ctx.beginPath();
+                    ctx.arc(bX, bY, bSize + 1, 0, Math.PI * 2);
+                    ctx.stroke();
+                }
+            }
+        });
+
         // Reset Shadow
         ctx.shadowBlur = 0;
 
+        // Sparks, fading out as they die
+        effects.particles.forEach(particle => {
+            ctx.globalAlpha = particle.life / particle.maxLife;
+            ctx.fillStyle = particle.color;
+            ctx.beginPath();
+            ctx.arc(particle.x * width, particle.y * height, particle.size * height, 0, Math.PI * 2);
+            ctx.fill();
+        });
+        ctx.globalAlpha = 1.0;
+
+        // Goal flash in the scorer's colour, over the whole (unshaken) canvas
+        const flash = effects.flash();
+        if (flash.alpha > 0) {
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.fillStyle = withAlpha(flash.color, flash.alpha);
+            ctx.fillRect(0, 0, width, height);
+            ctx.restore();
+        }
+        const bY = snapshot.balls[0].y * height;
+        const bSize = ballRadius * height;
+
+        // Serve prompt while the ball waits for a fist
+        const server = frame ? null : physicsRef.current!.awaitingServe;
+        if (server && gesturesEnabled && providersRef.current[server]?.kind === 'hand') {
+            ctx.font = font(14);
+            ctx.textAlign = 'center';
+            ctx.fillStyle = `rgba(255, 255, 255, ${0.6 + wave(0.008) * 0.4})`;
+            ctx.fillText(`${server.toUpperCase()}: MAKE A FIST TO SERVE`, width / 2, bY - bSize - 16);
+            ctx.textAlign = 'start';
+        }
+
         // --- Scores with Animation ---
         
         // Decay score effects
         scoreEffectsRef.current.p1 += (1 - scoreEffectsRef.current.p1) * 0.05;
         scoreEffectsRef.current.p2 += (1 - scoreEffectsRef.current.p2) * 0.05;
 
-        ctx.font = 'bold 80px Orbitron';
+        ctx.font = font(80);
         ctx.textAlign = 'center';
-        ctx.strokeStyle = 'rgba(0,0,0,0.5)';
-        ctx.lineWidth = 4;
+        ctx.strokeStyle = highContrast ? '#000000' : 'rgba(0,0,0,0.5)';
+        ctx.lineWidth = highContrast ? 6 : 4;
         
         // Draw P1 Score
         ctx.save();
         ctx.translate(width / 4, height / 2 + 30);
-        ctx.scale(scoreEffectsRef.current.p1, scoreEffectsRef.current.p1);
-        const p1Alpha = 0.5 + Math.max(0, (scoreEffectsRef.current.p1 - 1) * 0.5);
-        ctx.fillStyle = `rgba(6, 182, 212, ${Math.min(1, p1Alpha)})`;
-        ctx.strokeText(player1Ref.current.score.toString(), 0, 0);
-        ctx.fillText(player1Ref.current.score.toString(), 0, 0);
+        if (!reducedMotion) ctx.scale(scoreEffectsRef.current.p1, scoreEffectsRef.current.p1);
+        const p1Alpha = highContrast ? 1 : 0.5 + Math.max(0, (scoreEffectsRef.current.p1 - 1) * 0.5);
+        ctx.fillStyle = withAlpha(player1Ref.current.color, Math.min(1, p1Alpha));
+        ctx.strokeText(scores.p1.toString(), 0, 0);
+        ctx.fillText(scores.p1.toString(), 0, 0);
         ctx.restore();
 
         // Draw P2 Score
         ctx.save();
         ctx.translate((width * 3) / 4, height / 2 + 30);
-        ctx.scale(scoreEffectsRef.current.p2, scoreEffectsRef.current.p2);
-        const p2Alpha = 0.5 + Math.max(0, (scoreEffectsRef.current.p2 - 1) * 0.5);
-        ctx.fillStyle = `rgba(217, 70, 239, ${Math.min(1, p2Alpha)})`;
-        ctx.strokeText(player2Ref.current.score.toString(), 0, 0);
-        ctx.fillText(player2Ref.current.score.toString(), 0, 0);
+        if (!reducedMotion) ctx.scale(scoreEffectsRef.current.p2, scoreEffectsRef.current.p2);
+        const p2Alpha = highContrast ? 1 : 0.5 + Math.max(0, (scoreEffectsRef.current.p2 - 1) * 0.5);
+        ctx.fillStyle = withAlpha(player2Ref.current.color, Math.min(1, p2Alpha));
+        ctx.strokeText(scores.p2.toString(), 0, 0);
+        ctx.fillText(scores.p2.toString(), 0, 0);
         ctx.restore();
+
+        // Names under the scores
+        ctx.font = font(14);
+        const nameAlpha = highContrast ? 1 : 0.6;
+        ctx.fillStyle = withAlpha(player1Ref.current.color, nameAlpha);
+        ctx.fillText(player1Ref.current.name, width / 4, height / 2 + 60);
+        ctx.fillStyle = withAlpha(player2Ref.current.color, nameAlpha);
+        ctx.fillText(player2Ref.current.name, (width * 3) / 4, height / 2 + 60);
+
+        // --- Replay Banner ---
+        if (frame) {
+            ctx.font = font(20);
+            ctx.fillStyle = `rgba(239, 68, 68, ${0.7 + wave(0.006) * 0.3})`;
+            ctx.fillText(gameState === GameState.REPLAY ? '● REPLAY' : '● INSTANT REPLAY', width / 2, 36);
+            ctx.textAlign = 'start';
+            return;
+        }
+
+        // --- Match HUD (Clock / Sets) ---
+        // Online clients show the host's clock and sets under the host's rules
+        const match = matchRef.current!;
+        const remaining = remote ? remote.clock : match.remainingSeconds;
+        const suddenDeath = remote ? remote.suddenDeath : match.suddenDeath;
+        const sets = remote ? remote.sets : match.sets;
+        const setsToWin = remote ? matchRules.setsToWin : match.rules.setsToWin;
+        ctx.font = font(20);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        if (suddenDeath) {
+            ctx.fillStyle = `rgba(239, 68, 68, ${0.6 + wave(0.01) * 0.4})`;
+            ctx.fillText('SUDDEN DEATH', width / 2, 36);
+        } else if (remaining !== null) {
+            ctx.fillText(formatClock(remaining), width / 2, 36);
+        }
+        if (setsToWin > 1) {
+            ctx.font = font(14);
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.fillText(`SETS ${sets.p1} - ${sets.p2}`, width / 2, remaining !== null || suddenDeath ? 58 : 36);
+        }
+        ctx.textAlign = 'start';
     }
 
-  }, [gameState]);
+  }, [gameState, gesturesEnabled, net, matchRules, replay, theme, visual.highContrast]);
 
   const tick = useCallback(() => {
     updateGame();
+    sendSnapshot();
     draw();
     requestRef.current = requestAnimationFrame(tick);
-  }, [updateGame, draw]);
+  }, [updateGame, sendSnapshot, draw]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(tick);
@@ -440,6 +1328,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
         if (containerRef.current && canvasRef.current) {
             canvasRef.current.width = containerRef.current.clientWidth;
             canvasRef.current.height = containerRef.current.clientHeight;
+            physicsRef.current?.setAspectRatio(canvasRef.current.width / canvasRef.current.height);
         }
     };
     window.addEventListener('resize', handleResize);
@@ -461,14 +1350,80 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, setGameState, onComm
         
         <canvas 
             ref={canvasRef}
+            role="img"
+            aria-label="Game table. Scores, serves and pauses are announced as they happen."
             className="absolute inset-0 w-full h-full z-10"
         />
 
+        {instantReplaying && (
+            <button
+                onClick={endInstantReplay}
+                className="absolute bottom-6 right-6 z-30 px-4 py-1 border border-gray-500 text-gray-300 hover:bg-gray-800/60 rounded font-bold tracking-wider text-xs"
+            >
+                SKIP REPLAY
+            </button>
+        )}
+
+        {gameState === GameState.REPLAY && replay && replayUi && playbackRef.current && (
+            <ReplayControls
+                startTime={playbackRef.current.startTime}
+                endTime={playbackRef.current.endTime}
+                time={replayUi.time}
+                playing={replayUi.playing}
+                speed={replayUi.speed}
+                goals={replay.goals}
+                colors={{ p1: players.p1.color, p2: players.p2.color }}
+                onSeek={t => { playbackRef.current?.seek(t); syncReplayUi(); }}
+                onTogglePlay={() => {
+                    const playback = playbackRef.current;
+                    if (!playback) return;
+                    if (playback.finished) {
+                        playback.seek(playback.startTime);
+                        playback.playing = true;
+                    } else {
+                        playback.playing = !playback.playing;
+                    }
+                    syncReplayUi();
+                }}
+                onSpeed={speed => { if (playbackRef.current) playbackRef.current.speed = speed; syncReplayUi(); }}
+                onExit={() => setGameState(GameState.MENU)}
+            />
+        )}
+
         {/* Loading State Overlay */}
-        {!cameraActive && (
+        {/* Vision/Camera Error - a banner in the menu (so controls can still be changed), full overlay in game */}
+        {needsCamera && visionError && (
+            <div className={gameState === GameState.MENU
+                ? "absolute top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 px-4 py-2 bg-red-950/90 border border-red-500/50 rounded-lg text-sm text-white"
+                : "absolute inset-0 z-[60] flex flex-col items-center justify-center gap-4 bg-black/90 text-white text-center px-6"}>
+                <p>
+                    <span className="text-red-400 font-bold">NEURO-LINK FAILED: </span>
+                    {visionError}
+                    {gameState !== GameState.MENU && (
+                        <span className="block text-xs text-gray-400 mt-2 font-sans">Check your connection to the camera, or choose keyboard, mouse or gamepad controls from the menu.</span>
+                    )}
+                </p>
+                <button
+                    onClick={() => setVisionAttempt(prev => prev + 1)}
+                    className="px-4 py-1 border border-red-400 text-red-300 hover:bg-red-900/60 rounded font-bold tracking-wider text-xs"
+                >
+                    RETRY
+                </button>
+                {gameState !== GameState.MENU && (
+                    <button
+                        onClick={() => setGameState(GameState.MENU)}
+                        className="px-4 py-1 border border-gray-500 text-gray-300 hover:bg-gray-800/60 rounded font-bold tracking-wider text-xs"
+                    >
+                        MENU
+                    </button>
+                )}
+            </div>
+        )}
+
+        {needsCamera && !cameraActive && !visionError && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/90 text-white z-20">
                 <div className="text-center">
-                    <div className="w-12 h-12 border-4 border-t-cyan-500 border-b-magenta-500 rounded-full animate-spin mx-auto mb-4"></div>
+                    <div className="w-12 h-12 border-4 rounded-full animate-spin mx-auto mb-4" style={{ borderTopColor: players.p1.color, borderBottomColor: players.p2.color }}></div>
                     <p>Initializing Neuro-Link (Camera)...</p>
                 </div>
             </div>
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { GameplaySettings } from '../types';
+import { GAMEPLAY_FIELDS, GAMEPLAY_PRESETS, DEFAULT_GAMEPLAY, matchingPreset, sanitizeGameplay } from '../services/gameplaySettings';
+import { useDialog } from './useDialog';
+
+interface GameplaySettingsPanelProps {
+  settings: GameplaySettings;
+  shareUrl: string;
+  locked: boolean; // Online client: the host's settings are in use
+  onChange: (settings: GameplaySettings) => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: number, step: number) => value.toFixed(Math.max(0, -Math.floor(Math.log10(step))));
+
+const GameplaySettingsPanel: React.FC<GameplaySettingsPanelProps> = ({ settings, shareUrl, locked, onChange, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const [copied, setCopied] = useState(false);
+  const preset = matchingPreset(settings);
+
+  const update = (patch: Partial<GameplaySettings>) => onChange(sanitizeGameplay({ ...settings, ...patch }));
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.warn('Could not copy the link:', error);
+    }
+  };
+
+  const presetClass = (selected: boolean) =>
+    `px-2 py-1 rounded border ${selected ? 'border-cyan-400 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Gameplay settings" tabIndex={-1} className="absolute top-4 right-4 z-[55] w-80 max-h-[90%] flex flex-col bg-black/80 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">GAMEPLAY</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      {locked && <p className="text-yellow-400 mb-3">Online: the host's settings are in use.</p>}
+
+      <div className="grid grid-cols-4 gap-1 mb-1">
+        {GAMEPLAY_PRESETS.map(option => (
+          <button key={option.id} onClick={() => onChange({ ...option.settings })} disabled={locked} className={presetClass(preset?.id === option.id)}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-500 mb-3">{preset ? preset.description : 'Custom'}</p>
+
+      <div className="flex-1 overflow-y-auto mb-3">
+        {GAMEPLAY_FIELDS.map(field => (
+          <label key={field.key} className="block mb-1">
+            <div className="flex justify-between">
+              <span>{field.label}</span>
+              <span className="text-white">{formatValue(settings[field.key], field.step)} {field.unit}</span>
+            </div>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={settings[field.key]}
+              disabled={locked}
+              onChange={e => update({ [field.key]: parseFloat(e.target.value) })}
+              className="w-full accent-cyan-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <p className="text-gray-500 mb-2">Changes apply from the next serve.</p>
+
+      <div className="flex gap-1 mb-3">
+        <input readOnly value={shareUrl} onFocus={e => e.target.select()} className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-1 text-gray-400" />
+        <button onClick={copyLink} className="text-cyan-400 hover:text-white">{copied ? 'COPIED' : 'COPY LINK'}</button>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={() => onChange({ ...DEFAULT_GAMEPLAY })} disabled={locked} className="text-[10px] text-gray-500 hover:text-white disabled:text-gray-700">
+          RESET
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GameplaySettingsPanel;
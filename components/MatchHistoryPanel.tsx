@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { MatchRecord } from '../types';
+import { downloadHistory, lifetimeRecords } from '../services/matchHistory';
+import { useDialog } from './useDialog';
+
+interface MatchHistoryPanelProps {
+  matches: MatchRecord[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+};
+
+const MatchHistoryPanel: React.FC<MatchHistoryPanelProps> = ({ matches, onClear, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const [tab, setTab] = useState<'matches' | 'records'>('matches');
+  const records = lifetimeRecords(matches);
+
+  const tabClass = (selected: boolean) =>
+    `px-2 py-1 rounded border ${selected ? 'border-cyan-400 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Match history" tabIndex={-1} className="absolute top-4 right-4 z-[55] w-96 max-h-[90%] flex flex-col bg-black/80 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">MATCH HISTORY</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <button onClick={() => setTab('matches')} className={tabClass(tab === 'matches')}>Matches ({matches.length})</button>
+        <button onClick={() => setTab('records')} className={tabClass(tab === 'records')}>Records</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto mb-3">
+        {matches.length === 0 && <p className="text-gray-500">No matches played yet.</p>}
+
+        {tab === 'matches' && matches.map(match => (
+          <div key={match.id} className="border-b border-gray-800 py-1.5">
+            <div className="flex justify-between">
+              <span>
+                <span style={{ color: match.players.p1.color }}>{match.players.p1.name}{match.players.p1.cpu ? ' (CPU)' : ''}</span>
+                <span className="text-gray-500"> vs </span>
+                <span style={{ color: match.players.p2.color }}>{match.players.p2.name}{match.players.p2.cpu ? ' (CPU)' : ''}</span>
+              </span>
+              <span className="text-white">
+                {match.result.rules.setsToWin > 1
+                  ? `${match.result.sets.p1}-${match.result.sets.p2}`
+                  : `${match.result.scores.p1}-${match.result.scores.p2}`}
+              </span>
+            </div>
+            <div className="flex justify-between text-gray-500">
+              <span>{formatDate(match.playedAt)} · {match.result.rules.label}</span>
+              <span>rally {match.stats.longestRally} · peak {match.stats.peakSpeed.toFixed(1)}</span>
+            </div>
+          </div>
+        ))}
+
+        {tab === 'records' && records.length > 0 && (
+          <table className="w-full">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="text-left">Name</th>
+                <th className="text-right">W-L</th>
+                <th className="text-right">Goals</th>
+                <th className="text-right">Hits</th>
+                <th className="text-right" title="Longest rally played in">Rally</th>
+                <th className="text-right" title="Fastest own return">Peak</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map(record => (
+                <tr key={record.name}>
+                  <td className="text-white">{record.name}</td>
+                  <td className="text-right">{record.wins}-{record.played - record.wins}</td>
+                  <td className="text-right">{record.goalsFor}:{record.goalsAgainst}</td>
+                  <td className="text-right">{record.hits}</td>
+                  <td className="text-right">{record.longestRally}</td>
+                  <td className="text-right">{record.peakSpeed.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => downloadHistory(matches, 'json')} disabled={matches.length === 0} className="flex-1 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40">
+          Export JSON
+        </button>
+        <button onClick={() => downloadHistory(matches, 'csv')} disabled={matches.length === 0} className="flex-1 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40">
+          Export CSV
+        </button>
+        <button
+          onClick={() => window.confirm('Delete all saved matches?') && onClear()}
+          disabled={matches.length === 0}
+          className="py-1 px-2 border border-red-900 text-red-400 rounded hover:bg-red-950 disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MatchHistoryPanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { MatchStats, PlayerId } from '../types';
+import { serveWinRate } from '../services/matchStats';
+
+interface MatchStatsReportProps {
+  stats: MatchStats;
+  players: Record<PlayerId, { name: string; color: string }>;
+}
+
+const percent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// Vertical strip of cells shaded by how often each band was hit
+const HeatStrip: React.FC<{ counts: number[]; color: string; title: string }> = ({ counts, color, title }) => {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="flex flex-col w-3 rounded-sm overflow-hidden border border-gray-700" title={title}>
+      {counts.map((count, i) => (
+        <div key={i} className="flex-1" style={{ backgroundColor: color, opacity: count === 0 ? 0.05 : 0.2 + (count / max) * 0.8 }} />
+      ))}
+    </div>
+  );
+};
+
+// Where on the paddle returns were struck, top edge first
+const ZoneBars: React.FC<{ counts: number[]; color: string }> = ({ counts, color }) => {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="flex flex-col gap-px">
+      {counts.map((count, i) => (
+        <div key={i} className="h-1.5 rounded-sm" style={{ backgroundColor: color, width: `${Math.max(4, (count / max) * 100)}%`, opacity: count === 0 ? 0.2 : 1 }} />
+      ))}
+    </div>
+  );
+};
+
+const MatchStatsReport: React.FC<MatchStatsReportProps> = ({ stats, players }) => {
+  const rows: { label: string; p1: string | number; p2: string | number }[] = [
+    { label: 'Goals', p1: stats.goals.p1, p2: stats.goals.p2 },
+    { label: 'Hits', p1: stats.hits.p1, p2: stats.hits.p2 },
+    { label: 'Serve win', p1: percent(serveWinRate(stats, 'p1')), p2: percent(serveWinRate(stats, 'p2')) }
+  ];
+
+  return (
+    <div className="flex items-stretch gap-3 mb-6 font-mono text-xs text-gray-300">
+      {/* Left goal line is P1's: P2's goals crossed it */}
+      <HeatStrip counts={stats.goalCrossings.p2} color={players.p2.color} title={`Where ${players.p2.name}'s goals crossed`} />
+
+      <div className="bg-black/50 border border-gray-700 rounded-lg px-4 py-3 w-72">
+        <table className="w-full mb-2">
+          <thead>
+            <tr>
+              <th />
+              <th className="text-right font-bold" style={{ color: players.p1.color }}>{players.p1.name}</th>
+              <th className="text-right font-bold" style={{ color: players.p2.color }}>{players.p2.name}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <td className="text-gray-500">{row.label}</td>
+                <td className="text-right text-white">{row.p1}</td>
+                <td className="text-right text-white">{row.p2}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-between text-gray-500 mb-2">
+          <span>Longest rally <span className="text-white">{stats.longestRally}</span></span>
+          <span>Speed <span className="text-white">{stats.averageSpeed.toFixed(1)}</span> / <span className="text-white">{stats.peakSpeed.toFixed(1)}</span> peak</span>
+        </div>
+        <p className="text-gray-500 mb-1">Paddle contact (top → bottom)</p>
+        <div className="grid grid-cols-2 gap-4">
+          <ZoneBars counts={stats.intersects.p1} color={players.p1.color} />
+          <ZoneBars counts={stats.intersects.p2} color={players.p2.color} />
+        </div>
+      </div>
+
+      <HeatStrip counts={stats.goalCrossings.p1} color={players.p1.color} title={`Where ${players.p1.name}'s goals crossed`} />
+    </div>
+  );
+};
+
+export default MatchStatsReport;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { NetInfo } from '../services/netplay';
+
+interface NetplayPanelProps {
+  info: NetInfo;
+  available: boolean;
+  opponentName: string | null; // Once their profile arrives
+  onHost: () => void;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+}
+
+const buttonClass = 'py-2 px-3 rounded border border-gray-700 bg-black/40 text-xs font-bold tracking-wide text-gray-300 hover:border-cyan-400 hover:text-cyan-300 disabled:opacity-40';
+
+// Host a lobby or join one by code; shows the connection once it's up
+const NetplayPanel: React.FC<NetplayPanelProps> = ({ info, available, opponentName, onHost, onJoin, onLeave }) => {
+  const [code, setCode] = useState('');
+
+  if (!available) {
+    return <p className="text-red-400 text-xs mb-4">This browser does not support WebRTC, so online play is unavailable.</p>;
+  }
+
+  if (info.status === 'idle' || info.status === 'error') {
+    return (
+      <div className="mb-4">
+        <div className="flex gap-2 mb-2">
+          <button onClick={onHost} className={`flex-1 ${buttonClass}`}>Host Game</button>
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase().slice(0, 4))}
+            onKeyDown={e => e.key === 'Enter' && code.length === 4 && onJoin(code)}
+            placeholder="CODE"
+            aria-label="Lobby code"
+            className="w-20 bg-gray-900 border border-gray-700 rounded px-2 text-center font-mono text-white tracking-widest"
+          />
+          <button onClick={() => onJoin(code)} disabled={code.length !== 4} className={buttonClass}>Join</button>
+        </div>
+        {info.error && <p className="text-red-400 text-xs">{info.error}</p>}
+      </div>
+    );
+  }
+
+  const isHost = info.role === 'host';
+  let message: string;
+  switch (info.status) {
+    case 'connecting':
+      message = 'Connecting…';
+      break;
+    case 'waiting':
+      message = 'Waiting for an opponent. Share the code above.';
+      break;
+    case 'connected':
+      message = isHost
+        ? `${opponentName ?? 'Opponent'} connected. Start when ready.`
+        : `Connected to ${opponentName ?? 'the host'}. The host starts the match.`;
+      break;
+    default:
+      message = info.error ?? 'Connection lost.';
+  }
+
+  return (
+    <div className="mb-4 p-3 rounded border border-gray-700 bg-black/40 font-mono text-xs text-left">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-gray-400">
+          LOBBY <span className="text-white text-base tracking-[0.3em]">{info.lobby ?? '----'}</span>
+        </span>
+        <span className="text-gray-500">{isHost ? 'HOST · P1 (LEFT)' : 'GUEST · P2 (RIGHT)'}</span>
+      </div>
+      <p className={info.status === 'connected' ? 'text-green-400' : 'text-gray-400'}>
+        {message}
+        {info.latencyMs !== null && ` ${Math.round(info.latencyMs)} ms`}
+      </p>
+      <div className="flex gap-2 mt-2">
+        {info.status === 'disconnected' && !isHost && info.lobby && (
+          <button onClick={() => onJoin(info.lobby!)} className={buttonClass}>Rejoin</button>
+        )}
+        <button onClick={onLeave} className={buttonClass}>Leave</button>
+      </div>
+    </div>
+  );
+};
+
+export default NetplayPanel;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { PlayerId } from '../types';
+import { ReplayGoal } from '../services/replay';
+
+interface ReplayControlsProps {
+  startTime: number;
+  endTime: number;
+  time: number;
+  playing: boolean;
+  speed: number;
+  goals: ReplayGoal[];
+  colors: Record<PlayerId, string>; // Goal markers in the scorer's colour
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onSpeed: (speed: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  startTime, endTime, time, playing, speed, goals, colors, onSeek, onTogglePlay, onSpeed, onExit
+}) => {
+  const span = Math.max(endTime - startTime, 1e-6);
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[90%] md:w-[70%] z-50 bg-black/70 border border-gray-700 rounded-xl px-4 py-3 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="relative mb-2">
+        <input
+          type="range"
+          min={startTime}
+          max={endTime}
+          step={0.01}
+          value={time}
+          onChange={e => onSeek(parseFloat(e.target.value))}
+          className="w-full accent-cyan-500"
+          aria-label="Replay position"
+        />
+        {/* Goal markers */}
+        {goals.map((goal, i) => (
+          <button
+            key={i}
+            onClick={() => onSeek(goal.t - 2)}
+            title={`${goal.scorer.toUpperCase()} goal`}
+            className="absolute -top-1 w-1.5 h-2 rounded-sm"
+            style={{ left: `${((goal.t - startTime) / span) * 100}%`, backgroundColor: colors[goal.scorer] }}
+          />
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={onTogglePlay} className="w-16 py-1 border border-cyan-500/50 text-cyan-400 rounded font-bold hover:bg-cyan-900/40">
+          {playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <span className="text-white">{formatTime(time - startTime)} / {formatTime(span)}</span>
+        <div className="flex gap-1 ml-auto">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeed(s)}
+              className={`px-2 py-1 rounded border ${speed === s ? 'border-cyan-400 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+        <button onClick={onExit} className="px-3 py-1 border border-gray-600 text-gray-300 rounded font-bold hover:bg-gray-800/60">
+          EXIT
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
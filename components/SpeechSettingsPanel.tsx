@@ -0,0 +1,83 @@
+import React from 'react';
+import { SpeechSettings } from '../types';
+import { DEFAULT_SPEECH_SETTINGS, TtsVoice } from '../services/speechService';
+import { useDialog } from './useDialog';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  voices: TtsVoice[];
+  available: boolean;
+  onChange: (settings: SpeechSettings) => void;
+  onTest: () => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'rate', label: 'Rate', min: 0.5, max: 2, step: 0.05 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.05 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 }
+];
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ settings, voices, available, onChange, onTest, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const update = (patch: Partial<SpeechSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Announcer voice" tabIndex={-1} className="absolute top-4 right-4 z-[55] w-72 bg-black/80 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">ANNOUNCER VOICE</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      {!available && <p className="text-red-400 mb-3">Speech synthesis is not supported in this browser.</p>}
+
+      <label className="flex items-center gap-2 mb-3">
+        <input type="checkbox" checked={settings.muted} onChange={e => update({ muted: e.target.checked })} className="accent-cyan-500" />
+        <span>Muted (M)</span>
+      </label>
+
+      <label className="block mb-2">
+        <span className="block mb-1">Voice</span>
+        <select
+          value={settings.voiceId ?? ''}
+          onChange={e => update({ voiceId: e.target.value || null })}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-1 text-white"
+        >
+          <option value="">System default</option>
+          {voices.map(voice => (
+            <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>
+          ))}
+        </select>
+      </label>
+
+      {FIELDS.map(field => (
+        <label key={field.key} className="block mb-1">
+          <div className="flex justify-between">
+            <span>{field.label}</span>
+            <span className="text-white">{settings[field.key]}</span>
+          </div>
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={settings[field.key]}
+            onChange={e => update({ [field.key]: parseFloat(e.target.value) })}
+            className="w-full accent-cyan-500"
+          />
+        </label>
+      ))}
+
+      <div className="flex justify-between mt-3">
+        <button onClick={onTest} disabled={!available || settings.muted} className="text-cyan-400 hover:text-white disabled:text-gray-600">
+          TEST
+        </button>
+        <button onClick={() => onChange({ ...DEFAULT_SPEECH_SETTINGS })} className="text-[10px] text-gray-500 hover:text-white">
+          RESET
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { PlayerProfile, Tournament, TournamentFormat, TournamentMatch } from '../types';
+import { BYE, ENTRANT_COLORS, MAX_ENTRANTS, TOURNAMENT_FORMATS, createTournament, entrantById, nextMatch, stageLabel, standings } from '../services/tournament';
+import { MAX_NAME_LENGTH } from '../services/themes';
+import { useDialog } from './useDialog';
+
+interface TournamentPanelProps {
+  tournament: Tournament | null;
+  suggested: PlayerProfile[]; // Prefills registration: the names already in the menu
+  onCreate: (tournament: Tournament) => void;
+  onPlay: (matchId: string) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+const BRACKET_TITLES: Record<TournamentMatch['bracket'], string> = {
+  winners: 'WINNERS BRACKET',
+  losers: 'LOSERS BRACKET',
+  final: 'GRAND FINAL',
+  round_robin: 'FIXTURES'
+};
+
+const TournamentPanel: React.FC<TournamentPanelProps> = ({ tournament, suggested, onCreate, onPlay, onDiscard, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+
+  const buttonClass = (selected: boolean) =>
+    `px-2 py-1 rounded border ${selected ? 'border-cyan-400 text-cyan-300' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Tournament" tabIndex={-1} className="absolute inset-4 z-[55] flex flex-col bg-black/90 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">TOURNAMENT</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      {tournament
+        ? <Bracket tournament={tournament} onPlay={onPlay} onDiscard={onDiscard} />
+        : <Registration suggested={suggested} buttonClass={buttonClass} onCreate={onCreate} />}
+    </div>
+  );
+};
+
+// --- Registration ---
+const Registration: React.FC<{
+  suggested: PlayerProfile[];
+  buttonClass: (selected: boolean) => string;
+  onCreate: (tournament: Tournament) => void;
+}> = ({ suggested, buttonClass, onCreate }) => {
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [shuffle, setShuffle] = useState(false);
+  const [entrants, setEntrants] = useState<PlayerProfile[]>(suggested);
+  const [newName, setNewName] = useState('');
+
+  const cleaned = newName.trim().slice(0, MAX_NAME_LENGTH).toUpperCase();
+  const canAdd = cleaned !== '' && entrants.length < MAX_ENTRANTS && !entrants.some(entrant => entrant.name === cleaned);
+
+  const add = () => {
+    if (!canAdd) return;
+    setEntrants(prev => [...prev, { name: cleaned, color: ENTRANT_COLORS[prev.length % ENTRANT_COLORS.length] }]);
+    setNewName('');
+  };
+
+  const update = (index: number, changes: Partial<PlayerProfile>) =>
+    setEntrants(prev => prev.map((entrant, i) => (i === index ? { ...entrant, ...changes } : entrant)));
+
+  // Swap with the neighbour above (-1) or below (1)
+  const move = (index: number, by: -1 | 1) =>
+    setEntrants(prev => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+
+  return (
+    <>
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Tournament name"
+        aria-label="Tournament name"
+        className="bg-gray-900 border border-gray-700 rounded px-2 py-1 mb-3 text-white"
+      />
+
+      <div className="grid grid-cols-3 gap-1 mb-1">
+        {TOURNAMENT_FORMATS.map(option => (
+          <button key={option.id} onClick={() => setFormat(option.id)} className={buttonClass(format === option.id)}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-500 mb-3">{TOURNAMENT_FORMATS.find(option => option.id === format)!.description}</p>
+
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-white">PLAYERS ({entrants.length})</span>
+        <button onClick={() => setShuffle(prev => !prev)} className={buttonClass(shuffle)} aria-pressed={shuffle}>
+          {shuffle ? 'Random draw' : 'Seeded as listed'}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto mb-3">
+        {entrants.map((entrant, i) => (
+          <div key={i} className="flex items-center gap-2 py-0.5">
+            <span className="w-6 text-right text-gray-500">{shuffle ? '·' : i + 1}</span>
+            <input
+              type="color"
+              value={entrant.color}
+              onChange={e => update(i, { color: e.target.value })}
+              aria-label={`${entrant.name} colour`}
+              className="w-6 h-6 bg-transparent border border-gray-700 rounded cursor-pointer"
+            />
+            <span className="flex-1" style={{ color: entrant.color }}>{entrant.name}</span>
+            <button onClick={() => move(i, -1)} disabled={i === 0} aria-label={`Seed ${entrant.name} higher`} className="text-gray-500 hover:text-white disabled:text-gray-800">▲</button>
+            <button onClick={() => move(i, 1)} disabled={i === entrants.length - 1} aria-label={`Seed ${entrant.name} lower`} className="text-gray-500 hover:text-white disabled:text-gray-800">▼</button>
+            <button onClick={() => setEntrants(prev => prev.filter((_, j) => j !== i))} aria-label={`Remove ${entrant.name}`} className="text-gray-500 hover:text-red-400">✕</button>
+          </div>
+        ))}
+        {entrants.length === 0 && <p className="text-gray-500">Add at least two players.</p>}
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && add()}
+          placeholder="Player name"
+          aria-label="New player name"
+          maxLength={MAX_NAME_LENGTH}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white uppercase"
+        />
+        <button onClick={add} disabled={!canAdd} className="px-3 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40">
+          Add
+        </button>
+      </div>
+
+      <button
+        onClick={() => onCreate(createTournament(name, format, entrants, shuffle))}
+        disabled={entrants.length < 2}
+        className="py-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded uppercase tracking-widest disabled:opacity-40"
+      >
+        Start Tournament
+      </button>
+    </>
+  );
+};
+
+// --- Bracket ---
+const Bracket: React.FC<{
+  tournament: Tournament;
+  onPlay: (matchId: string) => void;
+  onDiscard: () => void;
+}> = ({ tournament, onPlay, onDiscard }) => {
+  const upcoming = nextMatch(tournament);
+  const champion = entrantById(tournament, tournament.champion);
+  const format = TOURNAMENT_FORMATS.find(option => option.id === tournament.format)!;
+
+  // Matches grouped by bracket, then round
+  const groups = (Object.keys(BRACKET_TITLES) as TournamentMatch['bracket'][])
+    .map(bracket => {
+      const matches = tournament.matches.filter(m => m.bracket === bracket);
+      const rounds = matches.map(m => m.round).filter((round, i, all) => all.indexOf(round) === i).sort((a, b) => a - b);
+      return { bracket, rounds: rounds.map(round => matches.filter(m => m.round === round)) };
+    })
+    .filter(group => group.rounds.length > 0);
+
+  const slot = (m: TournamentMatch, index: 0 | 1) => {
+    const id = m.players[index];
+    const entrant = entrantById(tournament, id);
+    const won = m.winner !== null && m.winner === id;
+    return (
+      <div className={`flex justify-between gap-2 ${m.winner && !won ? 'opacity-50' : ''}`}>
+        <span className={won ? 'font-bold' : ''} style={{ color: entrant?.color }}>
+          {entrant ? entrant.name : id === BYE ? 'bye' : 'TBD'}
+        </span>
+        <span className="text-white">{m.score ? m.score[index] : ''}</span>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="text-white text-sm">{tournament.name}</span>
+        <span className="text-gray-500">{format.label} · {tournament.entrants.length} players</span>
+      </div>
+
+      {champion ? (
+        <p className="text-center text-lg font-bold mb-3" style={{ color: champion.color }}>🏆 {champion.name} WINS {tournament.name.toUpperCase()}</p>
+      ) : upcoming && (
+        <div className="flex justify-between items-center border border-cyan-800 rounded px-3 py-2 mb-3">
+          <span>
+            <span className="text-gray-500">NEXT · {stageLabel(tournament, upcoming)} · </span>
+            <span style={{ color: entrantById(tournament, upcoming.players[0])?.color }}>{entrantById(tournament, upcoming.players[0])?.name}</span>
+            <span className="text-gray-500"> vs </span>
+            <span style={{ color: entrantById(tournament, upcoming.players[1])?.color }}>{entrantById(tournament, upcoming.players[1])?.name}</span>
+          </span>
+          <button onClick={() => onPlay(upcoming.id)} className="px-3 py-1 bg-cyan-700 hover:bg-cyan-600 text-white font-bold rounded">
+            PLAY
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto mb-3">
+        {tournament.format === 'round_robin' && (
+          <table className="w-full mb-4">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Name</th>
+                <th className="text-right">P</th>
+                <th className="text-right">W-L</th>
+                <th className="text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings(tournament).map((row, i) => (
+                <tr key={row.entrant.id}>
+                  <td>{i + 1}</td>
+                  <td style={{ color: row.entrant.color }}>{row.entrant.name}</td>
+                  <td className="text-right">{row.played}</td>
+                  <td className="text-right">{row.wins}-{row.losses}</td>
+                  <td className="text-right">{row.pointsFor}:{row.pointsAgainst}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {groups.map(group => (
+          <div key={group.bracket} className="mb-4">
+            {tournament.format !== 'single_elimination' && <p className="text-gray-500 mb-1">{BRACKET_TITLES[group.bracket]}</p>}
+            <div className="flex gap-3">
+              {group.rounds.map(matches => (
+                <div key={matches[0].round} className="flex flex-col justify-around gap-2 min-w-[9rem]">
+                  <p className="text-gray-500">{stageLabel(tournament, matches[0])}</p>
+                  {matches.map(m => (
+                    <div key={m.id} className={`border rounded px-2 py-1 ${m.id === upcoming?.id ? 'border-cyan-400' : 'border-gray-700'}`}>
+                      {slot(m, 0)}
+                      {slot(m, 1)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => window.confirm(champion ? 'Clear this tournament?' : 'End this tournament? Results so far are lost.') && onDiscard()}
+          className="py-1 px-2 border border-red-900 text-red-400 rounded hover:bg-red-950"
+        >
+          {champion ? 'New Tournament' : 'End Tournament'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default TournamentPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { PlayerId, SmoothingSettings } from '../types';
+import { DEFAULT_SMOOTHING } from '../services/handSmoothing';
+import { useDialog } from './useDialog';
+
+interface TrackingDebugPanelProps {
+  smoothing: Record<PlayerId, SmoothingSettings>;
+  colors: Record<PlayerId, string>;
+  onChange: (smoothing: Record<PlayerId, SmoothingSettings>) => void;
+  onClose: () => void;
+}
+
+// Slider definitions for each tunable filter parameter
+const FIELDS: { key: keyof SmoothingSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'minCutoff', label: 'Min Cutoff (Hz)', min: 0.05, max: 5, step: 0.05 },
+  { key: 'beta', label: 'Beta', min: 0, max: 20, step: 0.1 },
+  { key: 'dCutoff', label: 'Speed Cutoff (Hz)', min: 0.1, max: 5, step: 0.1 },
+  { key: 'predictionMs', label: 'Prediction (ms)', min: 0, max: 120, step: 5 }
+];
+
+const PLAYERS: { id: PlayerId; label: string }[] = [
+  { id: 'p1', label: 'P1' },
+  { id: 'p2', label: 'P2' }
+];
+
+const TrackingDebugPanel: React.FC<TrackingDebugPanelProps> = ({ smoothing, colors, onChange, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const update = (id: PlayerId, key: keyof SmoothingSettings, value: number) => {
+    onChange({ ...smoothing, [id]: { ...smoothing[id], [key]: value } });
+  };
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-label="Tracking filters" tabIndex={-1} className="absolute top-4 left-4 z-50 w-72 bg-black/80 border border-gray-700 rounded-lg p-4 backdrop-blur-md font-mono text-xs text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <span className="font-bold tracking-wider text-white">TRACKING FILTER</span>
+        <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white">✕</button>
+      </div>
+
+      {PLAYERS.map(player => (
+        <div key={player.id} className="mb-3">
+          <div className="flex justify-between items-center mb-1">
+            <span className="font-bold" style={{ color: colors[player.id] }}>{player.label}</span>
+            <button
+              onClick={() => onChange({ ...smoothing, [player.id]: { ...DEFAULT_SMOOTHING } })}
+              className="text-[10px] text-gray-500 hover:text-white"
+            >
+              RESET
+            </button>
+          </div>
+          {FIELDS.map(field => (
+            <label key={field.key} className="block mb-1">
+              <div className="flex justify-between">
+                <span>{field.label}</span>
+                <span className="text-white">{smoothing[player.id][field.key]}</span>
+              </div>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={smoothing[player.id][field.key]}
+                onChange={e => update(player.id, field.key, parseFloat(e.target.value))}
+                className="w-full"
+                style={{ accentColor: colors[player.id] }}
+              />
+            </label>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TrackingDebugPanel;
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard behaviour for a settings panel or overlay: focus moves into it on
+ * open, Tab cycles inside it, Escape closes it, and focus goes back to
+ * whatever had it before. Attach the returned ref to the panel's root (with
+ * tabIndex={-1}, so it can hold focus when nothing inside can). Overlays that
+ * stay mounted pass `open` instead of mounting and unmounting.
+ */
+export const useDialog = <T extends HTMLElement>(onClose?: () => void, open = true) => {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const root = ref.current;
+    if (!open || !root) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusable = (): HTMLElement[] => Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (!root.contains(document.activeElement)) (focusable()[0] ?? root).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onCloseRef.current) {
+        e.stopPropagation(); // Escape also pauses the game; here it only closes the panel
+        onCloseRef.current();
+      } else if (e.key === 'Tab') {
+        const items = focusable();
+        if (items.length === 0) return;
+        const first = items[0];
+        const last = items[items.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    root.addEventListener('keydown', onKeyDown);
+    return () => {
+      root.removeEventListener('keydown', onKeyDown);
+      if (previous && document.contains(previous)) previous.focus();
+    };
+  }, [open]);
+
+  return ref;
+};
@@ -0,0 +1,50 @@
+// Minimal OpenAI-compatible stand-in for the commentary endpoint, for offline development.
+// Usage: npm run commentary:server, then set COMMENTARY_API_URL=http://localhost:8787/v1 in .env.local
+import http from 'http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DELAY_MS = Number(process.env.DELAY_MS) || 300; // Simulated model latency
+
+const LINES = [
+  'Velocity off the charts! {score}!',
+  'Cyber strike lands, {score} on the grid!',
+  'Laser-precise! The arena shakes, {score}!',
+  'Pure neon power! {score}!'
+];
+
+const reply = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(body));
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return reply(res, 204, {});
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) return reply(res, 404, { error: 'Not found' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let prompt = '';
+    try {
+      const body = JSON.parse(raw);
+      prompt = body.messages?.filter(m => m.role === 'user').map(m => m.content).join(' ') ?? '';
+    } catch {
+      return reply(res, 400, { error: 'Invalid JSON' });
+    }
+
+    // Echo the score from the prompt so stale-line handling can be checked
+    const score = prompt.match(/(\d+) - (\d+)/)?.slice(1).join('-') ?? '0-0';
+    const content = prompt.startsWith('Give a short, high-energy')
+      ? 'Welcome to the grid! Cyan versus Magenta, lasers hot!'
+      : LINES[Math.floor(Math.random() * LINES.length)].replace('{score}', score);
+
+    setTimeout(() => reply(res, 200, {
+      object: 'chat.completion',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+    }), DELAY_MS);
+  });
+}).listen(PORT, () => console.log(`Commentary stand-in listening on http://localhost:${PORT}/v1`));
@@ -0,0 +1,23 @@
+// Downloads the MediaPipe hand landmarker model into public/models so the app can serve it itself.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const target = path.join(root, 'public', 'models', 'hand_landmarker.task');
+
+if (fs.existsSync(target) && !process.argv.includes('--force')) {
+  console.log(`Model already present at ${path.relative(root, target)} (use --force to re-download)`);
+  process.exit(0);
+}
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  console.error(`Download failed: ${response.status} ${response.statusText}`);
+  process.exit(1);
+}
+
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved ${path.relative(root, target)}`);
@@ -0,0 +1,176 @@
+// Minimal WebSocket signaling server for online 1v1: pairs a host and a guest by lobby code
+// and relays their WebRTC offer/answer/ICE messages. Game traffic never passes through here.
+// Usage: npm run signaling:server (set NETPLAY_SIGNALING_URL in .env.local if not on localhost:8788)
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = Number(process.env.PORT) || 8788;
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I/O, easy to read out loud
+const CODE_LENGTH = 4;
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const lobbies = new Map(); // code -> { host, guest }
+
+// --- WebSocket framing (text frames only, which is all signaling needs) ---
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pull complete frames off the front of the buffer; returns what is left over
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+const send = (client, message) => {
+  if (client && !client.socket.destroyed) client.socket.write(encodeFrame(JSON.stringify(message)));
+};
+
+const newCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[crypto.randomInt(CODE_LETTERS.length)]).join('');
+  } while (lobbies.has(code));
+  return code;
+};
+
+// --- Lobbies ---
+const peerOf = client => {
+  const lobby = client.code && lobbies.get(client.code);
+  if (!lobby) return null;
+  return lobby.host === client ? lobby.guest : lobby.host;
+};
+
+const leave = client => {
+  const lobby = client.code && lobbies.get(client.code);
+  if (!lobby) return;
+  send(peerOf(client), { type: 'peer_left' });
+  if (lobby.host === client) {
+    // The host owns the lobby: it closes with them
+    if (lobby.guest) lobby.guest.code = null;
+    lobbies.delete(client.code);
+  } else {
+    lobby.guest = null;
+  }
+  client.code = null;
+};
+
+const handleMessage = (client, message) => {
+  switch (message.type) {
+    case 'host': {
+      leave(client);
+      client.code = newCode();
+      lobbies.set(client.code, { host: client, guest: null });
+      send(client, { type: 'hosted', code: client.code });
+      console.log(`Lobby ${client.code} opened`);
+      break;
+    }
+    case 'join': {
+      const code = String(message.code ?? '').toUpperCase();
+      const lobby = lobbies.get(code);
+      if (!lobby) return send(client, { type: 'error', message: `No lobby ${code}` });
+      if (lobby.host === client) return send(client, { type: 'error', message: 'You are hosting this lobby' });
+      if (lobby.guest && lobby.guest !== client) return send(client, { type: 'error', message: `Lobby ${code} is full` });
+      if (client.code !== code) leave(client);
+      lobby.guest = client;
+      client.code = code;
+      send(client, { type: 'joined', code });
+      send(lobby.host, { type: 'peer_joined' }); // Host starts (or restarts) the WebRTC handshake
+      console.log(`Guest joined lobby ${code}`);
+      break;
+    }
+    case 'signal':
+      send(peerOf(client), { type: 'signal', data: message.data });
+      break;
+    case 'leave':
+      leave(client);
+      break;
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Neon Hand Hockey signaling server: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, code: null };
+  let pending = Buffer.alloc(0);
+
+  socket.on('data', chunk => {
+    try {
+      pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame('', 0x8)); // Close
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(payload.toString(), 0xa)); // Ping -> pong
+        } else if (opcode === 0x1) {
+          let message;
+          try {
+            message = JSON.parse(payload.toString());
+          } catch {
+            return send(client, { type: 'error', message: 'Invalid JSON' });
+          }
+          handleMessage(client, message);
+        }
+      });
+    } catch (error) {
+      console.warn('Dropping connection:', error.message);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => leave(client));
+  socket.on('error', () => leave(client));
+});
+
+server.listen(PORT, () => console.log(`Signaling server listening on ws://localhost:${PORT}`));
@@ -0,0 +1,72 @@
+import { PlayerId } from '../types';
+import { Rect, Vec2 } from './collision';
+
+// --- Table ---
+export const GOAL_MOUTH = 0.36; // Opening in each end wall, fraction of height (centred)
+export const PUCK_RADIUS = 0.035; // Fraction of height
+export const MALLET_RADIUS = 0.075; // Fraction of height
+export const MALLET_HOME_X = 0.12; // Where P1's mallet starts (P2's mirrors it), fraction of width
+const WALL_DEPTH = 1; // End walls are solid blocks this deep, so nothing tunnels through them
+
+// --- Puck Physics (world units: heights, seconds) ---
+const PUCK_MASS = 1;
+const MALLET_MASS = 3; // Heavier than the puck, so a swing passes on more than its own speed
+const MALLET_RESTITUTION = 0.8;
+export const WALL_RESTITUTION = 0.9;
+export const PUCK_FRICTION = 0.3; // Exponential slowdown per second on the air cushion
+export const PUCK_MAX_SPEED = 7; // Heights per second
+export const MALLET_MAX_SPEED = 9; // Heights per second; a tracking jump can't fling the puck across the room
+
+// Is a point along an end wall inside the goal mouth?
+export const inGoalMouth = (y: number) => Math.abs(y - 0.5) <= GOAL_MOUTH / 2;
+
+/**
+ * The range a mallet's centre may cover, in normalized coordinates: its own
+ * half, kept a radius away from the walls and the centre line.
+ */
+export const malletBounds = (id: PlayerId, aspect: number, radius: number): Rect => {
+  const radiusX = radius / aspect;
+  return id === 'p1'
+    ? { minX: radiusX, maxX: 0.5 - radiusX, minY: radius, maxY: 1 - radius }
+    : { minX: 0.5 + radiusX, maxX: 1 - radiusX, minY: radius, maxY: 1 - radius };
+};
+
+export const clampMallet = (id: PlayerId, x: number, y: number, aspect: number, radius: number): Vec2 => {
+  const bounds = malletBounds(id, aspect, radius);
+  return {
+    x: Math.max(bounds.minX, Math.min(bounds.maxX, x)),
+    y: Math.max(bounds.minY, Math.min(bounds.maxY, y))
+  };
+};
+
+/**
+ * The end walls either side of each goal mouth as world-space blocks (x scaled
+ * by aspect). Their inner corners are the goal posts, which sweepCircleRect
+ * rounds off. A `closed` side (shield power-up) gets a solid wall instead.
+ */
+export const endWalls = (aspect: number, closed: Record<PlayerId, boolean>): Rect[] => {
+  const mouthTop = 0.5 - GOAL_MOUTH / 2;
+  const mouthBottom = 0.5 + GOAL_MOUTH / 2;
+  const side = (minX: number, maxX: number, shut: boolean): Rect[] => shut
+    ? [{ minX, maxX, minY: -WALL_DEPTH, maxY: 1 + WALL_DEPTH }]
+    : [
+      { minX, maxX, minY: -WALL_DEPTH, maxY: mouthTop },
+      { minX, maxX, minY: mouthBottom, maxY: 1 + WALL_DEPTH }
+    ];
+  return [...side(-WALL_DEPTH, 0, closed.p1), ...side(aspect, aspect + WALL_DEPTH, closed.p2)];
+};
+
+/**
+ * Puck velocity after a mallet strike (world units). The mallet is driven by a
+ * hand, so it keeps its own velocity: the impulse uses both masses, but only the
+ * puck responds. `normal` points from the mallet to the puck.
+ */
+export const strikeVelocity = (puck: Vec2, mallet: Vec2, normal: Vec2): Vec2 => {
+  const closing = (puck.x - mallet.x) * normal.x + (puck.y - mallet.y) * normal.y;
+  if (closing >= 0) return puck; // Already separating
+  const impulse = (-(1 + MALLET_RESTITUTION) * closing) / (1 / PUCK_MASS + 1 / MALLET_MASS);
+  return {
+    x: puck.x + (impulse / PUCK_MASS) * normal.x,
+    y: puck.y + (impulse / PUCK_MASS) * normal.y
+  };
+};
@@ -0,0 +1,154 @@
+// Swept collision helpers. Everything here works in aspect-correct "world" units
+// (x scaled by width / height, y unscaled) so circles stay circular.
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface SweepHit {
+  t: number; // Fraction of the displacement travelled before contact (0-1)
+  normal: Vec2; // Unit contact normal, pointing from the rect towards the circle
+}
+
+const EPSILON = 1e-9;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Smallest t in [0, 1] where the ray p + t*d enters a circle, or null
+const rayCircle = (p: Vec2, d: Vec2, c: Vec2, radius: number): number | null => {
+  const mx = p.x - c.x;
+  const my = p.y - c.y;
+  const a = d.x * d.x + d.y * d.y;
+  if (a < EPSILON) return null;
+  const b = mx * d.x + my * d.y;
+  const cc = mx * mx + my * my - radius * radius;
+  if (b > 0) return null; // Moving away from the corner
+  const disc = b * b - a * cc;
+  if (disc < 0) return null;
+  const t = (-b - Math.sqrt(disc)) / a;
+  return t >= 0 && t <= 1 ? t : null;
+};
+
+/**
+ * Sweep a circle of `radius` from `p` along displacement `d` against `rect`.
+ * Equivalent to a ray cast against the rect inflated by the radius with rounded
+ * corners. If the circle already overlaps and is moving inwards, reports t = 0.
+ */
+export const sweepCircleRect = (p: Vec2, d: Vec2, radius: number, rect: Rect): SweepHit | null => {
+  // Already overlapping: resolve immediately along the shortest way out
+  const cx = clamp(p.x, rect.minX, rect.maxX);
+  const cy = clamp(p.y, rect.minY, rect.maxY);
+  const ox = p.x - cx;
+  const oy = p.y - cy;
+  const distSq = ox * ox + oy * oy;
+  if (distSq < radius * radius) {
+    let normal: Vec2;
+    if (distSq > EPSILON) {
+      const dist = Math.sqrt(distSq);
+      normal = { x: ox / dist, y: oy / dist };
+    } else {
+      // Centre is inside the rect: push out through the nearest face
+      const left = p.x - rect.minX;
+      const right = rect.maxX - p.x;
+      const top = p.y - rect.minY;
+      const bottom = rect.maxY - p.y;
+      const min = Math.min(left, right, top, bottom);
+      normal = min === left ? { x: -1, y: 0 }
+        : min === right ? { x: 1, y: 0 }
+        : min === top ? { x: 0, y: -1 }
+        : { x: 0, y: 1 };
+    }
+    if (d.x * normal.x + d.y * normal.y < 0) return { t: 0, normal };
+    return null;
+  }
+
+  let best: SweepHit | null = null;
+  const consider = (t: number, normal: Vec2) => {
+    if (t >= 0 && t <= 1 && (!best || t < best.t)) best = { t, normal };
+  };
+
+  // Flat faces of the inflated rect
+  if (d.x > EPSILON && p.x <= rect.minX - radius) {
+    const t = (rect.minX - radius - p.x) / d.x;
+    const y = p.y + d.y * t;
+    if (y >= rect.minY && y <= rect.maxY) consider(t, { x: -1, y: 0 });
+  } else if (d.x < -EPSILON && p.x >= rect.maxX + radius) {
+    const t = (rect.maxX + radius - p.x) / d.x;
+    const y = p.y + d.y * t;
+    if (y >= rect.minY && y <= rect.maxY) consider(t, { x: 1, y: 0 });
+  }
+  if (d.y > EPSILON && p.y <= rect.minY - radius) {
+    const t = (rect.minY - radius - p.y) / d.y;
+    const x = p.x + d.x * t;
+    if (x >= rect.minX && x <= rect.maxX) consider(t, { x: 0, y: -1 });
+  } else if (d.y < -EPSILON && p.y >= rect.maxY + radius) {
+    const t = (rect.maxY + radius - p.y) / d.y;
+    const x = p.x + d.x * t;
+    if (x >= rect.minX && x <= rect.maxX) consider(t, { x: 0, y: 1 });
+  }
+
+  // Rounded corners
+  const corners: Vec2[] = [
+    { x: rect.minX, y: rect.minY },
+    { x: rect.maxX, y: rect.minY },
+    { x: rect.minX, y: rect.maxY },
+    { x: rect.maxX, y: rect.maxY }
+  ];
+  corners.forEach(corner => {
+    const t = rayCircle(p, d, corner, radius);
+    if (t === null) return;
+    const hx = p.x + d.x * t;
+    const hy = p.y + d.y * t;
+    // Only the quarter of the circle outside the rect's face spans counts
+    const outsideX = corner.x === rect.minX ? hx <= rect.minX : hx >= rect.maxX;
+    const outsideY = corner.y === rect.minY ? hy <= rect.minY : hy >= rect.maxY;
+    if (!outsideX || !outsideY) return;
+    consider(t, { x: (hx - corner.x) / radius, y: (hy - corner.y) / radius });
+  });
+
+  return best;
+};
+
+// Time (fraction of d) at which a circle reaches a horizontal wall, or null
+export const sweepCircleWall = (p: Vec2, d: Vec2, radius: number, minY: number, maxY: number): SweepHit | null => {
+  if (d.y < 0) {
+    const limit = minY + radius;
+    if (p.y <= limit) return { t: 0, normal: { x: 0, y: 1 } };
+    const t = (limit - p.y) / d.y;
+    if (t <= 1) return { t, normal: { x: 0, y: 1 } };
+  } else if (d.y > 0) {
+    const limit = maxY - radius;
+    if (p.y >= limit) return { t: 0, normal: { x: 0, y: -1 } };
+    const t = (limit - p.y) / d.y;
+    if (t <= 1) return { t, normal: { x: 0, y: -1 } };
+  }
+  return null;
+};
+
+/**
+ * Sweep a circle of `radius` from `p` along `d` against a single point (or,
+ * with the radii added together, against another circle centred there).
+ * Overlapping and moving inwards reports t = 0, like sweepCircleRect.
+ */
+export const sweepCirclePoint = (p: Vec2, d: Vec2, radius: number, c: Vec2): SweepHit | null => {
+  const ox = p.x - c.x;
+  const oy = p.y - c.y;
+  const distSq = ox * ox + oy * oy;
+  if (distSq < radius * radius) {
+    const dist = Math.sqrt(distSq);
+    const normal = dist > EPSILON ? { x: ox / dist, y: oy / dist } : { x: 0, y: -1 };
+    return d.x * normal.x + d.y * normal.y < 0 ? { t: 0, normal } : null;
+  }
+
+  const t = rayCircle(p, d, c, radius);
+  if (t === null) return null;
+  return { t, normal: { x: (p.x + d.x * t - c.x) / radius, y: (p.y + d.y * t - c.y) / radius } };
+};
@@ -0,0 +1,125 @@
+import { CommentaryProviderId, CommentaryRequest, GameCommentary, MatchContext, PlayerId, PlayerProfile, TournamentContext } from '../types';
+import { INITIAL_SPEED } from './physicsEngine';
+import { colorName } from './themes';
+
+/**
+ * Anything that can turn a game event into an announcer line. Implementations
+ * throw on failure (missing key, HTTP error, abort); the CommentaryQueue falls
+ * back to the offline commentator so the booth never goes silent.
+ */
+export interface CommentaryProvider {
+  readonly id: CommentaryProviderId;
+  readonly label: string;
+  readonly available: boolean; // Configured well enough to try (e.g. has a key)
+  generate(request: CommentaryRequest, signal: AbortSignal): Promise<string>;
+}
+
+export interface CommentaryConfig {
+  provider: CommentaryProviderId | null; // null = pick the best configured one
+  apiUrl: string; // OpenAI-compatible base URL, e.g. http://localhost:8787/v1
+  model: string;
+  apiKey: string;
+}
+
+// Set in .env.local (see vite.config.ts)
+export const COMMENTARY_CONFIG: CommentaryConfig = {
+  provider: (process.env.COMMENTARY_PROVIDER as CommentaryProviderId) || null,
+  apiUrl: process.env.COMMENTARY_API_URL || '',
+  model: process.env.COMMENTARY_MODEL || '',
+  apiKey: process.env.COMMENTARY_API_KEY || ''
+};
+
+export const COMMENTATOR_PERSONA = "You are a futuristic sports announcer named 'Gemini-X'. You speak in short, punchy, high-energy bursts. Use words like 'Laser', 'Velocity', 'Cyber', 'Strike'. When match stats are given, call out the most striking one. Keep it under 20 words.";
+
+export const commentaryType = (request: CommentaryRequest): GameCommentary['type'] => {
+  switch (request.event) {
+    case 'intro': return 'intro';
+    case 'game_over': return 'game_over';
+    case 'score_p1':
+    case 'score_p2':
+    case 'match_point': return 'score';
+    default: return 'hype';
+  }
+};
+
+// "ALEX (orange)": the name to call, plus a colour word viewers can match to the table
+const describePlayer = (profile: PlayerProfile) => `${profile.name} (${colorName(profile.color)})`;
+
+// Ball speed as a multiple of a fresh serve, which reads better than widths per second
+const pace = (speed: number) => `${(speed / INITIAL_SPEED).toFixed(1)}x serve speed`;
+
+// Stats the announcer can pick from, as plain sentences
+const describeContext = (context: MatchContext, subject: PlayerId | undefined, names: Record<PlayerId, string>): string => {
+  const lines = [`Rally length: ${context.rally} hits (longest this match: ${context.longestRally}).`];
+  if (context.ballSpeed > 0) lines.push(`Ball speed: ${pace(context.ballSpeed)} (match top: ${pace(context.topSpeed)}).`);
+  if (Math.abs(context.momentum) < 0.25) lines.push('Momentum: even.');
+  else lines.push(`Momentum: with ${names[context.momentum > 0 ? 'p1' : 'p2']}.`);
+  if (context.streak && context.streak.points >= 2) {
+    lines.push(`${names[context.streak.player]} has won ${context.streak.points} points in a row.`);
+  }
+  if (context.finish === 'edge_snipe') lines.push('The point was won with a razor-sharp edge-of-paddle snipe.');
+  if (context.finish === 'smash') lines.push('The point was won with a smash.');
+  if (context.finish === 'bank_shot') lines.push('The point was won with a bank shot off the wall.');
+  if (context.comebackFrom > 0 && subject) {
+    lines.push(`${names[subject]} has just fought back from ${context.comebackFrom} points down.`);
+  }
+  return lines.join(' ');
+};
+
+// Where the match sits in a tournament; `winner` is set once it's over
+const describeTournament = (tournament: TournamentContext, names: Record<PlayerId, string>, winner?: PlayerId): string => {
+  const lines = [`This is the ${tournament.stage} of the "${tournament.name}" tournament.`];
+  (['p1', 'p2'] as PlayerId[]).forEach(id => {
+    const { wins, losses } = tournament.records[id];
+    if (wins > 0 && losses === 0) lines.push(`${names[id]} is on an undefeated run (${wins}-0).`);
+  });
+  if (!winner) {
+    if (tournament.crowns.p1 && tournament.crowns.p2) lines.push('The winner takes the title.');
+    if (tournament.eliminates.p1 && tournament.eliminates.p2) lines.push('The loser is out.');
+  } else {
+    const loser: PlayerId = winner === 'p1' ? 'p2' : 'p1';
+    if (tournament.crowns[winner]) lines.push(`${names[winner]} is the tournament champion.`);
+    if (tournament.eliminates[loser]) lines.push(`${names[loser]} is eliminated.`);
+  }
+  return lines.join(' ');
+};
+
+// The user prompt shared by every LLM-backed provider
+export const buildCommentaryPrompt = ({ event, scoreP1, scoreP2, player, players, context, tournament, sets }: CommentaryRequest): string => {
+  const names = { p1: describePlayer(players.p1), p2: describePlayer(players.p2) };
+  const subject = event === 'score_p1' ? 'p1' : event === 'score_p2' ? 'p2' : player;
+  const stats = context ? ` ${describeContext(context, subject, names)}` : '';
+  const scoreContext = `Current score: ${names.p1} ${scoreP1} - ${scoreP2} ${names.p2}.${stats}`;
+  const name = names[player ?? 'p1'];
+
+  switch (event) {
+    case 'intro':
+      if (tournament) {
+        return `${describeTournament(tournament, names)} Give a short, high-energy, 1-sentence intro for this futuristic neon air hockey match between ${names.p1} and ${names.p2} that mentions the stage.`;
+      }
+      return `Give a short, high-energy, 1-sentence intro for a futuristic neon air hockey match between ${names.p1} and ${names.p2}.`;
+    case 'score_p1':
+      return `${names.p1} just scored! ${scoreContext} Give a short, 1-sentence excited sci-fi sports commentary praising ${players.p1.name}.`;
+    case 'score_p2':
+      return `${names.p2} just scored! ${scoreContext} Give a short, 1-sentence excited sci-fi sports commentary praising ${players.p2.name}.`;
+    case 'game_over': {
+      const winner: PlayerId = scoreP1 > scoreP2 ? 'p1' : 'p2';
+      const stage = tournament ? ` ${describeTournament(tournament, names, winner)}` : '';
+      const final = sets
+        ? `Sets won: ${names.p1} ${sets.p1} - ${sets.p2} ${names.p2}. Final set: ${names.p1} ${scoreP1} - ${scoreP2} ${names.p2}.`
+        : scoreContext;
+      return `Game Over! ${names[winner]} wins! ${final}${stage} Give a 1-sentence concluding remark.`;
+    }
+    case 'match_point':
+      if (!player) {
+        return `Both ${names.p1} and ${names.p2} are on match point: the next goal wins! ${scoreContext} Give a short, 1-sentence tense sci-fi sports call.`;
+      }
+      return `${name} is on match point! ${scoreContext} Give a short, 1-sentence tense sci-fi sports call.`;
+    case 'rally':
+      return `The rally is still going! ${scoreContext} Give a short, 1-sentence excited call about the long rally.`;
+    case 'top_speed':
+      return `${name} just hit the fastest shot of the match! ${scoreContext} Give a short, 1-sentence call about the raw speed.`;
+    case 'scoreless':
+      return `Nobody has scored for a long stretch. ${scoreContext} Give a short, 1-sentence call building the tension.`;
+  }
+};
@@ -0,0 +1,183 @@
+import { CommentaryEvent, CommentaryRequest, GameCommentary } from '../types';
+import { CommentaryProvider, COMMENTARY_CONFIG, commentaryType } from './commentaryProvider';
+import { GeminiCommentator } from './geminiService';
+import { OpenAiCommentator } from './openAiCommentator';
+import { TemplateCommentator } from './templateCommentator';
+
+export interface CommentaryQueueOptions {
+  minIntervalMs: number; // Rate limit between provider calls
+  timeoutMs: number; // Give up on the provider and use the offline line instead
+  maxAgeMs: number; // Queued events older than this are no longer worth saying
+  failureCooldownMs: number; // After a provider failure, go straight to offline for this long
+}
+
+export const DEFAULT_QUEUE_OPTIONS: CommentaryQueueOptions = {
+  minIntervalMs: 2000,
+  timeoutMs: 4000,
+  maxAgeMs: 6000,
+  failureCooldownMs: 30000
+};
+
+// Higher goes first; 0 = hype, where only the latest pending line is worth keeping
+const PRIORITY: Record<CommentaryEvent, number> = {
+  game_over: 3,
+  score_p1: 2,
+  score_p2: 2,
+  match_point: 2,
+  intro: 1,
+  rally: 0,
+  top_speed: 0,
+  scoreless: 0
+};
+
+interface QueuedRequest {
+  request: CommentaryRequest;
+  enqueuedMs: number;
+  scoreVersion: number; // Score the line was written for; older lines are never shown
+}
+
+// Pick the provider from COMMENTARY_CONFIG: explicit choice, else a configured endpoint, else Gemini if keyed
+export const createConfiguredProvider = (config = COMMENTARY_CONFIG): CommentaryProvider => {
+  const openAi = new OpenAiCommentator(config.apiUrl, config.model, config.apiKey);
+  const gemini = new GeminiCommentator();
+  switch (config.provider) {
+    case 'openai': return openAi;
+    case 'gemini': return gemini;
+    case 'offline': return new TemplateCommentator();
+    default:
+      if (openAi.available) return openAi;
+      if (gemini.available) return gemini;
+      return new TemplateCommentator();
+  }
+};
+
+/**
+ * Serialises commentary requests to a (possibly slow, possibly failing)
+ * provider. One request is in flight at a time; newer events outrank and
+ * replace stale queued ones, calls are rate limited and timed out, and any
+ * failure is covered by the offline commentator. A line written for a score
+ * that has since changed is dropped rather than shown.
+ */
+export class CommentaryQueue {
+  public readonly provider: CommentaryProvider;
+  private fallback: TemplateCommentator;
+  private onLine: (commentary: GameCommentary) => void;
+  private options: CommentaryQueueOptions;
+
+  private pending: QueuedRequest[] = [];
+  private inFlight = false;
+  private lastCallMs = -Infinity;
+  private failedAtMs = -Infinity;
+  private scoreKey = '';
+  private scoreVersion = 0;
+  private epoch = 0; // Bumped on reset so late answers from an old match are ignored
+  private finished = false; // Game over line requested: nothing else gets said until reset
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    provider: CommentaryProvider,
+    onLine: (commentary: GameCommentary) => void,
+    options: CommentaryQueueOptions = DEFAULT_QUEUE_OPTIONS,
+    fallback: TemplateCommentator = new TemplateCommentator()
+  ) {
+    this.provider = provider;
+    this.onLine = onLine;
+    this.options = options;
+    this.fallback = fallback;
+  }
+
+  public push(request: CommentaryRequest) {
+    if (this.finished) return;
+    const hype = PRIORITY[request.event] === 0;
+    if (request.event === 'game_over') {
+      this.finished = true;
+      this.pending = []; // The final word replaces anything still waiting
+    }
+
+    const key = `${request.scoreP1}-${request.scoreP2}`;
+    if (key !== this.scoreKey) {
+      this.scoreKey = key;
+      this.scoreVersion++;
+    }
+
+    // Merge: anything queued for an older score is stale now
+    this.pending = this.pending.filter(item =>
+      item.scoreVersion === this.scoreVersion && !(hype && PRIORITY[item.request.event] === 0)
+    );
+    this.pending.push({ request, enqueuedMs: Date.now(), scoreVersion: this.scoreVersion });
+    this.pending.sort((a, b) => PRIORITY[b.request.event] - PRIORITY[a.request.event] || a.enqueuedMs - b.enqueuedMs);
+    this.pump();
+  }
+
+  // New match: forget everything queued or in flight
+  public reset() {
+    this.epoch++;
+    this.pending = [];
+    this.scoreKey = '';
+    this.finished = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private pump() {
+    if (this.inFlight || this.timer || this.pending.length === 0) return;
+
+    const wait = this.lastCallMs + this.options.minIntervalMs - Date.now();
+    if (wait > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, wait);
+      return;
+    }
+
+    const item = this.pending.shift()!;
+    const expired = Date.now() - item.enqueuedMs > this.options.maxAgeMs && item.request.event !== 'game_over';
+    if (expired) {
+      this.pump();
+      return;
+    }
+    this.say(item);
+  }
+
+  private async say(item: QueuedRequest) {
+    const epoch = this.epoch;
+    this.inFlight = true;
+    this.lastCallMs = Date.now();
+    const text = await this.generate(item.request);
+    this.inFlight = false;
+
+    const current = epoch === this.epoch && item.scoreVersion === this.scoreVersion &&
+      (!this.finished || item.request.event === 'game_over');
+    if (current) {
+      this.onLine({ text, timestamp: Date.now(), type: commentaryType(item.request) });
+    }
+    this.pump();
+  }
+
+  private async generate(request: CommentaryRequest): Promise<string> {
+    const coolingDown = Date.now() - this.failedAtMs < this.options.failureCooldownMs;
+    if (!this.provider.available || this.provider === this.fallback || coolingDown) {
+      return this.fallback.line(request);
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Commentary timed out after ${this.options.timeoutMs}ms`));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([this.provider.generate(request, controller.signal), timeout]);
+    } catch (error) {
+      console.warn(`${this.provider.label} commentary failed, using offline commentator:`, error);
+      this.failedAtMs = Date.now();
+      return this.fallback.line(request);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
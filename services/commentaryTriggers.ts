@@ -0,0 +1,41 @@
+import { CommentaryEvent, MatchContext, PlayerId, PlayerProfile, TournamentContext } from '../types';
+import { GameEventBus } from './gameEvents';
+import { CommentaryQueue } from './commentaryQueue';
+import { defaultPlayers } from './themes';
+
+// Which game events the announcer talks about. Returns an unsubscribe function.
+// `tournament` is read as each match starts: the bracket stage, when the match is part of one
+export const subscribeCommentary = (
+  bus: GameEventBus,
+  queue: CommentaryQueue,
+  tournament: () => TournamentContext | null = () => null
+): (() => void) => {
+  let bracket: TournamentContext | undefined; // The match in progress, as the bracket stood when it started
+  let players: Record<PlayerId, PlayerProfile> = defaultPlayers(); // Whoever the last match_start named
+  const say = (event: CommentaryEvent, context: MatchContext, player?: PlayerId) =>
+    queue.push({ event, scoreP1: context.scores.p1, scoreP2: context.scores.p2, player, players, context });
+
+  const unsubscribers = [
+    bus.on('match_start', e => {
+      players = e.players;
+      bracket = tournament() ?? undefined;
+      queue.reset();
+      queue.push({ event: 'intro', scoreP1: 0, scoreP2: 0, players, tournament: bracket });
+    }),
+    // Snipes and comebacks arrive in the goal's context, so they're one line, not three
+    bus.on('goal', e => say(e.scorer === 'p1' ? 'score_p1' : 'score_p2', e.context)),
+    bus.on('match_point', e => say('match_point', e.context, e.player ?? undefined)),
+    bus.on('rally_milestone', e => say('rally', e.context)),
+    bus.on('top_speed', e => say('top_speed', e.context, e.player)),
+    bus.on('scoreless_stretch', e => say('scoreless', e.context)),
+    bus.on('match_end', ({ result }) => queue.push({
+      event: 'game_over',
+      scoreP1: result.scores.p1,
+      scoreP2: result.scores.p2,
+      sets: result.rules.setsToWin > 1 ? result.sets : undefined,
+      players,
+      tournament: bracket
+    }))
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
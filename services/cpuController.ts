@@ -0,0 +1,108 @@
+import { BallState, CpuDifficulty, PlayerId } from '../types';
+import { PADDLE_HEIGHT, PADDLE_WIDTH, PADDLE_INSET, BALL_SIZE } from './physicsEngine';
+
+export interface CpuProfile {
+  label: string;
+  reactionSeconds: number; // Delay before reacting to a ball heading our way
+  maxPaddleSpeed: number; // Heights per second
+  aimError: number; // Max random miss at the intercept, in heights
+  edgeAim: number; // 0 = always centre hits, 1 = aims for the very edge of the paddle
+  readsBounces: boolean; // false = chases the ball's current height instead of predicting
+}
+
+// --- Difficulty Presets ---
+export const CPU_PROFILES: Record<CpuDifficulty, CpuProfile> = {
+  easy: { label: 'Easy', reactionSeconds: 0.35, maxPaddleSpeed: 1.2, aimError: 0.08, edgeAim: 0, readsBounces: false },
+  normal: { label: 'Normal', reactionSeconds: 0.22, maxPaddleSpeed: 1.8, aimError: 0.06, edgeAim: 0.3, readsBounces: true },
+  hard: { label: 'Hard', reactionSeconds: 0.16, maxPaddleSpeed: 2.2, aimError: 0.035, edgeAim: 0.6, readsBounces: true },
+  insane: { label: 'Insane', reactionSeconds: 0.06, maxPaddleSpeed: 4, aimError: 0.01, edgeAim: 0.85, readsBounces: true }
+};
+
+/**
+ * Where will the ball's centre be when it reaches the given paddle's face?
+ * Folds the straight-line path back into the table to account for wall bounces.
+ * Returns null if the ball is moving away from that paddle.
+ */
+export const predictInterceptY = (ball: BallState, side: PlayerId, aspect: number, ballRadius = BALL_SIZE): number | null => {
+  const direction = side === 'p1' ? -1 : 1;
+  if (ball.vx * direction <= 0) return null;
+
+  // Face of the paddle, offset by the ball radius (aspect-correct, in widths)
+  const faceX = side === 'p1'
+    ? PADDLE_INSET + PADDLE_WIDTH + ballRadius / aspect
+    : 1 - PADDLE_INSET - PADDLE_WIDTH - ballRadius / aspect;
+  const t = (faceX - ball.x) / ball.vx;
+  if (t < 0) return ball.y;
+
+  // Reflect the unbounded y into the band the ball centre can occupy
+  const span = 1 - 2 * ballRadius;
+  const unfolded = ball.y + ball.vy * t - ballRadius;
+  const period = 2 * span;
+  const m = ((unfolded % period) + period) % period;
+  return ballRadius + (m > span ? period - m : m);
+};
+
+export class CpuController {
+  public side: PlayerId;
+  public profile: CpuProfile;
+
+  private y = 0.5;
+  private reactionTimer = 0;
+  private plannedY: number | null = null;
+  private trackedBall: BallState | null = null;
+  private wasApproaching = false;
+
+  constructor(side: PlayerId, difficulty: CpuDifficulty) {
+    this.side = side;
+    this.profile = CPU_PROFILES[difficulty];
+  }
+
+  /**
+   * Advance the CPU by `dt` seconds and return where its paddle should be.
+   * `opponentY` is used to pick which edge to aim with. The ball and paddle
+   * sizes come from the match's gameplay settings.
+   */
+  public update(dt: number, ball: BallState, opponentY: number, aspect: number, ballRadius = BALL_SIZE, paddleLength = PADDLE_HEIGHT): number {
+    const direction = this.side === 'p1' ? -1 : 1;
+    const approaching = ball.vx * direction > 0;
+
+    // A new serve or a return from the opponent: take a moment to react
+    if (ball !== this.trackedBall || (approaching && !this.wasApproaching)) {
+      this.trackedBall = ball;
+      this.reactionTimer = this.profile.reactionSeconds;
+      this.plannedY = null;
+    }
+    this.wasApproaching = approaching;
+    this.reactionTimer = Math.max(0, this.reactionTimer - dt);
+
+    let targetY = this.y; // Still reacting: hold position
+    if (this.reactionTimer === 0) {
+      if (!approaching) {
+        // Ball going away: drift back towards the middle
+        targetY = 0.5;
+      } else if (!this.profile.readsBounces) {
+        targetY = ball.y;
+      } else {
+        if (this.plannedY === null) this.plannedY = this.plan(ball, opponentY, aspect, ballRadius, paddleLength);
+        targetY = this.plannedY;
+      }
+    }
+
+    // Capped paddle speed
+    const maxStep = this.profile.maxPaddleSpeed * dt;
+    this.y += Math.max(-maxStep, Math.min(maxStep, targetY - this.y));
+    return this.y;
+  }
+
+  private plan(ball: BallState, opponentY: number, aspect: number, ballRadius: number, paddleLength: number): number {
+    const intercept = predictInterceptY(ball, this.side, aspect, ballRadius) ?? ball.y;
+    const error = (Math.random() * 2 - 1) * this.profile.aimError;
+
+    // Hit with the edge that sends the ball away from the opponent's paddle:
+    // striking below centre (intersectY > 0) sends it downwards
+    const sendDown = opponentY < 0.5;
+    const edgeOffset = this.profile.edgeAim * (paddleLength / 2) * (sendDown ? 1 : -1);
+
+    return intercept + error - edgeOffset;
+  }
+}
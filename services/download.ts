@@ -0,0 +1,13 @@
+// Save text as a file through a temporary object URL
+export const downloadFile = (filename: string, contents: string, type: string) => {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Filename-safe timestamp from an ISO date, e.g. 2025-01-31-18-04-05
+export const fileStamp = (iso: string) => iso.slice(0, 19).replace(/[:T]/g, '-');
@@ -0,0 +1,63 @@
+import { EffectKind, MatchContext, MatchResult, PaddleId, PlayerId, PowerUpKind } from '../types';
+
+// Everything the game announces while a match runs. Commentary, sound and stats subscribe to these.
+export type GameEvent =
+  | { type: 'match_start'; players: Record<PlayerId, { name: string; color: string }> }
+  | { type: 'match_end'; result: MatchResult }
+  | { type: 'paddle_hit'; player: PlayerId; paddle: PaddleId; intersectY: number; speed: number; smash: boolean; rally: number; x: number; y: number } // x, y: the ball's, normalized
+  | { type: 'wall_bounce'; x: number; y: number; speed: number }
+  | { type: 'serve'; server: PlayerId }
+  | { type: 'countdown'; count: number } // 3-2-1 before play resumes, then 0 as it does
+  | { type: 'goal'; scorer: PlayerId; server: PlayerId; y: number; at: { x: number; y: number }; context: MatchContext } // y: where it crossed the line; at: where the ball left the table
+  | { type: 'rally_milestone'; rally: number; context: MatchContext }
+  | { type: 'top_speed'; player: PlayerId; speed: number; context: MatchContext }
+  | { type: 'edge_snipe'; player: PlayerId; intersectY: number }
+  | { type: 'comeback'; player: PlayerId; deficit: number }
+  | { type: 'match_point'; player: PlayerId | null; context: MatchContext } // null: both sides are, so the next goal wins
+  | { type: 'scoreless_stretch'; seconds: number; context: MatchContext }
+  | { type: 'power_up'; player: PlayerId; kind: PowerUpKind } // player: who collected it
+  | { type: 'power_up_end'; player: PlayerId; kind: EffectKind }
+  | { type: 'hand_lost'; player: PlayerId }
+  | { type: 'hand_regained'; player: PlayerId; afterMs: number };
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+type Handler = (event: GameEvent) => void;
+
+/**
+ * Synchronous publish/subscribe for GameEvents. Handlers run in subscription
+ * order; one that throws is logged and skipped so it can't stall the game loop.
+ */
+export class GameEventBus {
+  private handlers = new Map<GameEventType | '*', Set<Handler>>();
+
+  // Returns an unsubscribe function
+  public on<T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void): () => void {
+    return this.add(type, handler as Handler);
+  }
+
+  public onAny(handler: (event: GameEvent) => void): () => void {
+    return this.add('*', handler);
+  }
+
+  public emit(event: GameEvent) {
+    const run = (handler: Handler) => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`GameEvent handler for '${event.type}' failed:`, error);
+      }
+    };
+    this.handlers.get(event.type)?.forEach(run);
+    this.handlers.get('*')?.forEach(run);
+  }
+
+  private add(key: GameEventType | '*', handler: Handler): () => void {
+    if (!this.handlers.has(key)) this.handlers.set(key, new Set());
+    this.handlers.get(key)!.add(handler);
+    return () => {
+      this.handlers.get(key)?.delete(handler);
+    };
+  }
+}
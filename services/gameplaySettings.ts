@@ -0,0 +1,148 @@
+import { GameplaySettings } from '../types';
+
+const STORAGE_KEY = 'neon-hand-hockey.gameplay';
+const STORAGE_VERSION = 1;
+
+export interface GameplayPreset {
+  id: string;
+  label: string;
+  description: string;
+  settings: GameplaySettings;
+}
+
+export const GAMEPLAY_PRESETS: GameplayPreset[] = [
+  {
+    id: 'casual', label: 'Casual', description: 'Bigger paddles, a gentler ramp and a lower top speed',
+    settings: {
+      paddleHeight: 0.25, ballSize: 0.028, initialSpeed: 1.2, speedIncrement: 0.1, maxSpeed: 3.6,
+      maxReflectionAngle: 50, serveBoostPerGoal: 0.06, maxServeBoost: 0.8, detectBudgetMs: 20
+    }
+  },
+  {
+    id: 'arcade', label: 'Arcade', description: 'The classic Neon Hand Hockey feel',
+    settings: {
+      paddleHeight: 0.2, ballSize: 0.025, initialSpeed: 1.5, speedIncrement: 0.15, maxSpeed: 4.8,
+      maxReflectionAngle: 60, serveBoostPerGoal: 0.09, maxServeBoost: 1.2, detectBudgetMs: 20
+    }
+  },
+  {
+    id: 'pro', label: 'Pro', description: 'Small paddles, fast serves and sharp edge angles',
+    settings: {
+      paddleHeight: 0.15, ballSize: 0.02, initialSpeed: 2, speedIncrement: 0.2, maxSpeed: 6,
+      maxReflectionAngle: 70, serveBoostPerGoal: 0.12, maxServeBoost: 1.6, detectBudgetMs: 20
+    }
+  },
+  {
+    id: 'kids', label: 'Kids', description: 'Huge paddles and a big, slow ball that barely speeds up',
+    settings: {
+      paddleHeight: 0.32, ballSize: 0.035, initialSpeed: 0.9, speedIncrement: 0.05, maxSpeed: 2.4,
+      maxReflectionAngle: 40, serveBoostPerGoal: 0.03, maxServeBoost: 0.3, detectBudgetMs: 20
+    }
+  }
+];
+
+export const DEFAULT_GAMEPLAY: GameplaySettings = GAMEPLAY_PRESETS[1].settings;
+
+// How fast a ball is between a fresh serve (0) and the top speed (1) of these settings
+export const speedRatio = (speed: number, settings: GameplaySettings): number => {
+  const range = settings.maxSpeed - settings.initialSpeed;
+  return range > 0 ? Math.max(0, Math.min(1, (speed - settings.initialSpeed) / range)) : 1;
+};
+
+export interface GameplayField {
+  key: keyof GameplaySettings;
+  label: string;
+  param: string; // URL parameter name
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+// Everything the settings screen shows, and the range a stored or shared value is clamped to
+export const GAMEPLAY_FIELDS: GameplayField[] = [
+  { key: 'paddleHeight', label: 'Paddle size', param: 'paddle', min: 0.08, max: 0.4, step: 0.01, unit: 'of height' },
+  { key: 'ballSize', label: 'Ball size', param: 'ball', min: 0.01, max: 0.05, step: 0.001, unit: 'of height' },
+  { key: 'initialSpeed', label: 'Serve speed', param: 'serve', min: 0.5, max: 3, step: 0.1, unit: 'widths/s' },
+  { key: 'speedIncrement', label: 'Speed-up per hit', param: 'ramp', min: 0, max: 0.5, step: 0.01, unit: 'widths/s' },
+  { key: 'maxSpeed', label: 'Top speed', param: 'top', min: 1, max: 8, step: 0.1, unit: 'widths/s' },
+  { key: 'maxReflectionAngle', label: 'Edge angle', param: 'angle', min: 15, max: 80, step: 1, unit: '°' },
+  { key: 'serveBoostPerGoal', label: 'Serve boost per goal', param: 'boost', min: 0, max: 0.3, step: 0.01, unit: 'widths/s' },
+  { key: 'maxServeBoost', label: 'Serve boost cap', param: 'boostcap', min: 0, max: 3, step: 0.1, unit: 'widths/s' },
+  { key: 'detectBudgetMs', label: 'Tracking frame budget', param: 'budget', min: 10, max: 50, step: 1, unit: 'ms' }
+];
+
+const PRESET_PARAM = 'preset';
+
+const clampField = (field: GameplayField, value: number) => Math.max(field.min, Math.min(field.max, value));
+
+// Missing or out-of-range values fall back to (or are clamped towards) the base
+export const sanitizeGameplay = (value: Partial<Record<keyof GameplaySettings, unknown>>, base = DEFAULT_GAMEPLAY): GameplaySettings => {
+  const settings = { ...base };
+  GAMEPLAY_FIELDS.forEach(field => {
+    const raw = value[field.key];
+    if (typeof raw === 'number' && Number.isFinite(raw)) settings[field.key] = clampField(field, raw);
+  });
+  // A top speed below the serve speed would cap every serve
+  settings.maxSpeed = Math.max(settings.maxSpeed, settings.initialSpeed);
+  return settings;
+};
+
+// The preset these settings are exactly, or null for a custom mix
+export const matchingPreset = (settings: GameplaySettings): GameplayPreset | null =>
+  GAMEPLAY_PRESETS.find(preset => GAMEPLAY_FIELDS.every(field => preset.settings[field.key] === settings[field.key])) ?? null;
+
+// --- Shareable URLs ---
+// ?preset=pro, optionally with single values on top: ?preset=pro&paddle=0.2. Null when the URL has none
+export const gameplayFromUrl = (search: string): GameplaySettings | null => {
+  const params = new URLSearchParams(search);
+  const preset = GAMEPLAY_PRESETS.find(candidate => candidate.id === params.get(PRESET_PARAM));
+  const overrides: Partial<Record<keyof GameplaySettings, number>> = {};
+  GAMEPLAY_FIELDS.forEach(field => {
+    const raw = params.get(field.param);
+    if (raw !== null && raw.trim() !== '') overrides[field.key] = Number(raw);
+  });
+  if (!preset && Object.keys(overrides).length === 0) return null;
+  return sanitizeGameplay(overrides, preset?.settings);
+};
+
+// A link to this page that opens with these settings
+export const gameplayUrl = (settings: GameplaySettings, location: { origin: string; pathname: string }): string => {
+  const params = new URLSearchParams();
+  const preset = matchingPreset(settings);
+  if (preset) {
+    params.set(PRESET_PARAM, preset.id);
+  } else {
+    GAMEPLAY_FIELDS.forEach(field => params.set(field.param, String(settings[field.key])));
+  }
+  return `${location.origin}${location.pathname}?${params.toString()}`;
+};
+
+// The URL without any gameplay parameters, once they have been read
+export const stripGameplayParams = (search: string): string => {
+  const params = new URLSearchParams(search);
+  [PRESET_PARAM, ...GAMEPLAY_FIELDS.map(field => field.param)].forEach(param => params.delete(param));
+  const rest = params.toString();
+  return rest ? `?${rest}` : '';
+};
+
+// --- Storage (localStorage; a broken or missing entry reads as the defaults) ---
+export const loadGameplay = (): GameplaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored?.version === STORAGE_VERSION && stored.settings && typeof stored.settings === 'object') {
+      return sanitizeGameplay(stored.settings);
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return { ...DEFAULT_GAMEPLAY };
+};
+
+export const saveGameplay = (settings: GameplaySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, settings }));
+  } catch (error) {
+    console.warn('Could not save gameplay settings:', error);
+  }
+};
@@ -0,0 +1,160 @@
+import { GestureKind } from '../types';
+
+// Minimal landmark shape (matches MediaPipe's NormalizedLandmark)
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+type PoseGesture = Exclude<GestureKind, 'push'>;
+
+export interface GestureReading {
+  gesture: GestureKind | null;
+  confidence: number; // 0-1 for the active gesture
+  sinceMs: number; // When the active gesture started
+  stillSinceMs: number; // When the hand last moved faster than STILL_SPEED (or came into view)
+}
+
+// --- Landmark indices (MediaPipe hand model) ---
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const FINGERS: { pip: number; tip: number }[] = [
+  { pip: 6, tip: 8 }, // Index
+  { pip: 10, tip: 12 }, // Middle
+  { pip: 14, tip: 16 }, // Ring
+  { pip: 18, tip: 20 } // Pinky
+];
+
+// --- Thresholds ---
+const ENTER_CONFIDENCE = 0.75; // Confidence a pose must reach to start...
+const EXIT_CONFIDENCE = 0.4; // ...and fall below to end (hysteresis)
+const ENTER_FRAMES = 3; // Consecutive detections above ENTER_CONFIDENCE before it counts
+const PUSH_GROWTH_RATE = 1.6; // Hand size growth (log units per second) that counts as a push
+const PUSH_HOLD_MS = 300; // How long a push stays "active" after it fires
+const PUSH_COOLDOWN_MS = 600;
+const STILL_SPEED = 0.2; // Palm movement (fractions of the frame per second) below this counts as holding still
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+// Confidence per static pose, from the full 21-point landmark set
+export const scorePoses = (lm: Landmark[]): Record<PoseGesture, number> => {
+  const scale = dist(lm[WRIST], lm[MIDDLE_MCP]) || 1e-6; // Hand size, so scores are distance-independent
+
+  // Fingertip reach relative to its middle joint: > 1 extended, < 1 curled
+  const reach = FINGERS.map(f => dist(lm[WRIST], lm[f.tip]) / (dist(lm[WRIST], lm[f.pip]) || 1e-6));
+  const extended = reach.map(r => clamp01((r - 1.05) / 0.25));
+  const curled = reach.map(r => clamp01((1.1 - r) / 0.3));
+
+  const pinch = clamp01((0.55 - dist(lm[THUMB_TIP], lm[INDEX_TIP]) / scale) / 0.3);
+  const thumbOut = clamp01((dist(lm[THUMB_TIP], lm[MIDDLE_MCP]) / scale - 0.6) / 0.4);
+
+  return {
+    pinch,
+    open_palm: Math.min(...extended) * thumbOut * (1 - pinch),
+    fist: Math.min(...curled)
+  };
+};
+
+/**
+ * Per-hand gesture state machine. Static poses (pinch, open palm, fist) need a
+ * few consistent frames to start and a clear drop in confidence to end, so a
+ * single noisy detection never fires an action. A push is a momentary event
+ * detected from how fast the hand grows on camera (MediaPipe's z is relative to
+ * the wrist, so apparent size is our depth signal).
+ */
+export class GestureRecognizer {
+  private active: PoseGesture | null = null;
+  private activeConfidence = 0;
+  private sinceMs = 0;
+  private candidate: PoseGesture | null = null;
+  private candidateFrames = 0;
+  private lastScale: { value: number; timeMs: number } | null = null;
+  private lastPushMs = -Infinity;
+  private lastCentre: { x: number; y: number; timeMs: number } | null = null;
+  private stillSinceMs = 0;
+
+  public reset() {
+    this.active = null;
+    this.activeConfidence = 0;
+    this.candidate = null;
+    this.candidateFrames = 0;
+    this.lastScale = null;
+    this.lastCentre = null;
+  }
+
+  // Feed a detection (or null when the hand wasn't seen this frame)
+  public update(landmarks: Landmark[] | null, nowMs: number): GestureReading {
+    if (!landmarks || landmarks.length < 21) {
+      this.reset();
+      this.stillSinceMs = nowMs;
+      return this.reading(nowMs);
+    }
+
+    // Stillness: how fast the palm centre moves across the frame
+    const centre = landmarks[MIDDLE_MCP];
+    const last = this.lastCentre;
+    const dt = last ? (nowMs - last.timeMs) / 1000 : 0;
+    if (!last || (dt > 0 && Math.hypot(centre.x - last.x, centre.y - last.y) / dt > STILL_SPEED)) this.stillSinceMs = nowMs;
+    this.lastCentre = { x: centre.x, y: centre.y, timeMs: nowMs };
+
+    // Push: rapid growth in apparent hand size
+    const scale = dist(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+    if (this.lastScale && scale > 0 && this.lastScale.value > 0) {
+      const dt = (nowMs - this.lastScale.timeMs) / 1000;
+      const growth = dt > 0 ? Math.log(scale / this.lastScale.value) / dt : 0;
+      if (growth > PUSH_GROWTH_RATE && nowMs - this.lastPushMs > PUSH_COOLDOWN_MS) {
+        this.lastPushMs = nowMs;
+      }
+    }
+    this.lastScale = { value: scale, timeMs: nowMs };
+
+    // Static poses with hysteresis
+    const scores = scorePoses(landmarks);
+    if (this.active) {
+      this.activeConfidence = scores[this.active];
+      if (this.activeConfidence < EXIT_CONFIDENCE) this.active = null;
+    }
+    if (!this.active) {
+      const [best, confidence] = (Object.entries(scores) as [PoseGesture, number][])
+        .reduce((a, b) => (b[1] > a[1] ? b : a));
+      if (confidence >= ENTER_CONFIDENCE) {
+        this.candidateFrames = best === this.candidate ? this.candidateFrames + 1 : 1;
+        this.candidate = best;
+        if (this.candidateFrames >= ENTER_FRAMES) {
+          this.active = best;
+          this.activeConfidence = confidence;
+          this.sinceMs = nowMs;
+          this.candidate = null;
+          this.candidateFrames = 0;
+        }
+      } else {
+        this.candidate = null;
+        this.candidateFrames = 0;
+      }
+    }
+
+    return this.reading(nowMs);
+  }
+
+  // A push shows as the active gesture briefly unless a static pose is held
+  private reading(nowMs: number): GestureReading {
+    if (!this.active && nowMs - this.lastPushMs < PUSH_HOLD_MS) {
+      return { gesture: 'push', confidence: 1, sinceMs: this.lastPushMs, stillSinceMs: this.stillSinceMs };
+    }
+    return {
+      gesture: this.active,
+      confidence: this.active ? this.activeConfidence : 0,
+      sinceMs: this.sinceMs,
+      stillSinceMs: this.stillSinceMs
+    };
+  }
+
+  // True if a push fired within the last `windowMs`
+  public pushedWithin(nowMs: number, windowMs = PUSH_HOLD_MS): boolean {
+    return nowMs - this.lastPushMs < windowMs;
+  }
+}
@@ -0,0 +1,167 @@
+import { AssignmentPolicy, PaddleId, PlayerId } from '../types';
+import { teamOf } from './physicsEngine';
+
+export type Handedness = 'Left' | 'Right';
+
+// A detected hand in mirrored screen space (x: 0 = left edge of what the players see)
+export interface DetectedHand {
+  x: number;
+  y: number;
+  handedness: Handedness | null; // The person's actual hand, already corrected for mirroring
+}
+
+export const ASSIGNMENT_POLICIES: { id: AssignmentPolicy; label: string }[] = [
+  { id: 'side', label: 'Left / Right Half' },
+  { id: 'handedness', label: 'Left Hand vs Right Hand' },
+  { id: 'first_claimed', label: 'First Claimed' }
+];
+
+const CONTINUITY_WINDOW_MS = 150; // Seen this recently = same hand, only small jumps allowed
+const MAX_FRAME_JUMP = 0.25; // Normalized distance a tracked hand can move between detections
+const REACQUIRE_MS = 1500; // How long a player's claim survives occlusion
+const REACQUIRE_RADIUS = 0.4; // How far from where it vanished a hand may reappear and keep its claim
+const HANDEDNESS_MISMATCH_COST = 0.2; // Extra distance charged for swapping left/right identity
+
+const SIDE_CENTRE: Record<PlayerId, number> = { p1: 0.25, p2: 0.75 };
+// Doubles: each team's half is split between its back (outer) and front (inner) player
+const DOUBLES_CENTRE: Record<PaddleId, number> = { p1: 0.125, p3: 0.375, p4: 0.625, p2: 0.875 };
+const POLICY_HAND: Record<PlayerId, Handedness> = { p1: 'Left', p2: 'Right' };
+
+interface Track {
+  x: number;
+  y: number;
+  handedness: Handedness | null;
+  lastSeenMs: number;
+}
+
+interface Pairing {
+  player: PaddleId;
+  hand: number;
+  cost: number;
+}
+
+// Lowest total-cost one-to-one matching between players and hands (inputs are tiny, so exhaustive)
+const bestMatching = (players: PaddleId[], handCount: number, cost: (player: PaddleId, hand: number) => number): Pairing[] => {
+  let best: Pairing[] = [];
+  let bestScore = { count: 0, cost: Infinity };
+  const used = new Set<number>();
+
+  const search = (index: number, chosen: Pairing[], total: number) => {
+    if (index === players.length) {
+      // Prefer matching more players, then lower cost
+      if (chosen.length > bestScore.count || (chosen.length === bestScore.count && total < bestScore.cost)) {
+        best = [...chosen];
+        bestScore = { count: chosen.length, cost: total };
+      }
+      return;
+    }
+    const player = players[index];
+    for (let hand = 0; hand < handCount; hand++) {
+      if (used.has(hand)) continue;
+      const c = cost(player, hand);
+      if (!Number.isFinite(c)) continue;
+      used.add(hand);
+      chosen.push({ player, hand, cost: c });
+      search(index + 1, chosen, total + c);
+      chosen.pop();
+      used.delete(hand);
+    }
+    search(index + 1, chosen, total); // Leave this player without a hand
+  };
+
+  search(0, [], 0);
+  return best;
+};
+
+/**
+ * Decides which detected hand drives which paddle. A hand that has claimed a
+ * player stays locked to them (even across the centre line) by nearest-neighbour
+ * continuity; only unclaimed players pick up new hands, using the policy.
+ */
+export class HandAssigner {
+  public policy: AssignmentPolicy;
+  private tracks: Partial<Record<PaddleId, Track>> = {};
+
+  constructor(policy: AssignmentPolicy) {
+    this.policy = policy;
+  }
+
+  public reset(policy: AssignmentPolicy = this.policy) {
+    this.policy = policy;
+    this.tracks = {};
+  }
+
+  /**
+   * Returns, for each input hand, the player it controls (or null).
+   * `players` lists the paddles that take hand input this frame.
+   */
+  public assign(hands: DetectedHand[], players: PaddleId[], nowMs: number): (PaddleId | null)[] {
+    const result: (PaddleId | null)[] = hands.map(() => null);
+
+    // Forget claims that have been occluded for too long
+    (Object.keys(this.tracks) as PaddleId[]).forEach(id => {
+      if (!players.includes(id) || nowMs - this.tracks[id]!.lastSeenMs > REACQUIRE_MS) delete this.tracks[id];
+    });
+
+    // 1. Continuity: claimed players keep the hand nearest to where theirs was
+    const tracked = players.filter(id => this.tracks[id]);
+    const continued = bestMatching(tracked, hands.length, (id, i) => {
+      const track = this.tracks[id]!;
+      const hand = hands[i];
+      const recent = nowMs - track.lastSeenMs <= CONTINUITY_WINDOW_MS;
+      const distance = Math.hypot(hand.x - track.x, hand.y - track.y);
+      if (distance > (recent ? MAX_FRAME_JUMP : REACQUIRE_RADIUS)) return Infinity;
+      const mismatch = track.handedness && hand.handedness && track.handedness !== hand.handedness;
+      return distance + (mismatch ? HANDEDNESS_MISMATCH_COST : 0);
+    });
+    continued.forEach(({ player, hand }) => { result[hand] = player; });
+
+    // 2. Claims: players with no live track pick up a free hand according to the policy
+    const unclaimed = players.filter(id => !this.tracks[id]);
+    const freeHands = hands.map((_, i) => i).filter(i => result[i] === null);
+    const soloPlayer = players.length === 1;
+    const doubles = players.some(id => id === 'p3' || id === 'p4');
+    const claimed = bestMatching(unclaimed, freeHands.length, (id, k) =>
+      this.claimCost(id, hands[freeHands[k]], soloPlayer, doubles)
+    );
+    claimed.forEach(({ player, hand }) => { result[freeHands[hand]] = player; });
+
+    // Update tracks with this frame's positions
+    result.forEach((player, i) => {
+      if (!player) return;
+      const hand = hands[i];
+      const previous = this.tracks[player];
+      this.tracks[player] = {
+        x: hand.x,
+        y: hand.y,
+        handedness: hand.handedness ?? previous?.handedness ?? null,
+        lastSeenMs: nowMs
+      };
+    });
+
+    return result;
+  }
+
+  // Cost for an unclaimed player to take a new hand; Infinity = not allowed
+  private claimCost(id: PaddleId, hand: DetectedHand, soloPlayer: boolean, doubles: boolean): number {
+    const sideDistance = Math.abs(hand.x - (doubles ? DOUBLES_CENTRE[id] : SIDE_CENTRE[teamOf(id)]));
+    // One hand each can't tell four players apart, so doubles always claims by position
+    const policy = doubles && this.policy === 'handedness' ? 'side' : this.policy;
+
+    switch (policy) {
+      case 'side': {
+        const onSide = teamOf(id) === 'p1' ? hand.x < 0.5 : hand.x >= 0.5;
+        // A lone player may reach across; otherwise each half belongs to its player
+        return onSide || soloPlayer ? sideDistance : Infinity;
+      }
+      case 'handedness': {
+        if (hand.handedness === POLICY_HAND[teamOf(id)]) return sideDistance;
+        // Unknown handedness falls back to position; wrong hand only if nobody else needs it
+        if (hand.handedness === null || soloPlayer) return 1 + sideDistance;
+        return Infinity;
+      }
+      case 'first_claimed':
+        return sideDistance;
+    }
+  }
+}
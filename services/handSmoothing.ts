@@ -0,0 +1,121 @@
+import { PlayerId, SmoothingSettings } from '../types';
+
+export const DEFAULT_SMOOTHING: SmoothingSettings = {
+  minCutoff: 1.2, // Hz - lower = steadier when the hand is still
+  beta: 4, // Higher = less lag when the hand moves fast
+  dCutoff: 1, // Hz - cutoff for the speed estimate itself
+  predictionMs: 40 // How far ahead to extrapolate to hide detection latency
+};
+
+export const DEFAULT_PLAYER_SMOOTHING: Record<PlayerId, SmoothingSettings> = {
+  p1: { ...DEFAULT_SMOOTHING },
+  p2: { ...DEFAULT_SMOOTHING }
+};
+
+const MAX_EXTRAPOLATION_MS = 120; // Never extrapolate further than this past the last detection
+const REACQUIRE_GAP_MS = 250; // A longer gap than this restarts the filter from scratch
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One-Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with
+ * speed, so it removes jitter at rest without adding lag to fast movements.
+ */
+export class OneEuroFilter {
+  public minCutoff: number;
+  public beta: number;
+  public dCutoff: number;
+
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  constructor(minCutoff: number, beta: number, dCutoff: number) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.dCutoff = dCutoff;
+  }
+
+  // Filtered rate of change, in units per second
+  public get velocity(): number {
+    return this.derivative;
+  }
+
+  public reset() {
+    this.value = null;
+    this.derivative = 0;
+  }
+
+  // timeSec must increase between calls
+  public filter(raw: number, timeSec: number): number {
+    if (this.value === null) {
+      this.value = raw;
+      this.lastTime = timeSec;
+      return raw;
+    }
+
+    const dt = timeSec - this.lastTime;
+    if (dt <= 0) return this.value;
+    this.lastTime = timeSec;
+
+    const rawDerivative = (raw - this.value) / dt;
+    const dAlpha = smoothingFactor(this.dCutoff, dt);
+    this.derivative += dAlpha * (rawDerivative - this.derivative);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    this.value += alpha * (raw - this.value);
+    return this.value;
+  }
+}
+
+/**
+ * Smooths one player's hand height between `VisionService.detect` results and
+ * extrapolates it on render frames so the paddle neither shakes nor lags.
+ */
+export class HandSmoother {
+  private filter: OneEuroFilter;
+  private predictionMs: number;
+  private filtered: number | null = null;
+  private lastSampleMs = 0;
+
+  constructor(settings: SmoothingSettings = DEFAULT_SMOOTHING) {
+    this.filter = new OneEuroFilter(settings.minCutoff, settings.beta, settings.dCutoff);
+    this.predictionMs = settings.predictionMs;
+  }
+
+  public configure(settings: SmoothingSettings) {
+    this.filter.minCutoff = settings.minCutoff;
+    this.filter.beta = settings.beta;
+    this.filter.dCutoff = settings.dCutoff;
+    this.predictionMs = settings.predictionMs;
+  }
+
+  public reset() {
+    this.filter.reset();
+    this.filtered = null;
+  }
+
+  public get hasSample(): boolean {
+    return this.filtered !== null;
+  }
+
+  // Feed a fresh detection (timeMs from performance.now())
+  public addSample(y: number, timeMs: number) {
+    if (this.filtered !== null && timeMs - this.lastSampleMs > REACQUIRE_GAP_MS) {
+      this.filter.reset();
+    }
+    this.filtered = this.filter.filter(y, timeMs / 1000);
+    this.lastSampleMs = timeMs;
+  }
+
+  // Position to use at `nowMs`: filtered value pushed forward along the filtered velocity
+  public sample(nowMs: number): number | null {
+    if (this.filtered === null) return null;
+    const aheadMs = Math.min(nowMs - this.lastSampleMs + this.predictionMs, MAX_EXTRAPOLATION_MS);
+    return this.filtered + this.filter.velocity * Math.max(0, aheadMs) / 1000;
+  }
+}
@@ -0,0 +1,315 @@
+import { GameSetup, InputKind, PaddleId, PlayerId } from '../types';
+import { HandSmoother } from './handSmoothing';
+import { isDoubles, teamOf } from './physicsEngine';
+
+/**
+ * Anything that can steer a paddle. Each provider drives a single player and
+ * reports where that player's paddle should be (normalized 0-1), or null when it
+ * has nothing to say this frame (paddle keeps its last target).
+ */
+export interface InputProvider {
+  readonly kind: InputKind;
+  readonly usesCamera: boolean;
+  attach(element: HTMLElement): void;
+  detach(): void;
+  getTarget(nowMs: number): number | null;
+  getTargetX?(nowMs: number): number | null; // Air hockey: across the table, for inputs that can steer in 2D
+}
+
+export const INPUT_KINDS: { id: InputKind; label: string }[] = [
+  { id: 'hand', label: 'Hand' },
+  { id: 'keyboard', label: 'Keys' },
+  { id: 'pointer', label: 'Mouse/Touch' },
+  { id: 'gamepad', label: 'Gamepad' },
+  { id: 'switch', label: 'One Switch' }
+];
+
+const KEYBOARD_SPEED = 1.6; // Heights per second while a key is held
+const GAMEPAD_DEADZONE = 0.12;
+const GAMEPAD_DPAD_SPEED = 1.6; // Heights per second on the d-pad
+const SWITCH_SPEED = 0.5; // Heights per second while sweeping
+// Focused elements that handle their own keys (typing a name, Space and Enter on a button); keyboard inputs leave them be
+const INTERACTIVE = 'button, input, select, textarea, a[href], [tabindex], [contenteditable="true"]';
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// --- Hand Tracking ---
+// Reads the filtered hand position that GameCanvas feeds from VisionService.
+export class HandInput implements InputProvider {
+  public readonly kind = 'hand';
+  public readonly usesCamera = true;
+  private smoother: HandSmoother;
+  private xSmoother: HandSmoother | null;
+
+  constructor(smoother: HandSmoother, xSmoother: HandSmoother | null = null) {
+    this.smoother = smoother;
+    this.xSmoother = xSmoother;
+  }
+
+  public attach() {}
+  public detach() {}
+
+  public getTarget(nowMs: number): number | null {
+    return this.smoother.sample(nowMs);
+  }
+
+  public getTargetX(nowMs: number): number | null {
+    return this.xSmoother?.sample(nowMs) ?? null;
+  }
+}
+
+// --- Keyboard ---
+export class KeyboardInput implements InputProvider {
+  public readonly kind = 'keyboard';
+  public readonly usesCamera = false;
+
+  private upKeys: string[];
+  private downKeys: string[];
+  private held = new Set<string>();
+  private y = 0.5;
+  private lastMs: number | null = null;
+
+  constructor(upKeys: string[], downKeys: string[]) {
+    this.upKeys = upKeys;
+    this.downKeys = downKeys;
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.target instanceof Element && e.target.closest(INTERACTIVE)) return;
+    if (this.upKeys.includes(e.key) || this.downKeys.includes(e.key)) {
+      this.held.add(e.key);
+      e.preventDefault(); // Don't scroll the page with the arrow keys
+    }
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    this.held.delete(e.key);
+  };
+
+  private onBlur = () => this.held.clear();
+
+  public attach() {
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('blur', this.onBlur);
+  }
+
+  public detach() {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('blur', this.onBlur);
+    this.held.clear();
+  }
+
+  public getTarget(nowMs: number): number | null {
+    const dt = this.lastMs === null ? 0 : Math.min((nowMs - this.lastMs) / 1000, 0.1);
+    this.lastMs = nowMs;
+
+    const up = this.upKeys.some(k => this.held.has(k));
+    const down = this.downKeys.some(k => this.held.has(k));
+    this.y = clamp01(this.y + ((down ? 1 : 0) - (up ? 1 : 0)) * KEYBOARD_SPEED * dt);
+    return this.y;
+  }
+}
+
+// --- Mouse / Touch ---
+// Follows the mouse, or a finger dragged on the arena. With two pointer players
+// each one only listens to pointers on their half of the screen.
+export class PointerInput implements InputProvider {
+  public readonly kind = 'pointer';
+  public readonly usesCamera = false;
+
+  private half: PlayerId | null;
+  private element: HTMLElement | null = null;
+  private pointers = new Map<number, { x: number; y: number }>();
+  private y: number | null = null;
+  private x: number | null = null;
+
+  constructor(half: PlayerId | null) {
+    this.half = half;
+  }
+
+  private onPointer = (e: PointerEvent) => {
+    if (!this.element) return;
+    // Touch/pen only count while pressed; a mouse steers just by hovering
+    if (e.pointerType !== 'mouse' && e.buttons === 0) return;
+    const rect = this.element.getBoundingClientRect();
+    this.pointers.set(e.pointerId, {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height
+    });
+  };
+
+  private onPointerEnd = (e: PointerEvent) => {
+    this.pointers.delete(e.pointerId);
+  };
+
+  public attach(element: HTMLElement) {
+    this.element = element;
+    element.style.touchAction = 'none'; // Keep the browser from scrolling while dragging
+    element.addEventListener('pointerdown', this.onPointer);
+    element.addEventListener('pointermove', this.onPointer);
+    element.addEventListener('pointerup', this.onPointerEnd);
+    element.addEventListener('pointercancel', this.onPointerEnd);
+    element.addEventListener('pointerleave', this.onPointerEnd);
+  }
+
+  public detach() {
+    const element = this.element;
+    if (!element) return;
+    element.removeEventListener('pointerdown', this.onPointer);
+    element.removeEventListener('pointermove', this.onPointer);
+    element.removeEventListener('pointerup', this.onPointerEnd);
+    element.removeEventListener('pointercancel', this.onPointerEnd);
+    element.removeEventListener('pointerleave', this.onPointerEnd);
+    this.element = null;
+    this.pointers.clear();
+  }
+
+  public getTarget(): number | null {
+    for (const pointer of this.pointers.values()) {
+      const onHalf = this.half === null || (this.half === 'p1' ? pointer.x < 0.5 : pointer.x >= 0.5);
+      if (onHalf) {
+        this.x = clamp01(pointer.x);
+        this.y = clamp01(pointer.y);
+        break;
+      }
+    }
+    return this.y;
+  }
+
+  // Read after getTarget, which picks the pointer
+  public getTargetX(): number | null {
+    return this.x;
+  }
+}
+
+// --- Gamepad ---
+// Left stick maps straight to paddle height; the d-pad nudges it.
+export class GamepadInput implements InputProvider {
+  public readonly kind = 'gamepad';
+  public readonly usesCamera = false;
+
+  private slot: number; // Which connected pad to use (0 = first one plugged in)
+  private y = 0.5;
+  private lastMs: number | null = null;
+
+  constructor(slot: number) {
+    this.slot = slot;
+  }
+
+  public attach() {}
+  public detach() {}
+
+  public getTarget(nowMs: number): number | null {
+    const dt = this.lastMs === null ? 0 : Math.min((nowMs - this.lastMs) / 1000, 0.1);
+    this.lastMs = nowMs;
+
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+    const pads = navigator.getGamepads().filter((p): p is Gamepad => p !== null && p.connected);
+    const pad = pads[this.slot];
+    if (!pad) return null;
+
+    const stick = pad.axes[1] ?? 0;
+    if (Math.abs(stick) > GAMEPAD_DEADZONE) {
+      this.y = clamp01(0.5 + stick * 0.5);
+    } else {
+      const up = pad.buttons[12]?.pressed;
+      const down = pad.buttons[13]?.pressed;
+      this.y = clamp01(this.y + ((down ? 1 : 0) - (up ? 1 : 0)) * GAMEPAD_DPAD_SPEED * dt);
+    }
+    return this.y;
+  }
+}
+
+// --- One Switch ---
+// For players who can only press a single button: the paddle sweeps up and down
+// by itself and each press turns it round. Any key in `keys` counts as the switch.
+export class SwitchInput implements InputProvider {
+  public readonly kind = 'switch';
+  public readonly usesCamera = false;
+
+  private keys: string[];
+  private y = 0.5;
+  private direction = 1; // 1 = down
+  private lastMs: number | null = null;
+
+  constructor(keys: string[]) {
+    this.keys = keys;
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (!this.keys.includes(e.code)) return;
+    if (e.target instanceof Element && e.target.closest(INTERACTIVE)) return;
+    e.preventDefault(); // Don't scroll the page
+    if (!e.repeat) this.direction = -this.direction;
+  };
+
+  public attach() {
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public detach() {
+    window.removeEventListener('keydown', this.onKeyDown);
+  }
+
+  public getTarget(nowMs: number): number | null {
+    const dt = this.lastMs === null ? 0 : Math.min((nowMs - this.lastMs) / 1000, 0.1);
+    this.lastMs = nowMs;
+
+    this.y += this.direction * SWITCH_SPEED * dt;
+    // Turn round at the walls so the paddle never parks out of play
+    if (this.y <= 0 || this.y >= 1) {
+      this.y = clamp01(this.y);
+      this.direction = this.y === 0 ? 1 : -1;
+    }
+    return this.y;
+  }
+}
+
+// Input choice for each paddle a human controls here (the CPU's or remote player's paddle has none).
+// Doubles puts all four paddles on hand tracking: there aren't enough keyboards and mice to go round.
+export const humanInputs = (setup: GameSetup): Partial<Record<PaddleId, InputKind>> => {
+  if (setup.opponent !== 'human') return { [setup.humanSide]: setup.inputs[setup.humanSide] };
+  if (isDoubles(setup.format)) return { p1: 'hand', p2: 'hand', p3: 'hand', p4: 'hand' };
+  return { ...setup.inputs };
+};
+
+/**
+ * Build providers for every human-controlled paddle. Shared devices are split
+ * between players: W/S vs arrows, left vs right half of the screen, first vs
+ * second gamepad, left vs right Shift for one-switch play. A player alone on a device gets all of it. `xSmoothers`
+ * filter each hand across the table, for air-hockey mallets.
+ */
+export const createInputProviders = (
+  inputs: Partial<Record<PaddleId, InputKind>>,
+  smoothers: Record<PaddleId, HandSmoother>,
+  xSmoothers: Record<PlayerId, HandSmoother>
+): Partial<Record<PaddleId, InputProvider>> => {
+  const players = Object.keys(inputs) as PaddleId[];
+  const shared = (kind: InputKind) => players.filter(id => inputs[id] === kind).length > 1;
+  const providers: Partial<Record<PaddleId, InputProvider>> = {};
+
+  players.forEach(id => {
+    switch (inputs[id]) {
+      case 'hand':
+        providers[id] = new HandInput(smoothers[id], id === 'p1' || id === 'p2' ? xSmoothers[id] : null);
+        break;
+      case 'keyboard':
+        if (!shared('keyboard')) providers[id] = new KeyboardInput(['w', 'W', 'ArrowUp'], ['s', 'S', 'ArrowDown']);
+        else providers[id] = id === 'p1' ? new KeyboardInput(['w', 'W'], ['s', 'S']) : new KeyboardInput(['ArrowUp'], ['ArrowDown']);
+        break;
+      case 'pointer':
+        providers[id] = new PointerInput(shared('pointer') ? teamOf(id) : null);
+        break;
+      case 'gamepad':
+        providers[id] = new GamepadInput(shared('gamepad') && id === 'p2' ? 1 : 0);
+        break;
+      case 'switch':
+        if (!shared('switch')) providers[id] = new SwitchInput(['Space', 'Enter', 'NumpadEnter']);
+        else providers[id] = new SwitchInput(id === 'p1' ? ['ShiftLeft'] : ['ShiftRight', 'Enter', 'NumpadEnter']);
+        break;
+    }
+  });
+  return providers;
+};
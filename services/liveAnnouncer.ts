@@ -0,0 +1,46 @@
+import { PlayerId } from '../types';
+import { GameEventBus } from './gameEvents';
+import { POWER_UPS } from './powerUps';
+
+const NBSP = '\u00a0';
+
+/**
+ * Short text updates for screen readers, written to an ARIA live region.
+ * Scores, serves and the restart countdown come from the GameEvent stream;
+ * pauses and commentary are passed to say() by the app.
+ */
+export class LiveAnnouncer {
+  private names: Record<PlayerId, string> = { p1: 'P1', p2: 'P2' };
+  private toggle = false;
+
+  constructor(private readonly onMessage: (text: string) => void) {}
+
+  // Returns an unsubscribe function
+  public subscribe(bus: GameEventBus): () => void {
+    const unsubscribers = [
+      bus.on('match_start', event => {
+        this.names = { p1: event.players.p1.name, p2: event.players.p2.name };
+        this.say(`Match started: ${this.names.p1} versus ${this.names.p2}.`);
+      }),
+      bus.on('goal', ({ scorer, context }) =>
+        this.say(`${this.names[scorer]} scores. ${this.names.p1} ${context.scores.p1}, ${this.names.p2} ${context.scores.p2}.`)
+      ),
+      bus.on('serve', ({ server }) => this.say(`${this.names[server]} serves.`)),
+      bus.on('countdown', ({ count }) => this.say(count > 0 ? String(count) : 'Play.')),
+      bus.on('match_point', ({ player }) => this.say(player ? `Match point, ${this.names[player]}.` : 'Next goal wins.')),
+      bus.on('power_up', ({ player, kind }) => this.say(`${this.names[player]} picks up ${POWER_UPS[kind].label}.`)),
+      bus.on('match_end', ({ result }) =>
+        this.say(result.rules.setsToWin > 1
+          ? `${result.winnerName} wins, ${result.sets.p1} sets to ${result.sets.p2}. Final set ${result.scores.p1} to ${result.scores.p2}.`
+          : `${result.winnerName} wins, ${result.scores.p1} to ${result.scores.p2}.`)
+      )
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Repeating the same text wouldn't change the region, so every other message ends in a no-break space
+  public say(text: string) {
+    this.toggle = !this.toggle;
+    this.onMessage(this.toggle ? text : text + NBSP);
+  }
+}
@@ -0,0 +1,136 @@
+import { MatchRecord, MatchResult, MatchStats, PlayerId } from '../types';
+import { downloadFile, fileStamp } from './download';
+import { serveWinRate } from './matchStats';
+
+const STORAGE_KEY = 'neon-hand-hockey.history';
+const STORAGE_VERSION = 1;
+const MAX_MATCHES = 200; // Oldest matches drop off past this
+
+const PLAYER_IDS: PlayerId[] = ['p1', 'p2'];
+
+// Lifetime totals for everyone who has played under one name (CPU sides excluded)
+export interface LifetimeRecord {
+  name: string;
+  played: number;
+  wins: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  hits: number;
+  longestRally: number; // Longest rally they played in; both players share it
+  peakSpeed: number; // Their own fastest return
+}
+
+export const createMatchRecord = (
+  players: Record<PlayerId, { name: string; color: string }>,
+  cpu: Record<PlayerId, boolean>,
+  result: MatchResult,
+  stats: MatchStats
+): MatchRecord => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  playedAt: new Date().toISOString(),
+  players: {
+    p1: { ...players.p1, cpu: cpu.p1 },
+    p2: { ...players.p2, cpu: cpu.p2 }
+  },
+  result,
+  stats
+});
+
+// --- Storage (localStorage; a broken or missing entry reads as empty) ---
+export const loadHistory = (): MatchRecord[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return stored?.version === STORAGE_VERSION && Array.isArray(stored.matches) ? stored.matches : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveHistory = (matches: MatchRecord[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, matches }));
+  } catch (error) {
+    console.warn('Could not save match history:', error);
+  }
+};
+
+// Newest first; returns the updated history
+export const addToHistory = (record: MatchRecord): MatchRecord[] => {
+  const matches = [record, ...loadHistory()].slice(0, MAX_MATCHES);
+  saveHistory(matches);
+  return matches;
+};
+
+export const clearHistory = () => saveHistory([]);
+
+// Best first: most wins, then fewest matches needed for them
+export const lifetimeRecords = (matches: MatchRecord[]): LifetimeRecord[] => {
+  const byName = new Map<string, LifetimeRecord>();
+  for (const match of matches) {
+    for (const id of PLAYER_IDS) {
+      const player = match.players[id];
+      if (player.cpu) continue;
+      const opponent: PlayerId = id === 'p1' ? 'p2' : 'p1';
+      const record = byName.get(player.name) ?? {
+        name: player.name, played: 0, wins: 0, goalsFor: 0, goalsAgainst: 0, hits: 0, longestRally: 0, peakSpeed: 0
+      };
+      record.played++;
+      if (match.result.winner === id) record.wins++;
+      record.goalsFor += match.stats.goals[id];
+      record.goalsAgainst += match.stats.goals[opponent];
+      record.hits += match.stats.hits[id];
+      record.longestRally = Math.max(record.longestRally, match.stats.longestRally);
+      // Matches saved before per-player peaks were kept don't count toward it
+      record.peakSpeed = Math.max(record.peakSpeed, match.stats.peakSpeeds?.[id] ?? 0);
+      byName.set(player.name, record);
+    }
+  }
+  return [...byName.values()].sort((a, b) => b.wins - a.wins || a.played - b.played);
+};
+
+// --- Export ---
+const CSV_COLUMNS: { header: string; value: (match: MatchRecord) => string | number }[] = [
+  { header: 'played_at', value: m => m.playedAt },
+  { header: 'rules', value: m => m.result.rules.label },
+  { header: 'p1_name', value: m => m.players.p1.name },
+  { header: 'p2_name', value: m => m.players.p2.name },
+  { header: 'p1_cpu', value: m => (m.players.p1.cpu ? 1 : 0) },
+  { header: 'p2_cpu', value: m => (m.players.p2.cpu ? 1 : 0) },
+  { header: 'winner', value: m => m.result.winnerName },
+  { header: 'p1_sets', value: m => m.result.sets.p1 },
+  { header: 'p2_sets', value: m => m.result.sets.p2 },
+  { header: 'p1_goals', value: m => m.stats.goals.p1 },
+  { header: 'p2_goals', value: m => m.stats.goals.p2 },
+  { header: 'duration_seconds', value: m => Math.round(m.result.durationSeconds) },
+  { header: 'sudden_death', value: m => (m.result.suddenDeath ? 1 : 0) },
+  { header: 'p1_hits', value: m => m.stats.hits.p1 },
+  { header: 'p2_hits', value: m => m.stats.hits.p2 },
+  { header: 'longest_rally', value: m => m.stats.longestRally },
+  { header: 'average_speed', value: m => m.stats.averageSpeed.toFixed(2) },
+  { header: 'peak_speed', value: m => m.stats.peakSpeed.toFixed(2) },
+  { header: 'p1_peak_speed', value: m => m.stats.peakSpeeds?.p1.toFixed(2) ?? '' },
+  { header: 'p2_peak_speed', value: m => m.stats.peakSpeeds?.p2.toFixed(2) ?? '' },
+  { header: 'p1_serve_win_rate', value: m => serveWinRate(m.stats, 'p1')?.toFixed(2) ?? '' },
+  { header: 'p2_serve_win_rate', value: m => serveWinRate(m.stats, 'p2')?.toFixed(2) ?? '' }
+];
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per match; the zone and heatmap arrays are only in the JSON export
+export const historyToCsv = (matches: MatchRecord[]): string =>
+  [
+    CSV_COLUMNS.map(column => column.header).join(','),
+    ...matches.map(match => CSV_COLUMNS.map(column => csvField(column.value(match))).join(','))
+  ].join('\n');
+
+export const downloadHistory = (matches: MatchRecord[], format: 'json' | 'csv') => {
+  const name = `neon-hockey-history-${fileStamp(new Date().toISOString())}`;
+  if (format === 'json') {
+    downloadFile(`${name}.json`, JSON.stringify({ version: STORAGE_VERSION, matches }, null, 2), 'application/json');
+  } else {
+    downloadFile(`${name}.csv`, historyToCsv(matches), 'text/csv');
+  }
+};
@@ -0,0 +1,125 @@
+import { MatchRules, MatchResult, PlayerId, PlayerState } from '../types';
+
+// --- Rulesets offered in the menu ---
+export const MATCH_RULESETS: MatchRules[] = [
+  { id: 'first_to_7', label: 'First to 7', pointsToWin: 7, winByTwo: false, timeLimitSeconds: null, setsToWin: 1 },
+  { id: 'classic_11', label: 'First to 11 · Win by 2', pointsToWin: 11, winByTwo: true, timeLimitSeconds: null, setsToWin: 1 },
+  { id: 'timed_2min', label: '2:00 Timed · Sudden Death', pointsToWin: null, winByTwo: false, timeLimitSeconds: 120, setsToWin: 1 },
+  { id: 'best_of_3', label: 'Best of 3 Sets (to 5)', pointsToWin: 5, winByTwo: true, timeLimitSeconds: null, setsToWin: 2 }
+];
+
+export const DEFAULT_RULES = MATCH_RULESETS[0];
+
+export type PointOutcome =
+  | { type: 'point' }
+  | { type: 'set'; winner: PlayerId }
+  | { type: 'match'; result: MatchResult };
+
+const other = (id: PlayerId): PlayerId => (id === 'p1' ? 'p2' : 'p1');
+
+/**
+ * Referee for a single match. Reads the live point score off the PlayerStates
+ * (which the physics engine increments) and decides when sets and the match end.
+ */
+export class MatchEngine {
+  public rules: MatchRules;
+  public sets: Record<PlayerId, number> = { p1: 0, p2: 0 };
+  public elapsedSeconds = 0;
+  public suddenDeath = false;
+  public result: MatchResult | null = null;
+
+  private players: Record<PlayerId, PlayerState>;
+
+  constructor(rules: MatchRules, player1: PlayerState, player2: PlayerState) {
+    this.rules = rules;
+    this.players = { p1: player1, p2: player2 };
+  }
+
+  public reset(rules: MatchRules = this.rules) {
+    this.rules = rules;
+    this.sets = { p1: 0, p2: 0 };
+    this.elapsedSeconds = 0;
+    this.suddenDeath = false;
+    this.result = null;
+  }
+
+  public get isOver(): boolean {
+    return this.result !== null;
+  }
+
+  // Seconds left on the match clock, or null for untimed rules
+  public get remainingSeconds(): number | null {
+    if (this.rules.timeLimitSeconds === null) return null;
+    return Math.max(0, this.rules.timeLimitSeconds - this.elapsedSeconds);
+  }
+
+  // True when the given player would win the match with one more point
+  public isMatchPoint(id: PlayerId): boolean {
+    if (this.result) return false;
+    if (this.suddenDeath) return true;
+    return this.sets[id] === this.rules.setsToWin - 1 && this.wouldWinSet(id, this.players[id].score + 1);
+  }
+
+  // Advance the match clock. Returns a result if time ran out with a leader.
+  public tick(seconds: number): MatchResult | null {
+    if (this.result) return null;
+
+    this.elapsedSeconds += seconds;
+    const limit = this.rules.timeLimitSeconds;
+    if (this.suddenDeath || limit === null || this.elapsedSeconds < limit) return null;
+
+    const leader = this.leader();
+    if (leader) return this.finish(leader);
+
+    // Level at the buzzer: next point wins
+    this.suddenDeath = true;
+    return null;
+  }
+
+  // Call after the physics engine has awarded a point to `scorer`
+  public recordPoint(scorer: PlayerId): PointOutcome {
+    if (this.result) return { type: 'match', result: this.result };
+
+    if (this.suddenDeath) return { type: 'match', result: this.finish(scorer) };
+
+    if (!this.wouldWinSet(scorer, this.players[scorer].score)) return { type: 'point' };
+
+    this.sets[scorer] += 1;
+    if (this.sets[scorer] >= this.rules.setsToWin) {
+      return { type: 'match', result: this.finish(scorer) };
+    }
+
+    // New set: points start again from zero
+    this.players.p1.score = 0;
+    this.players.p2.score = 0;
+    return { type: 'set', winner: scorer };
+  }
+
+  private wouldWinSet(id: PlayerId, points: number): boolean {
+    const { pointsToWin, winByTwo } = this.rules;
+    if (pointsToWin === null) return false;
+    const margin = points - this.players[other(id)].score;
+    return points >= pointsToWin && margin >= (winByTwo ? 2 : 1);
+  }
+
+  // Sets first, then points in the current set
+  private leader(): PlayerId | null {
+    if (this.sets.p1 !== this.sets.p2) return this.sets.p1 > this.sets.p2 ? 'p1' : 'p2';
+    const { p1, p2 } = this.players;
+    if (p1.score !== p2.score) return p1.score > p2.score ? 'p1' : 'p2';
+    return null;
+  }
+
+  private finish(winner: PlayerId): MatchResult {
+    this.result = {
+      winner,
+      winnerName: this.players[winner].name,
+      scores: { p1: this.players.p1.score, p2: this.players.p2.score },
+      sets: { ...this.sets },
+      durationSeconds: this.elapsedSeconds,
+      suddenDeath: this.suddenDeath,
+      rules: this.rules
+    };
+    return this.result;
+  }
+}
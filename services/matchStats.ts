@@ -0,0 +1,94 @@
+import { MatchStats, PlayerId } from '../types';
+import { GameEventBus } from './gameEvents';
+
+export const PADDLE_ZONES = 8; // intersectY buckets, top edge to bottom edge
+export const GOAL_BANDS = 10; // Goal-line heatmap resolution
+
+const counts = (length: number) => new Array<number>(length).fill(0);
+
+// Which of `buckets` equal slices of 0..1 a value falls in
+const bucket = (value: number, buckets: number) => Math.min(buckets - 1, Math.max(0, Math.floor(value * buckets)));
+
+export const emptyStats = (): MatchStats => ({
+  hits: { p1: 0, p2: 0 },
+  goals: { p1: 0, p2: 0 },
+  longestRally: 0,
+  averageSpeed: 0,
+  peakSpeed: 0,
+  peakSpeeds: { p1: 0, p2: 0 },
+  intersects: { p1: counts(PADDLE_ZONES), p2: counts(PADDLE_ZONES) },
+  serves: { p1: { served: 0, won: 0 }, p2: { served: 0, won: 0 } },
+  goalCrossings: { p1: counts(GOAL_BANDS), p2: counts(GOAL_BANDS) }
+});
+
+/**
+ * Builds the post-match report from the GameEvent stream. match_start clears
+ * it, so one collector lives for the whole session.
+ */
+export class MatchStatsCollector {
+  private stats = emptyStats();
+  private speedTotal = 0;
+  // Names and colours of the match being collected, from match_start
+  public players: Record<PlayerId, { name: string; color: string }> = {
+    p1: { name: 'P1', color: '#ffffff' },
+    p2: { name: 'P2', color: '#ffffff' }
+  };
+
+  // Returns an unsubscribe function
+  public subscribe(bus: GameEventBus): () => void {
+    const unsubscribers = [
+      bus.on('match_start', event => {
+        this.players = event.players;
+        this.reset();
+      }),
+      bus.on('paddle_hit', event => this.recordHit(event.player, event.intersectY, event.speed, event.rally)),
+      bus.on('goal', event => this.recordGoal(event.scorer, event.server, event.y))
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  public reset() {
+    this.stats = emptyStats();
+    this.speedTotal = 0;
+  }
+
+  public recordHit(player: PlayerId, intersectY: number, speed: number, rally: number) {
+    const stats = this.stats;
+    stats.hits[player]++;
+    stats.longestRally = Math.max(stats.longestRally, rally);
+    stats.peakSpeed = Math.max(stats.peakSpeed, speed);
+    stats.peakSpeeds[player] = Math.max(stats.peakSpeeds[player], speed);
+    this.speedTotal += speed;
+    stats.intersects[player][bucket((intersectY + 1) / 2, PADDLE_ZONES)]++;
+  }
+
+  public recordGoal(scorer: PlayerId, server: PlayerId, y: number) {
+    const stats = this.stats;
+    stats.goals[scorer]++;
+    stats.serves[server].served++;
+    if (server === scorer) stats.serves[server].won++;
+    stats.goalCrossings[scorer][bucket(y, GOAL_BANDS)]++;
+  }
+
+  // A copy, safe to keep after the next match starts
+  public snapshot(): MatchStats {
+    const stats = this.stats;
+    const totalHits = stats.hits.p1 + stats.hits.p2;
+    return {
+      ...stats,
+      hits: { ...stats.hits },
+      goals: { ...stats.goals },
+      peakSpeeds: { ...stats.peakSpeeds },
+      averageSpeed: totalHits > 0 ? this.speedTotal / totalHits : 0,
+      intersects: { p1: [...stats.intersects.p1], p2: [...stats.intersects.p2] },
+      serves: { p1: { ...stats.serves.p1 }, p2: { ...stats.serves.p2 } },
+      goalCrossings: { p1: [...stats.goalCrossings.p1], p2: [...stats.goalCrossings.p2] }
+    };
+  }
+}
+
+// Share of served points the server went on to win, or null if they never served
+export const serveWinRate = (stats: MatchStats, player: PlayerId): number | null => {
+  const { served, won } = stats.serves[player];
+  return served > 0 ? won / served : null;
+};
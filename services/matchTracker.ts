@@ -0,0 +1,154 @@
+import { MatchContext, PlayerId, PlayerState } from '../types';
+import { GameEvent } from './gameEvents';
+
+const RALLY_MILESTONE_EVERY = 5; // Hits
+const TOP_SPEED_MIN = 3; // Widths per second before a new record is worth announcing
+const TOP_SPEED_MARGIN = 0.2; // Must beat the previous record by this much
+const EDGE_SNIPE_INTERSECT = 0.8; // |intersectY| of the last hit for a goal to count as a snipe
+const COMEBACK_MIN_DEFICIT = 3;
+const SCORELESS_SECONDS = 30; // Announce every this many seconds without a goal
+const MOMENTUM_WINDOW = 6; // Recent points considered
+const MOMENTUM_DECAY = 0.75; // Weight falloff per older point
+
+interface LastHit {
+  player: PlayerId;
+  intersectY: number;
+  smash: boolean;
+}
+
+/**
+ * Turns raw hits and goals into the higher-level moments worth announcing
+ * (milestones, records, snipes, comebacks) and keeps the running stats that
+ * go into MatchContext. Pure bookkeeping: GameCanvas publishes what it returns.
+ */
+export class MatchTracker {
+  private player1: PlayerState;
+  private player2: PlayerState;
+
+  private rally = 0;
+  private longestRally = 0;
+  private ballSpeed = 0;
+  private topSpeed = 0;
+  private rallyStartTopSpeed = 0; // Record to beat during the current rally
+  private topSpeedAnnounced = false; // At most one record announcement per rally
+  private lastHit: LastHit | null = null;
+  private points: PlayerId[] = []; // Recent scorers, newest last
+  private streak: MatchContext['streak'] = null;
+  private maxDeficit: Record<PlayerId, number> = { p1: 0, p2: 0 };
+  private scorelessSeconds = 0;
+  private finish: MatchContext['finish'] = null;
+
+  constructor(player1: PlayerState, player2: PlayerState) {
+    this.player1 = player1;
+    this.player2 = player2;
+  }
+
+  public get rallyLength(): number {
+    return this.rally;
+  }
+
+  public reset() {
+    this.rally = 0;
+    this.longestRally = 0;
+    this.ballSpeed = 0;
+    this.topSpeed = 0;
+    this.rallyStartTopSpeed = 0;
+    this.topSpeedAnnounced = false;
+    this.lastHit = null;
+    this.points = [];
+    this.streak = null;
+    this.maxDeficit = { p1: 0, p2: 0 };
+    this.scorelessSeconds = 0;
+    this.finish = null;
+  }
+
+  public recordHit(player: PlayerId, intersectY: number, speed: number, smash: boolean): GameEvent[] {
+    const events: GameEvent[] = [];
+    this.rally++;
+    this.longestRally = Math.max(this.longestRally, this.rally);
+    this.ballSpeed = speed;
+    this.lastHit = { player, intersectY, smash };
+
+    if (this.rally % RALLY_MILESTONE_EVERY === 0) {
+      events.push({ type: 'rally_milestone', rally: this.rally, context: this.getContext() });
+    }
+    if (speed > this.topSpeed) this.topSpeed = speed;
+    if (!this.topSpeedAnnounced && speed >= TOP_SPEED_MIN && speed > this.rallyStartTopSpeed + TOP_SPEED_MARGIN) {
+      this.topSpeedAnnounced = true;
+      events.push({ type: 'top_speed', player, speed, context: this.getContext() });
+    }
+    return events;
+  }
+
+  // Call once physics has counted the goal, before a set win resets the scores.
+  // `bank`: the scorer's shot went in off a wall (air hockey)
+  public recordGoal(scorer: PlayerId, bank = false): { context: MatchContext; events: GameEvent[] } {
+    const events: GameEvent[] = [];
+    const scores = { p1: this.player1.score, p2: this.player2.score };
+    const other: PlayerId = scorer === 'p1' ? 'p2' : 'p1';
+
+    // First point of a set: deficits start over
+    if (scores.p1 + scores.p2 === 1) this.maxDeficit = { p1: 0, p2: 0 };
+
+    this.points.push(scorer);
+    if (this.points.length > MOMENTUM_WINDOW) this.points.shift();
+    this.streak = this.streak?.player === scorer ? { player: scorer, points: this.streak.points + 1 } : { player: scorer, points: 1 };
+
+    const hit = this.lastHit;
+    const snipe = hit !== null && hit.player === scorer && Math.abs(hit.intersectY) >= EDGE_SNIPE_INTERSECT;
+    this.finish = bank ? 'bank_shot' : snipe ? 'edge_snipe' : hit?.player === scorer && hit.smash ? 'smash' : null;
+    if (snipe && !bank) events.push({ type: 'edge_snipe', player: scorer, intersectY: hit!.intersectY });
+
+    // Comeback: the scorer was down by a lot and has now drawn level or gone ahead
+    this.maxDeficit[other] = Math.max(this.maxDeficit[other], scores[scorer] - scores[other]);
+    let comebackFrom = 0;
+    if (this.maxDeficit[scorer] >= COMEBACK_MIN_DEFICIT && scores[scorer] >= scores[other]) {
+      comebackFrom = this.maxDeficit[scorer];
+      this.maxDeficit[scorer] = 0;
+      events.push({ type: 'comeback', player: scorer, deficit: comebackFrom });
+    }
+
+    const context = { ...this.getContext(), comebackFrom };
+
+    // Next rally starts fresh
+    this.rally = 0;
+    this.lastHit = null;
+    this.rallyStartTopSpeed = this.topSpeed;
+    this.topSpeedAnnounced = false;
+    this.scorelessSeconds = 0;
+    return { context, events };
+  }
+
+  // Seconds of live play (the caller skips pauses)
+  public tick(seconds: number): GameEvent[] {
+    const before = Math.floor(this.scorelessSeconds / SCORELESS_SECONDS);
+    this.scorelessSeconds += seconds;
+    const after = Math.floor(this.scorelessSeconds / SCORELESS_SECONDS);
+    return after > before
+      ? [{ type: 'scoreless_stretch', seconds: after * SCORELESS_SECONDS, context: this.getContext() }]
+      : [];
+  }
+
+  public getContext(): MatchContext {
+    // Weighted recent points: newest counts most
+    let weighted = 0;
+    let total = 0;
+    this.points.forEach((player, i) => {
+      const weight = Math.pow(MOMENTUM_DECAY, this.points.length - 1 - i);
+      weighted += player === 'p1' ? weight : -weight;
+      total += weight;
+    });
+
+    return {
+      scores: { p1: this.player1.score, p2: this.player2.score },
+      rally: this.rally,
+      ballSpeed: this.ballSpeed,
+      topSpeed: this.topSpeed,
+      longestRally: this.longestRally,
+      momentum: total > 0 ? weighted / total : 0,
+      streak: this.streak,
+      finish: this.finish,
+      comebackFrom: 0
+    };
+  }
+}
@@ -0,0 +1,418 @@
+import { BallState, GameCommentary, GameState, GameplaySettings, MatchResult, MatchRules, PauseInfo, PlayerId, PlayerProfile } from '../types';
+
+export type NetRole = 'host' | 'client';
+export type NetStatus = 'idle' | 'connecting' | 'waiting' | 'connected' | 'disconnected' | 'error';
+
+interface NetConfig {
+  signalingUrl: string;
+  iceServers: RTCIceServer[];
+}
+
+// No STUN server by default: two tabs (or two machines on one LAN) connect over host candidates
+export const NET_CONFIG: NetConfig = {
+  signalingUrl: process.env.NETPLAY_SIGNALING_URL || 'ws://localhost:8788',
+  iceServers: process.env.NETPLAY_STUN_URL ? [{ urls: process.env.NETPLAY_STUN_URL }] : []
+};
+
+const PING_INTERVAL_MS = 1000;
+const LATENCY_SMOOTHING = 0.3; // Weight of each new round trip in the displayed latency
+const DISCONNECT_GRACE_MS = 5000; // 'disconnected' often recovers by itself; give it this long before giving up
+
+// The host's authoritative state, sent every frame
+export interface NetSnapshot {
+  t: number; // Host clock, ms
+  ball: BallState;
+  p1Y: number;
+  p2Y: number;
+  scores: Record<PlayerId, number>;
+  sets: Record<PlayerId, number>;
+  clock: number | null; // Seconds left on the match clock
+  suddenDeath: boolean;
+}
+
+export type NetMessage =
+  | { type: 'snapshot'; snapshot: NetSnapshot } // Host -> client
+  | { type: 'paddle'; y: number } // Client -> host: the only input the client sends
+  | { type: 'profile'; profile: PlayerProfile } // Both ways: the sender's own name and colour
+  | { type: 'phase'; gameState: GameState; rules: MatchRules; gameplay: GameplaySettings; pause: PauseInfo | null; result: MatchResult | null } // Host -> client
+  | { type: 'commentary'; line: GameCommentary } // Host -> client
+  | { type: 'ping'; t: number }
+  | { type: 'pong'; t: number };
+
+// Snapshots and paddles are superseded every frame, so they skip retransmission
+const UNRELIABLE: NetMessage['type'][] = ['snapshot', 'paddle'];
+
+type SignalData = { description: RTCSessionDescriptionInit } | { candidate: RTCIceCandidateInit };
+
+type SignalMessage =
+  | { type: 'hosted'; code: string }
+  | { type: 'joined'; code: string }
+  | { type: 'peer_joined' }
+  | { type: 'peer_left' }
+  | { type: 'signal'; data: SignalData }
+  | { type: 'error'; message: string };
+
+// What the UI shows about the connection
+export interface NetInfo {
+  role: NetRole | null;
+  status: NetStatus;
+  lobby: string | null;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+// --- Client-side interpolation / prediction ---
+const INTERPOLATION_DELAY_MS = 50; // Render this far behind the host so there's usually a snapshot on each side
+const MAX_EXTRAPOLATION_MS = 150; // Past the newest snapshot, keep the ball flying this long at most
+const SNAPSHOT_BUFFER_SIZE = 32;
+const CLOCK_DRIFT = 0.02; // How fast the host clock offset estimate follows slower packets
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Reflect a coordinate back into 0..1, like a wall bounce
+const bounce = (v: number) => {
+  const m = ((v % 2) + 2) % 2;
+  return m > 1 ? 2 - m : m;
+};
+
+/**
+ * Host snapshots on the client. Rendering runs a little behind the host and
+ * blends the two snapshots around that moment; when packets are late the ball
+ * is predicted forward from the newest one.
+ */
+export class SnapshotBuffer {
+  private snapshots: NetSnapshot[] = [];
+  private offset: number | null = null; // Local clock minus host clock (plus the fastest one-way delay seen)
+
+  public clear() {
+    this.snapshots = [];
+    this.offset = null;
+  }
+
+  public get latest(): NetSnapshot | null {
+    return this.snapshots[this.snapshots.length - 1] ?? null;
+  }
+
+  public push(snapshot: NetSnapshot, localMs: number) {
+    const latest = this.latest;
+    if (latest && snapshot.t <= latest.t) return; // Out of order
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > SNAPSHOT_BUFFER_SIZE) this.snapshots.shift();
+
+    // Track the quickest packets: jumps down at once, creeps up if the route gets slower
+    const sample = localMs - snapshot.t;
+    this.offset = this.offset === null || sample < this.offset ? sample : this.offset + (sample - this.offset) * CLOCK_DRIFT;
+  }
+
+  public sample(localMs: number): NetSnapshot | null {
+    const snapshots = this.snapshots;
+    if (snapshots.length === 0 || this.offset === null) return null;
+    const renderT = localMs - this.offset - INTERPOLATION_DELAY_MS;
+
+    let i = snapshots.length - 1;
+    while (i > 0 && snapshots[i].t > renderT) i--;
+    const a = snapshots[i];
+    const b = snapshots[i + 1];
+    if (renderT <= a.t) return a; // Older than anything buffered
+
+    if (b) {
+      // Don't blend across a goal reset
+      if (b.scores.p1 !== a.scores.p1 || b.scores.p2 !== a.scores.p2) return a;
+      const alpha = (renderT - a.t) / (b.t - a.t);
+      return {
+        ...a,
+        ball: { ...a.ball, x: lerp(a.ball.x, b.ball.x, alpha), y: lerp(a.ball.y, b.ball.y, alpha) },
+        p1Y: lerp(a.p1Y, b.p1Y, alpha),
+        p2Y: lerp(a.p2Y, b.p2Y, alpha)
+      };
+    }
+
+    // Ahead of the newest snapshot: predict the ball along its velocity
+    const dt = Math.min(renderT - a.t, MAX_EXTRAPOLATION_MS) / 1000;
+    return { ...a, ball: { ...a.ball, x: a.ball.x + a.ball.vx * dt, y: bounce(a.ball.y + a.ball.vy * dt) } };
+  }
+}
+
+/**
+ * One online match: a WebSocket to the signaling server to find the other
+ * player, then a WebRTC peer connection with a reliable channel (phases,
+ * commentary, pings) and an unreliable one (snapshots, paddles). The host is
+ * always P1 and runs the physics; the client is P2 and only sends its paddle.
+ */
+export class NetSession {
+  public role: NetRole | null = null;
+  public status: NetStatus = 'idle';
+  public lobby: string | null = null;
+  public latencyMs: number | null = null;
+  public error: string | null = null;
+
+  public remotePaddle: number | null = null; // Host: the client's latest paddle target
+  public readonly snapshots = new SnapshotBuffer(); // Client: the host's states
+
+  private config: NetConfig;
+  private onInfo: (info: NetInfo) => void;
+  private socket: WebSocket | null = null;
+  private peer: RTCPeerConnection | null = null;
+  private channels: { reliable: RTCDataChannel | null; unreliable: RTCDataChannel | null } = { reliable: null, unreliable: null };
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private listeners = new Set<(message: NetMessage) => void>();
+  private pingTimer: number | null = null;
+  private graceTimer: number | null = null;
+
+  constructor(onInfo: (info: NetInfo) => void, config: NetConfig = NET_CONFIG) {
+    this.onInfo = onInfo;
+    this.config = config;
+  }
+
+  public get available(): boolean {
+    return typeof RTCPeerConnection !== 'undefined' && typeof WebSocket !== 'undefined';
+  }
+
+  // The paddle this player steers
+  public get side(): PlayerId {
+    return this.role === 'client' ? 'p2' : 'p1';
+  }
+
+  public get connected(): boolean {
+    return this.status === 'connected';
+  }
+
+  public get info(): NetInfo {
+    return { role: this.role, status: this.status, lobby: this.lobby, latencyMs: this.latencyMs, error: this.error };
+  }
+
+  public host() {
+    this.start('host', { type: 'host' });
+  }
+
+  public join(code: string) {
+    this.start('client', { type: 'join', code: code.trim().toUpperCase() });
+  }
+
+  public leave() {
+    this.closePeer();
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.role = null;
+    this.lobby = null;
+    this.error = null;
+    this.update('idle');
+  }
+
+  // Returns an unsubscribe function
+  public subscribe(listener: (message: NetMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public send(message: NetMessage) {
+    const channel = UNRELIABLE.includes(message.type) ? this.channels.unreliable : this.channels.reliable;
+    if (channel?.readyState === 'open') channel.send(JSON.stringify(message));
+  }
+
+  // --- Signaling ---
+  private start(role: NetRole, request: { type: 'host' } | { type: 'join'; code: string }) {
+    this.leave();
+    this.role = role;
+    if (!this.available) {
+      this.fail('This browser does not support WebRTC');
+      return;
+    }
+    this.update('connecting');
+
+    const socket = new WebSocket(this.config.signalingUrl);
+    this.socket = socket;
+    socket.onopen = () => socket.send(JSON.stringify(request));
+    socket.onmessage = event => {
+      let message: SignalMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      this.handleSignal(message).catch(error => console.warn('WebRTC negotiation failed:', error));
+    };
+    // Once connected the game no longer needs signaling; before that losing it is fatal
+    const settingUp = () => this.status === 'connecting' || this.status === 'waiting';
+    socket.onerror = () => {
+      if (settingUp()) this.fail(`Can't reach the signaling server at ${this.config.signalingUrl}`);
+    };
+    socket.onclose = () => {
+      if (settingUp()) this.fail('Signaling server closed the connection');
+    };
+  }
+
+  private signal(data: SignalData) {
+    this.socket?.send(JSON.stringify({ type: 'signal', data }));
+  }
+
+  private async handleSignal(message: SignalMessage) {
+    switch (message.type) {
+      case 'hosted':
+        this.lobby = message.code;
+        this.update('waiting');
+        break;
+      case 'joined':
+        this.lobby = message.code;
+        this.update('connecting');
+        this.openPeer(); // The host sends the offer
+        break;
+      case 'peer_joined':
+        // A (re)joining guest gets a fresh connection
+        this.openPeer();
+        this.attachChannel(this.peer!.createDataChannel('reliable'));
+        this.attachChannel(this.peer!.createDataChannel('unreliable', { ordered: false, maxRetransmits: 0 }));
+        await this.peer!.setLocalDescription(await this.peer!.createOffer());
+        this.signal({ description: this.peer!.localDescription!.toJSON() });
+        this.update('connecting');
+        break;
+      case 'peer_left':
+        this.closePeer();
+        if (this.role === 'client') {
+          this.error = 'The host left the lobby';
+          this.lobby = null;
+        }
+        this.update(this.role === 'host' ? 'waiting' : 'disconnected');
+        break;
+      case 'signal':
+        await this.handlePeerSignal(message.data);
+        break;
+      case 'error':
+        this.fail(message.message);
+        break;
+    }
+  }
+
+  private async handlePeerSignal(data: SignalData) {
+    const peer = this.peer;
+    if (!peer) return;
+    if ('candidate' in data) {
+      // Candidates can race ahead of the description they belong to
+      if (peer.remoteDescription) await peer.addIceCandidate(data.candidate);
+      else this.pendingCandidates.push(data.candidate);
+      return;
+    }
+    await peer.setRemoteDescription(data.description);
+    for (const candidate of this.pendingCandidates) await peer.addIceCandidate(candidate);
+    this.pendingCandidates = [];
+    if (data.description.type === 'offer') {
+      await peer.setLocalDescription(await peer.createAnswer());
+      this.signal({ description: peer.localDescription!.toJSON() });
+    }
+  }
+
+  // --- Peer Connection ---
+  private openPeer() {
+    this.closePeer();
+    const peer = new RTCPeerConnection({ iceServers: this.config.iceServers });
+    this.peer = peer;
+    peer.onicecandidate = event => {
+      if (event.candidate) this.signal({ candidate: event.candidate.toJSON() });
+    };
+    peer.ondatachannel = event => this.attachChannel(event.channel);
+    peer.onconnectionstatechange = () => {
+      if (this.peer !== peer) return;
+      this.clearGrace();
+      if (peer.connectionState === 'failed') {
+        this.lost();
+      } else if (peer.connectionState === 'disconnected') {
+        this.graceTimer = window.setTimeout(() => {
+          this.graceTimer = null;
+          if (this.peer === peer) this.lost();
+        }, DISCONNECT_GRACE_MS);
+      }
+    };
+  }
+
+  private attachChannel(channel: RTCDataChannel) {
+    const slot = channel.label === 'unreliable' ? 'unreliable' : 'reliable';
+    this.channels[slot] = channel;
+    channel.onopen = () => {
+      if (this.channels.reliable?.readyState === 'open' && this.channels.unreliable?.readyState === 'open') this.opened();
+    };
+    channel.onclose = () => {
+      if (this.channels[slot] === channel) this.lost();
+    };
+    channel.onmessage = event => {
+      let message: NetMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      this.receive(message);
+    };
+  }
+
+  private opened() {
+    this.error = null;
+    this.update('connected');
+    this.pingTimer = window.setInterval(() => this.send({ type: 'ping', t: performance.now() }), PING_INTERVAL_MS);
+  }
+
+  // The peer dropped: hosts go back to waiting in the lobby for them to rejoin
+  private lost() {
+    if (this.status !== 'connected' && this.status !== 'connecting') return;
+    this.closePeer();
+    this.update(this.role === 'host' ? 'waiting' : 'disconnected');
+  }
+
+  private clearGrace() {
+    if (this.graceTimer !== null) window.clearTimeout(this.graceTimer);
+    this.graceTimer = null;
+  }
+
+  private closePeer() {
+    if (this.pingTimer !== null) window.clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.clearGrace();
+    const { reliable, unreliable } = this.channels;
+    this.channels = { reliable: null, unreliable: null };
+    reliable?.close();
+    unreliable?.close();
+    this.peer?.close();
+    this.peer = null;
+    this.pendingCandidates = [];
+    this.remotePaddle = null;
+    this.latencyMs = null;
+    this.snapshots.clear();
+  }
+
+  private receive(message: NetMessage) {
+    const now = performance.now();
+    switch (message.type) {
+      case 'ping':
+        this.send({ type: 'pong', t: message.t });
+        return;
+      case 'pong': {
+        const rtt = now - message.t;
+        this.latencyMs = this.latencyMs === null ? rtt : lerp(this.latencyMs, rtt, LATENCY_SMOOTHING);
+        this.onInfo(this.info);
+        return;
+      }
+      case 'paddle':
+        if (this.role === 'host') this.remotePaddle = message.y;
+        return;
+      case 'snapshot':
+        if (this.role === 'client') this.snapshots.push(message.snapshot, now);
+        return;
+    }
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  private fail(message: string) {
+    this.closePeer();
+    this.error = message;
+    this.update('error');
+  }
+
+  private update(status: NetStatus) {
+    this.status = status;
+    this.onInfo(this.info);
+  }
+}
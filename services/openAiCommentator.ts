@@ -0,0 +1,60 @@
+import { CommentaryRequest } from '../types';
+import { CommentaryProvider, COMMENTATOR_PERSONA, buildCommentaryPrompt } from './commentaryProvider';
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Any server that speaks the OpenAI chat-completions API: OpenAI itself, a
+ * local LLM runner (Ollama, llama.cpp, LM Studio...) or the stand-in server in
+ * scripts/commentary-server.mjs.
+ */
+export class OpenAiCommentator implements CommentaryProvider {
+  public readonly id = 'openai';
+  public readonly label: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, model: string = DEFAULT_MODEL, apiKey = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model || DEFAULT_MODEL;
+    this.apiKey = apiKey;
+    this.label = this.baseUrl.replace(/^https?:\/\//, '').split('/')[0] || 'OpenAI-compatible';
+  }
+
+  public get available(): boolean {
+    return this.baseUrl !== '';
+  }
+
+  public async generate(request: CommentaryRequest, signal: AbortSignal): Promise<string> {
+    if (!this.available) throw new Error("Commentary endpoint not configured");
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: COMMENTATOR_PERSONA },
+          { role: 'user', content: buildCommentaryPrompt(request) }
+        ],
+        temperature: 0.9,
+        max_tokens: 60
+      }),
+      signal
+    });
+    if (!response.ok) throw new Error(`Commentary endpoint returned ${response.status}`);
+
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content?.trim();
+    if (!text) throw new Error("Commentary endpoint returned no text");
+    return text;
+  }
+}
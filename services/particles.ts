@@ -0,0 +1,244 @@
+import { EffectsQuality, GameplaySettings, PaddleId, VisualSettings } from '../types';
+import { DEFAULT_GAMEPLAY, speedRatio } from './gameplaySettings';
+
+const MAX_PARTICLES = 400; // Pool size; the oldest spark is recycled when it runs out
+const MAX_TRAIL = 24; // Positions kept per ball at the highest quality
+const TRAIL_BREAK = 0.25; // A jump this far (a reset ball, a replay cut) starts a fresh trail
+const DRAG = 3; // Per second: sparks slow down as they fade
+const SHAKE_DECAY = 6; // Per second
+const FLASH_DECAY = 4; // Per second
+const PULSE_SECONDS = 0.35; // A paddle's glow after a hit
+
+export const EFFECTS_QUALITIES: Record<EffectsQuality, { label: string; particles: number; blur: number; trail: number }> = {
+  low: { label: 'Low', particles: 0.25, blur: 0.3, trail: 6 },
+  medium: { label: 'Medium', particles: 0.6, blur: 0.7, trail: 14 },
+  high: { label: 'High', particles: 1, blur: 1, trail: MAX_TRAIL }
+};
+
+// Both follow the system settings the first time the game loads
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+const prefersContrast = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-contrast: more)').matches;
+
+export const DEFAULT_VISUAL_SETTINGS: VisualSettings = { quality: 'high', reducedMotion: prefersReducedMotion(), highContrast: prefersContrast() };
+
+export interface Particle {
+  x: number; // Normalized 0-1
+  y: number;
+  vx: number; // Heights per second on both axes, so bursts stay round on a wide table
+  vy: number;
+  life: number; // Seconds left
+  maxLife: number;
+  size: number; // Radius, fraction of screen height
+  color: string;
+}
+
+interface Burst {
+  count: number;
+  color: string;
+  speed: number; // Heights per second, before a random spread
+  life: number; // Seconds
+  size: number;
+}
+
+/**
+ * Fixed pool of sparks. Nothing is allocated after construction: emitting
+ * takes the next slot round-robin, overwriting the oldest live spark if the
+ * pool is full.
+ */
+export class ParticlePool {
+  private readonly particles: Particle[];
+  private cursor = 0;
+
+  constructor(capacity = MAX_PARTICLES) {
+    this.particles = Array.from({ length: capacity }, () => ({ x: 0, y: 0, vx: 0, vy: 0, life: 0, maxLife: 1, size: 0, color: '#ffffff' }));
+  }
+
+  public emit(x: number, y: number, burst: Burst) {
+    for (let i = 0; i < burst.count; i++) {
+      const particle = this.particles[this.cursor];
+      this.cursor = (this.cursor + 1) % this.particles.length;
+      const angle = Math.random() * Math.PI * 2;
+      const speed = burst.speed * (0.3 + Math.random() * 0.7);
+      particle.x = x;
+      particle.y = y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.maxLife = burst.life * (0.6 + Math.random() * 0.4);
+      particle.life = particle.maxLife;
+      particle.size = burst.size * (0.5 + Math.random() * 0.5);
+      particle.color = burst.color;
+    }
+  }
+
+  public update(dt: number, aspect: number) {
+    const drag = Math.exp(-DRAG * dt);
+    this.particles.forEach(particle => {
+      if (particle.life <= 0) return;
+      particle.life -= dt;
+      particle.x += (particle.vx * dt) / aspect;
+      particle.y += particle.vy * dt;
+      particle.vx *= drag;
+      particle.vy *= drag;
+    });
+  }
+
+  // Live sparks only
+  public forEach(callback: (particle: Particle) => void) {
+    this.particles.forEach(particle => particle.life > 0 && callback(particle));
+  }
+
+  public clear() {
+    this.particles.forEach(particle => { particle.life = 0; });
+  }
+}
+
+/**
+ * Where each ball has been over the last few frames, newest last. One ring
+ * buffer per ball index, allocated once.
+ */
+export class BallTrails {
+  private readonly points = Array.from({ length: 8 }, () => new Float32Array(MAX_TRAIL * 2));
+  private readonly lengths = new Array<number>(8).fill(0);
+  private readonly heads = new Array<number>(8).fill(0);
+  private balls = 0;
+
+  public record(balls: { x: number; y: number }[], length: number) {
+    const count = Math.min(balls.length, this.points.length);
+    if (count !== this.balls) this.clear(); // Multi-ball started or ended: the indexes no longer line up
+    this.balls = count;
+    length = Math.min(length, MAX_TRAIL);
+
+    for (let i = 0; i < this.balls; i++) {
+      const { x, y } = balls[i];
+      const last = this.point(i, this.lengths[i] - 1);
+      if (last && Math.hypot(last.x - x, last.y - y) > TRAIL_BREAK) this.lengths[i] = 0;
+
+      const buffer = this.points[i];
+      buffer[this.heads[i] * 2] = x;
+      buffer[this.heads[i] * 2 + 1] = y;
+      this.heads[i] = (this.heads[i] + 1) % MAX_TRAIL;
+      this.lengths[i] = Math.min(this.lengths[i] + 1, length);
+    }
+  }
+
+  // Oldest first
+  public forEach(ball: number, callback: (x: number, y: number, index: number, count: number) => void) {
+    const count = ball < this.balls ? this.lengths[ball] : 0;
+    for (let i = 0; i < count; i++) {
+      const point = this.point(ball, i)!;
+      callback(point.x, point.y, i, count);
+    }
+  }
+
+  public clear() {
+    this.lengths.fill(0);
+    this.balls = 0;
+  }
+
+  private point(ball: number, index: number): { x: number; y: number } | null {
+    if (index < 0 || index >= this.lengths[ball]) return null;
+    const slot = (this.heads[ball] - this.lengths[ball] + index + MAX_TRAIL) % MAX_TRAIL;
+    return { x: this.points[ball][slot * 2], y: this.points[ball][slot * 2 + 1] };
+  }
+}
+
+/**
+ * Everything the arena does for show: sparks, trails, the goal shake and
+ * flash, and paddle glow pulses. Driven by game events, advanced and drawn
+ * once per rendered frame.
+ */
+export class ArenaEffects {
+  public readonly particles = new ParticlePool();
+  public readonly trails = new BallTrails();
+  private settings: VisualSettings;
+  private gameplay: GameplaySettings = DEFAULT_GAMEPLAY; // Sparks scale with speed between its serve and top speeds
+  private shakeAmount = 0; // 0-1
+  private flashAmount = 0; // 0-1
+  private flashColor = '#ffffff';
+  private pulses: Record<PaddleId, number> = { p1: 0, p2: 0, p3: 0, p4: 0 }; // Seconds of glow left
+
+  constructor(settings: VisualSettings = DEFAULT_VISUAL_SETTINGS) {
+    this.settings = settings;
+  }
+
+  public configure(settings: VisualSettings) {
+    this.settings = settings;
+    if (settings.reducedMotion) this.reset();
+  }
+
+  public setGameplay(settings: GameplaySettings) {
+    this.gameplay = settings;
+  }
+
+  public get quality() {
+    return EFFECTS_QUALITIES[this.settings.quality];
+  }
+
+  public get reducedMotion() {
+    return this.settings.reducedMotion;
+  }
+
+  // --- Triggers ---
+  public paddleHit(paddle: PaddleId, x: number, y: number, color: string, speed: number, smash: boolean) {
+    if (this.settings.reducedMotion) return;
+    this.pulses[paddle] = PULSE_SECONDS;
+    const strength = speedRatio(speed, this.gameplay);
+    this.burst(x, y, { count: (smash ? 28 : 10) + strength * 14, color, speed: 0.5 + strength * 0.9, life: 0.45, size: 0.006 });
+    if (smash) this.shakeAmount = Math.max(this.shakeAmount, 0.35);
+  }
+
+  public wallBounce(x: number, y: number, color: string, speed: number) {
+    if (this.settings.reducedMotion) return;
+    const strength = speedRatio(speed, this.gameplay);
+    this.burst(x, y, { count: 6 + strength * 8, color, speed: 0.4 + strength * 0.5, life: 0.3, size: 0.005 });
+  }
+
+  // x, y: where the ball left the table
+  public goal(x: number, y: number, color: string) {
+    if (this.settings.reducedMotion) return;
+    this.burst(x, y, { count: 90, color, speed: 1.6, life: 0.9, size: 0.009 });
+    this.burst(x, y, { count: 30, color: '#ffffff', speed: 0.9, life: 0.5, size: 0.005 });
+    this.shakeAmount = 1;
+    this.flashAmount = 1;
+    this.flashColor = color;
+  }
+
+  // --- Per Frame ---
+  public update(dt: number, aspect: number) {
+    this.particles.update(dt, aspect);
+    this.shakeAmount = Math.max(0, this.shakeAmount - SHAKE_DECAY * dt * Math.max(this.shakeAmount, 0.2));
+    this.flashAmount = Math.max(0, this.flashAmount - FLASH_DECAY * dt);
+    (Object.keys(this.pulses) as PaddleId[]).forEach(id => {
+      this.pulses[id] = Math.max(0, this.pulses[id] - dt);
+    });
+  }
+
+  // Random offset for this frame, as a fraction of screen height
+  public shake(): { x: number; y: number } {
+    const amplitude = this.shakeAmount * this.shakeAmount * 0.02;
+    return { x: (Math.random() * 2 - 1) * amplitude, y: (Math.random() * 2 - 1) * amplitude };
+  }
+
+  public flash(): { color: string; alpha: number } {
+    return { color: this.flashColor, alpha: this.flashAmount * 0.35 };
+  }
+
+  // 1 just after a hit, easing to 0
+  public pulse(paddle: PaddleId): number {
+    return this.pulses[paddle] / PULSE_SECONDS;
+  }
+
+  public reset() {
+    this.particles.clear();
+    this.trails.clear();
+    this.shakeAmount = 0;
+    this.flashAmount = 0;
+    this.pulses = { p1: 0, p2: 0, p3: 0, p4: 0 };
+  }
+
+  private burst(x: number, y: number, burst: Burst) {
+    this.particles.emit(x, y, { ...burst, count: Math.round(burst.count * this.quality.particles) });
+  }
+}
@@ -0,0 +1,879 @@
+import { BallState, PlayerState, PlayerId, PaddleId, GameFormat, PowerUpKind, EffectKind, PowerUpSettings, GameplaySettings } from '../types';
+import { sweepCircleRect, sweepCircleWall, sweepCirclePoint, Rect, SweepHit, Vec2 } from './collision';
+import {
+  PowerUpSpawner, PowerUpPickup, POWER_UPS, applyEffect, tickEffects, hasEffect, paddleScale,
+  SLOW_MO_SCALE, CURVE_RATE, CURVE_DECAY_SECONDS, MULTI_BALL_EXTRA, MULTI_BALL_SPREAD, MAX_BALLS
+} from './powerUps';
+import {
+  PUCK_RADIUS, MALLET_RADIUS, MALLET_HOME_X, WALL_RESTITUTION, PUCK_FRICTION, PUCK_MAX_SPEED, MALLET_MAX_SPEED,
+  clampMallet, endWalls, strikeVelocity, inGoalMouth
+} from './airHockey';
+import { DEFAULT_GAMEPLAY } from './gameplaySettings';
+
+// --- Constants ---
+// Sizes and speeds a match actually uses come from its GameplaySettings; these are the defaults
+export const PADDLE_HEIGHT = DEFAULT_GAMEPLAY.paddleHeight; // Fraction of screen height
+export const PADDLE_WIDTH = 0.02; // 2% of screen width
+export const PADDLE_INSET = 0.01; // Gap between the back wall and the paddle, fraction of width
+export const BALL_SIZE = DEFAULT_GAMEPLAY.ballSize; // Radius, fraction of screen height
+export const DEFAULT_ASPECT_RATIO = 16 / 9;
+export const FRONT_LANE_X = 0.25; // Doubles lanes: front paddle's distance from its own back wall, fraction of width
+
+// Velocities are in normalized units per second
+export const INITIAL_SPEED = DEFAULT_GAMEPLAY.initialSpeed;
+export const MAX_SPEED = DEFAULT_GAMEPLAY.maxSpeed;
+const SERVE_VY_SPREAD = 3.6; // Random vertical serve velocity range (centred on 0)
+
+// Smash: a boosted front-face return (pinch or push at contact)
+const SMASH_MULTIPLIER = 1.35;
+const SMASH_SPEED_CAP = 1.25; // Smashes may briefly exceed the top speed by this factor
+
+// Assisted play, for players with limited mobility (or on one switch)
+const ASSIST_PADDLE_SCALE = 1.5;
+const ASSIST_BALL_SCALE = 0.65; // Time scale for balls heading at an assisted side's goal
+
+// FIXED TIMESTEP
+export const PHYSICS_STEP = 1 / 120; // Seconds per simulation tick
+const MAX_FRAME_TIME = 0.25; // Drop time beyond this to avoid a spiral of death after tab switches
+const MAX_COLLISIONS_PER_STEP = 4;
+const MIN_EDGE_DEFLECT = 0.25; // Fraction of the serve speed kept away from a paddle's line after an edge hit
+const CONTACT_SEPARATION = 1e-6; // Push the ball off a surface after a bounce so it can't re-hit it
+const STRIKE_EVENT_GAP = 0.15; // Seconds; a puck held against a mallet counts as one hit, not one per tick
+
+export type PhysicsEvent =
+  | { type: 'paddle_hit'; player: PlayerId; paddle: PaddleId; intersectY: number; smash: boolean; speed: number; x: number; y: number } // player: the team; x, y: the ball's
+  | { type: 'wall_bounce'; x: number; y: number; speed: number }
+  | { type: 'serve'; server: PlayerId }
+  | { type: 'score'; scorer: PlayerId; server: PlayerId; y: number; bank: boolean; at: { x: number; y: number } } // y: where along the goal line the ball crossed; at: where it left the table
+  | { type: 'power_up'; player: PlayerId; kind: PowerUpKind } // player: who collected it
+  | { type: 'power_up_end'; player: PlayerId; kind: EffectKind }; // player: the side the effect was on
+
+// A ball in play, with what the power-ups need to know about it
+export interface PhysicsBall extends BallState {
+  lastHit: PlayerId | null; // Side that last returned it, which collects any power-up it touches
+  curve: number; // Turn rate from a curve-ball return, radians per second (0 = straight)
+  banks: number; // Wall bounces since the last hit (air hockey bank shots)
+}
+
+// Interpolated positions for rendering between two simulation ticks
+export interface RenderSnapshot {
+  balls: BallState[]; // The first is the main ball; more only during multi-ball
+  paddleLength: Record<PlayerId, number>; // Per side, after grow/shrink
+  p1Y: number;
+  p2Y: number;
+  p3Pos: number; // Doubles partners, along whichever axis their paddle slides
+  p4Pos: number;
+  p1X: number; // Air-hockey mallets across the table
+  p2X: number;
+}
+
+// A paddle's swept motion over one tick, in normalized coordinates
+interface PaddleSweep {
+  id: PaddleId;
+  axis: 'x' | 'y'; // The axis it slides along
+  from: number;
+  to: number;
+  direction: 1 | -1; // Sign of the return velocity across the axis: P1's side sends right (or down), P2's left (or up)
+  oneWay: boolean; // Front-lane paddles let their own team's returns pass through
+  length: number;
+}
+
+// An air-hockey mallet's motion over one tick, in world units
+interface MalletSweep {
+  id: PlayerId;
+  from: Vec2;
+  disp: Vec2;
+  radius: number;
+}
+
+interface TickState {
+  balls: { x: number; y: number }[];
+  p1Y: number;
+  p2Y: number;
+  p3Pos: number;
+  p4Pos: number;
+  p1X: number;
+  p2X: number;
+}
+
+export const PADDLE_IDS: PaddleId[] = ['p1', 'p2', 'p3', 'p4'];
+
+export const teamOf = (id: PaddleId): PlayerId => (id === 'p1' || id === 'p3' ? 'p1' : 'p2');
+
+export const GAME_FORMATS: { id: GameFormat; label: string }[] = [
+  { id: 'singles', label: 'Singles' },
+  { id: 'doubles_lanes', label: '2v2 Lanes' },
+  { id: 'doubles_walls', label: '2v2 Four Walls' },
+  { id: 'air_hockey', label: 'Air Hockey' }
+];
+
+export const isDoubles = (format: GameFormat) => format === 'doubles_lanes' || format === 'doubles_walls';
+
+// The paddles in play for a format
+export const paddlesIn = (format: GameFormat): PaddleId[] => (isDoubles(format) ? PADDLE_IDS : ['p1', 'p2']);
+
+export const paddleAxis = (format: GameFormat, id: PaddleId): 'x' | 'y' =>
+  format === 'doubles_walls' && (id === 'p3' || id === 'p4') ? 'x' : 'y';
+
+/**
+ * A paddle's rectangle in normalized coordinates, centred on `pos` along its axis.
+ * Top/bottom paddles cover the same fraction of their edge as side paddles do of
+ * theirs, with the same on-screen thickness and gap to the edge.
+ */
+export const paddleRect = (format: GameFormat, id: PaddleId, pos: number, aspect: number, length = PADDLE_HEIGHT): Rect => {
+  const across = (min: number, max: number): Rect => ({ minX: min, maxX: max, minY: pos - length / 2, maxY: pos + length / 2 });
+  switch (id) {
+    case 'p1':
+      return across(PADDLE_INSET, PADDLE_INSET + PADDLE_WIDTH);
+    case 'p2':
+      return across(1 - PADDLE_INSET - PADDLE_WIDTH, 1 - PADDLE_INSET);
+    case 'p3':
+    case 'p4': {
+      if (format !== 'doubles_walls') {
+        const laneX = id === 'p3' ? FRONT_LANE_X : 1 - FRONT_LANE_X;
+        return across(laneX - PADDLE_WIDTH / 2, laneX + PADDLE_WIDTH / 2);
+      }
+      const inset = PADDLE_INSET * aspect;
+      const thickness = PADDLE_WIDTH * aspect;
+      const minY = id === 'p3' ? inset : 1 - inset - thickness;
+      return { minX: pos - length / 2, maxX: pos + length / 2, minY, maxY: minY + thickness };
+    }
+  }
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const other = (id: PlayerId): PlayerId => (id === 'p1' ? 'p2' : 'p1');
+
+// Turn a world-space velocity (x already scaled by aspect) by `angle` radians
+const rotate = (wx: number, wy: number, angle: number) => ({
+  wx: wx * Math.cos(angle) - wy * Math.sin(angle),
+  wy: wx * Math.sin(angle) + wy * Math.cos(angle)
+});
+
+export class PhysicsEngine {
+  public balls: PhysicsBall[];
+  public player1: PlayerState;
+  public player2: PlayerState;
+  public readonly powerUps = new PowerUpSpawner();
+
+  private aspect = DEFAULT_ASPECT_RATIO; // Width / height of the arena
+  private format: GameFormat = 'singles';
+  private accumulator = 0;
+  private previous: TickState;
+  private paddleTargets: Record<PaddleId, number> = { p1: 0.5, p2: 0.5, p3: 0.5, p4: 0.5 };
+  private malletTargetX: Record<PlayerId, number> = { p1: MALLET_HOME_X, p2: 1 - MALLET_HOME_X };
+  private smashArmed: Record<PaddleId, boolean> = { p1: false, p2: false, p3: false, p4: false };
+  private serveHold = false;
+  private pendingServe: { server: PlayerId; vx: number; vy: number } | null = null;
+  private served: PlayerId | null = null; // Launched since the last tick, reported by the next one
+  private server: PlayerId = 'p2'; // Who served the point in play (the opening ball heads right, like a p1 goal)
+  private clock = 0; // Simulated seconds
+  private lastStrike: Record<PlayerId, number> = { p1: -Infinity, p2: -Infinity }; // When each mallet last reported a hit
+  private tuning: GameplaySettings = DEFAULT_GAMEPLAY;
+  private pendingTuning: GameplaySettings | null = null; // Waiting for the next serve
+  private assist: Record<PlayerId, boolean> = { p1: false, p2: false };
+
+  constructor(player1: PlayerState, player2: PlayerState) {
+    this.player1 = player1;
+    this.player2 = player2;
+    this.balls = [{ x: 0.5, y: 0.5, vx: INITIAL_SPEED, vy: 0.6, speed: INITIAL_SPEED, lastHit: null, curve: 0, banks: 0 }];
+    this.previous = this.captureTick();
+  }
+
+  // The main ball (the only one outside multi-ball)
+  public get ball(): PhysicsBall {
+    return this.balls[0];
+  }
+
+  // The ball that will reach a side's goal line first, for the CPU to defend against
+  public incomingBall(side: PlayerId): PhysicsBall {
+    const direction = side === 'p1' ? -1 : 1;
+    let best = this.balls[0];
+    let bestTime = Infinity;
+    for (const ball of this.balls) {
+      if (ball.vx * direction <= 0) continue;
+      const time = (side === 'p1' ? ball.x : 1 - ball.x) / Math.abs(ball.vx);
+      if (time < bestTime) {
+        best = ball;
+        bestTime = time;
+      }
+    }
+    return best;
+  }
+
+  // Length of a side's paddles after grow/shrink and assistance
+  public paddleLength(id: PlayerId): number {
+    return this.tuning.paddleHeight * paddleScale(this.getPlayer(id)) * (this.assist[id] ? ASSIST_PADDLE_SCALE : 1);
+  }
+
+  public setAssist(assist: Record<PlayerId, boolean>) {
+    this.assist = { ...assist };
+  }
+
+  // Air-hockey mallet radius after grow/shrink, fraction of height. The paddle size setting scales it too
+  public malletRadius(id: PlayerId): number {
+    return MALLET_RADIUS * (this.paddleLength(id) / PADDLE_HEIGHT);
+  }
+
+  // Ball (or puck) radius for the current format, fraction of height
+  public get ballRadius(): number {
+    return this.format === 'air_hockey' ? PUCK_RADIUS : this.tuning.ballSize;
+  }
+
+  // The settings in play (new ones wait for the next serve)
+  public get gameplay(): GameplaySettings {
+    return this.tuning;
+  }
+
+  /**
+   * Sizes and speeds take effect at the next serve, so a rally in progress
+   * never changes under the players. `immediate` applies them now, for when
+   * nothing is in play.
+   */
+  public setGameplay(settings: GameplaySettings, immediate = false) {
+    if (immediate) {
+      this.tuning = settings;
+      this.pendingTuning = null;
+    } else if (settings !== this.tuning) {
+      this.pendingTuning = settings;
+    }
+  }
+
+  public get pickups(): PowerUpPickup[] {
+    return this.powerUps.pickups;
+  }
+
+  public setPowerUps(settings: PowerUpSettings) {
+    this.powerUps.configure(settings);
+  }
+
+  public getPlayer(id: PlayerId): PlayerState {
+    return id === 'p1' ? this.player1 : this.player2;
+  }
+
+  // Centre of a paddle along its axis
+  public getPaddlePos(id: PaddleId): number {
+    const player = this.getPlayer(teamOf(id));
+    return id === 'p1' || id === 'p2' ? player.y : player.partner;
+  }
+
+  private setPaddlePos(id: PaddleId, pos: number) {
+    const player = this.getPlayer(teamOf(id));
+    if (id === 'p1' || id === 'p2') player.y = pos;
+    else player.partner = pos;
+  }
+
+  public setFormat(format: GameFormat) {
+    this.format = format;
+    this.paddleTargets.p3 = this.paddleTargets.p4 = 0.5;
+    this.player1.partner = this.player2.partner = 0.5;
+    this.malletTargetX = { p1: MALLET_HOME_X, p2: 1 - MALLET_HOME_X };
+    this.player1.x = MALLET_HOME_X;
+    this.player2.x = 1 - MALLET_HOME_X;
+    this.previous = this.captureTick();
+  }
+
+  public getFormat(): GameFormat {
+    return this.format;
+  }
+
+  public setAspectRatio(aspect: number) {
+    if (aspect > 0 && Number.isFinite(aspect)) this.aspect = aspect;
+  }
+
+  public getAspectRatio(): number {
+    return this.aspect;
+  }
+
+  // Input writes the desired paddle position; the paddle itself only moves on simulation ticks
+  public setPaddleTarget(id: PaddleId, pos: number) {
+    this.paddleTargets[id] = pos;
+  }
+
+  // Air hockey: where a mallet should be across the table (its height comes from setPaddleTarget)
+  public setMalletTargetX(id: PlayerId, x: number) {
+    this.malletTargetX[id] = x;
+  }
+
+  // A paddle armed for a smash sends its next front-face return back faster
+  public setSmashArmed(id: PaddleId, armed: boolean) {
+    this.smashArmed[id] = armed;
+  }
+
+  // While held, the ball waits at the centre after each goal until serve() is called
+  public setServeHold(hold: boolean) {
+    this.serveHold = hold;
+    if (!hold) this.serve();
+  }
+
+  // The player due to serve, or null when the ball is in play
+  public get awaitingServe(): PlayerId | null {
+    return this.pendingServe?.server ?? null;
+  }
+
+  public serve() {
+    if (!this.pendingServe) return;
+    this.ball.vx = this.pendingServe.vx;
+    this.ball.vy = this.pendingServe.vy;
+    this.served = this.pendingServe.server;
+    this.pendingServe = null;
+  }
+
+  // Outside of play (menu), paddles follow their targets without simulating anything
+  public syncPaddles() {
+    PADDLE_IDS.forEach(id => this.setPaddlePos(id, this.paddleTargets[id]));
+    if (this.format === 'air_hockey') {
+      (['p1', 'p2'] as PlayerId[]).forEach(id => {
+        const player = this.getPlayer(id);
+        const mallet = clampMallet(id, this.malletTargetX[id], this.paddleTargets[id], this.aspect, this.malletRadius(id));
+        player.x = mallet.x;
+        player.y = mallet.y;
+      });
+    }
+    this.accumulator = 0;
+    this.previous = this.captureTick();
+  }
+
+  // Reset ball with Progressive Difficulty
+  public resetBall(scorer: PlayerId, waitForServe = false) {
+    if (this.pendingTuning) {
+      this.tuning = this.pendingTuning;
+      this.pendingTuning = null;
+    }
+    const { initialSpeed, serveBoostPerGoal, maxServeBoost } = this.tuning;
+    const totalScore = this.player1.score + this.player2.score;
+    const difficultyBoost = Math.min(totalScore * serveBoostPerGoal, maxServeBoost);
+    const startSpeed = initialSpeed + difficultyBoost;
+    const vx = scorer === 'p1' ? startSpeed : -startSpeed; // Loser serves
+    const vy = (Math.random() - 0.5) * SERVE_VY_SPREAD; // More random initial serving angle
+
+    this.server = scorer === 'p1' ? 'p2' : 'p1';
+
+    // Air hockey: the puck waits at rest in the conceding half; there is nothing to serve
+    if (this.format === 'air_hockey') {
+      this.pendingServe = null;
+      this.served = null;
+      this.balls = [{ x: this.server === 'p1' ? 0.25 : 0.75, y: 0.5, vx: 0, vy: 0, speed: 0, lastHit: null, curve: 0, banks: 0 }];
+      this.previous = this.captureTick();
+      return;
+    }
+
+    this.pendingServe = waitForServe ? { server: this.server, vx, vy } : null;
+    this.served = waitForServe ? null : this.server;
+    // A goal ends the rally, so any multi-balls go too
+    this.balls = [{
+      x: 0.5,
+      y: 0.5,
+      vx: waitForServe ? 0 : vx,
+      vy: waitForServe ? 0 : vy,
+      speed: startSpeed,
+      lastHit: null,
+      curve: 0,
+      banks: 0
+    }];
+    // Teleport: don't interpolate from the goal line back to the centre
+    this.previous = this.captureTick();
+  }
+
+  public resetMatch() {
+    this.player1.score = 0;
+    this.player2.score = 0;
+    this.player1.effects = {};
+    this.player2.effects = {};
+    this.powerUps.reset();
+    this.accumulator = 0;
+    this.resetBall(Math.random() > 0.5 ? 'p1' : 'p2');
+  }
+
+  /**
+   * Feed real elapsed time (seconds) into the accumulator and run as many fixed
+   * ticks as fit. Returns every event produced by those ticks, in order.
+   * `onTick` runs after each tick with that tick's events (for recording).
+   */
+  public advance(frameTime: number, onTick?: (tickEvents: PhysicsEvent[]) => void): PhysicsEvent[] {
+    const events: PhysicsEvent[] = [];
+    this.accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+
+    while (this.accumulator >= PHYSICS_STEP) {
+      this.previous = this.captureTick();
+      const first = events.length;
+      this.step(PHYSICS_STEP, events);
+      this.accumulator -= PHYSICS_STEP;
+      onTick?.(events.slice(first));
+    }
+    return events;
+  }
+
+  // Blend between the last two ticks by how far we are into the next one
+  public getRenderSnapshot(): RenderSnapshot {
+    const alpha = this.accumulator / PHYSICS_STEP;
+    const prev = this.previous;
+    // Balls that appeared this tick (multi-ball) have nothing to blend from
+    const blend = prev.balls.length === this.balls.length;
+    return {
+      balls: this.balls.map((ball, i) => blend
+        ? { ...ball, x: lerp(prev.balls[i].x, ball.x, alpha), y: lerp(prev.balls[i].y, ball.y, alpha) }
+        : { ...ball }),
+      paddleLength: { p1: this.paddleLength('p1'), p2: this.paddleLength('p2') },
+      p1Y: lerp(prev.p1Y, this.player1.y, alpha),
+      p2Y: lerp(prev.p2Y, this.player2.y, alpha),
+      p3Pos: lerp(prev.p3Pos, this.player1.partner, alpha),
+      p4Pos: lerp(prev.p4Pos, this.player2.partner, alpha),
+      p1X: lerp(prev.p1X, this.player1.x, alpha),
+      p2X: lerp(prev.p2X, this.player2.x, alpha)
+    };
+  }
+
+  private captureTick(): TickState {
+    return {
+      balls: this.balls.map(ball => ({ x: ball.x, y: ball.y })),
+      p1Y: this.player1.y,
+      p2Y: this.player2.y,
+      p3Pos: this.player1.partner,
+      p4Pos: this.player2.partner,
+      p1X: this.player1.x,
+      p2X: this.player2.x
+    };
+  }
+
+  private step(dt: number, events: PhysicsEvent[]) {
+    this.clock += dt;
+    if (this.served) {
+      events.push({ type: 'serve', server: this.served });
+      this.served = null;
+    }
+    const airHockey = this.format === 'air_hockey';
+    const paddles = airHockey ? [] : this.movePaddles();
+    const mallets = airHockey ? this.moveMallets(dt) : [];
+
+    // Power-ups and their timers stand still while the ball waits for a serve
+    if (!this.pendingServe) this.updatePowerUps(dt, events);
+
+    for (const ball of [...this.balls]) { // Multi-ball may add balls mid-loop; they start next tick
+      const goal = airHockey ? this.stepPuck(ball, mallets, dt, events) : this.stepBall(ball, paddles, dt, events);
+      if (goal) {
+        this.getPlayer(goal.scorer).score += 1;
+        // A bank shot: the scorer's own hit found the goal off a wall
+        const bank = airHockey && ball.lastHit === goal.scorer && ball.banks > 0;
+        const at = { x: Math.max(0, Math.min(1, ball.x)), y: Math.max(0, Math.min(1, ball.y)) };
+        events.push({ type: 'score', scorer: goal.scorer, server: this.server, y: Math.max(0, Math.min(1, goal.along)), bank, at });
+        this.resetBall(goal.scorer, this.serveHold);
+        return;
+      }
+    }
+  }
+
+  // Paddles move linearly from their last position to their target over the tick
+  private movePaddles(): PaddleSweep[] {
+    const format = this.format;
+    const paddles: PaddleSweep[] = paddlesIn(format).map(id => {
+      const team = teamOf(id);
+      const target = this.paddleTargets[id];
+      return {
+        id,
+        axis: paddleAxis(format, id),
+        from: this.getPaddlePos(id),
+        to: hasEffect(this.getPlayer(team), 'reverse') ? 1 - target : target,
+        direction: team === 'p1' ? 1 : -1,
+        oneWay: format === 'doubles_lanes' && (id === 'p3' || id === 'p4'),
+        length: this.paddleLength(team)
+      };
+    });
+    paddles.forEach(paddle => this.setPaddlePos(paddle.id, paddle.to));
+    return paddles;
+  }
+
+  // Mallets chase their targets at a capped speed without leaving their half
+  private moveMallets(dt: number): MalletSweep[] {
+    const aspect = this.aspect;
+    return (['p1', 'p2'] as PlayerId[]).map(id => {
+      const player = this.getPlayer(id);
+      const radius = this.malletRadius(id);
+      const targetY = hasEffect(player, 'reverse') ? 1 - this.paddleTargets[id] : this.paddleTargets[id];
+      const target = clampMallet(id, this.malletTargetX[id], targetY, aspect, radius);
+      const from: Vec2 = { x: player.x * aspect, y: player.y };
+      const disp: Vec2 = { x: target.x * aspect - from.x, y: target.y - from.y };
+      const distance = Math.hypot(disp.x, disp.y);
+      const maxStep = MALLET_MAX_SPEED * dt;
+      if (distance > maxStep) {
+        disp.x *= maxStep / distance;
+        disp.y *= maxStep / distance;
+      }
+      player.x = (from.x + disp.x) / aspect;
+      player.y = from.y + disp.y;
+      return { id, from, disp, radius };
+    });
+  }
+
+  private updatePowerUps(dt: number, events: PhysicsEvent[]) {
+    // Keep pickups clear of the top and bottom paddles in the four-wall arena
+    this.powerUps.update(dt, this.format === 'doubles_walls' ? 0.25 : undefined);
+    (['p1', 'p2'] as PlayerId[]).forEach(id => {
+      tickEffects(this.getPlayer(id), dt).forEach(kind => events.push({ type: 'power_up_end', player: id, kind }));
+    });
+  }
+
+  // Moves one ball through the tick. Returns the goal it scored, if any
+  private stepBall(ball: PhysicsBall, paddles: PaddleSweep[], dt: number, events: PhysicsEvent[]): { scorer: PlayerId; along: number } | null {
+    const aspect = this.aspect;
+    const format = this.format;
+    const walls = format === 'doubles_walls'; // Top and bottom edges are goals, not walls
+    const startX = ball.x;
+    const startY = ball.y;
+    const ballDt = this.applyBallEffects(ball, dt);
+
+    // Ball: find the earliest contact, bounce, then spend the leftover time with the new velocity
+    let elapsed = 0; // Fraction of dt already simulated
+    for (let i = 0; i < MAX_COLLISIONS_PER_STEP && elapsed < 1; i++) {
+      const remaining = 1 - elapsed;
+      const pos: Vec2 = { x: ball.x * aspect, y: ball.y };
+      const disp: Vec2 = { x: ball.vx * aspect * ballDt * remaining, y: ball.vy * ballDt * remaining };
+
+      let hit: SweepHit | null = walls ? null : sweepCircleWall(pos, disp, this.tuning.ballSize, 0, 1);
+      let hitPaddle: PaddleSweep | null = null;
+
+      for (const paddle of paddles) {
+        const vertical = paddle.axis === 'y';
+        if (paddle.oneWay && (vertical ? ball.vx : ball.vy) * paddle.direction > 0) continue;
+
+        // Sweep in the paddle's frame so a moving paddle can catch the ball
+        const paddlePos = paddle.from + (paddle.to - paddle.from) * elapsed;
+        const paddleDisp = (paddle.to - paddle.from) * remaining;
+        const rect = paddleRect(format, paddle.id, paddlePos, aspect, paddle.length);
+        const relative = vertical ? { x: disp.x, y: disp.y - paddleDisp } : { x: disp.x - paddleDisp * aspect, y: disp.y };
+        const paddleHit = sweepCircleRect(pos, relative, this.tuning.ballSize, {
+          minX: rect.minX * aspect,
+          maxX: rect.maxX * aspect,
+          minY: rect.minY,
+          maxY: rect.maxY
+        });
+        if (paddleHit && (!hit || paddleHit.t < hit.t)) {
+          hit = paddleHit;
+          hitPaddle = paddle;
+        }
+      }
+
+      if (!hit) {
+        ball.x += disp.x / aspect;
+        ball.y += disp.y;
+        elapsed = 1;
+        break;
+      }
+
+      const contact: SweepHit = hit;
+      ball.x += (disp.x * contact.t) / aspect;
+      ball.y += disp.y * contact.t;
+      elapsed += remaining * contact.t;
+
+      if (hitPaddle) {
+        this.bounceOffPaddle(ball, hitPaddle, contact.normal, elapsed, dt, events);
+      } else {
+        ball.vy *= -1;
+        ball.curve *= -1; // Keep bending away from the wall it just left
+        events.push({ type: 'wall_bounce', x: ball.x, y: ball.y, speed: ball.speed });
+      }
+      ball.x += (contact.normal.x * CONTACT_SEPARATION) / aspect;
+      ball.y += contact.normal.y * CONTACT_SEPARATION;
+    }
+    // Out of contacts with time left (a ball wedged against a paddle): spend the rest of the tick
+    // without collision checks, so it doesn't stall, but still inside the top and bottom walls
+    if (elapsed < 1) {
+      const remaining = 1 - elapsed;
+      ball.x += ball.vx * ballDt * remaining;
+      ball.y += ball.vy * ballDt * remaining;
+      if (!walls) ball.y = Math.max(this.tuning.ballSize, Math.min(1 - this.tuning.ballSize, ball.y));
+    }
+
+    // Shield: a barrier along a side's goal line
+    const radiusX = this.tuning.ballSize / aspect;
+    if (ball.vx < 0 && ball.x < radiusX && hasEffect(this.player1, 'shield')) {
+      ball.x = radiusX;
+      ball.vx = -ball.vx;
+      events.push({ type: 'wall_bounce', x: ball.x, y: ball.y, speed: ball.speed });
+    } else if (ball.vx > 0 && ball.x > 1 - radiusX && hasEffect(this.player2, 'shield')) {
+      ball.x = 1 - radiusX;
+      ball.vx = -ball.vx;
+      events.push({ type: 'wall_bounce', x: ball.x, y: ball.y, speed: ball.speed });
+    }
+
+    this.collectPowerUp(ball, startX, startY, events);
+
+    // Scoring - allow ball to go slightly off screen before resetting
+    if (ball.x < -0.05) return { scorer: 'p2', along: ball.y };
+    if (ball.x > 1.05) return { scorer: 'p1', along: ball.y };
+    // Top edge is P1's team's goal, bottom edge P2's
+    if (walls && ball.y < -0.05) return { scorer: 'p2', along: ball.x };
+    if (walls && ball.y > 1.05) return { scorer: 'p1', along: ball.x };
+    return null;
+  }
+
+  /**
+   * Slow motion, assistance and curve ball, for either kind of ball. Returns the
+   * time step this ball runs at: a ball heading at a slowed side's goal covers less ground.
+   */
+  private applyBallEffects(ball: PhysicsBall, dt: number): number {
+    const aspect = this.aspect;
+    const defender: PlayerId = ball.vx < 0 ? 'p1' : 'p2';
+    const ballDt = dt * (hasEffect(this.getPlayer(defender), 'slow_mo') ? SLOW_MO_SCALE : 1) * (this.assist[defender] ? ASSIST_BALL_SCALE : 1);
+
+    // Curve ball: turn the velocity in world space (speed is unchanged), fading out over time
+    if (ball.curve !== 0) {
+      const turned = rotate(ball.vx * aspect, ball.vy, ball.curve * ballDt);
+      ball.vx = turned.wx / aspect;
+      ball.vy = turned.wy;
+      ball.curve *= Math.exp(-ballDt / CURVE_DECAY_SECONDS);
+      if (Math.abs(ball.curve) < 0.05) ball.curve = 0;
+    }
+    return ballDt;
+  }
+
+  // Power-ups go to whoever last returned the ball; a fresh serve passes through them
+  private collectPowerUp(ball: PhysicsBall, startX: number, startY: number, events: PhysicsEvent[]) {
+    if (!ball.lastHit) return;
+    const pickup = this.powerUps.collect(startX, startY, ball.x, ball.y, this.ballRadius, this.aspect);
+    if (pickup) this.activatePowerUp(pickup, ball, events);
+  }
+
+  // --- Air Hockey ---
+  // Moves one puck through the tick: friction, walls with goal mouths, and mallet strikes
+  private stepPuck(puck: PhysicsBall, mallets: MalletSweep[], dt: number, events: PhysicsEvent[]): { scorer: PlayerId; along: number } | null {
+    const aspect = this.aspect;
+    const startX = puck.x;
+    const startY = puck.y;
+    const puckDt = this.applyBallEffects(puck, dt);
+
+    const damping = Math.exp(-PUCK_FRICTION * puckDt);
+    puck.vx *= damping;
+    puck.vy *= damping;
+
+    const walls = endWalls(aspect, { p1: hasEffect(this.player1, 'shield'), p2: hasEffect(this.player2, 'shield') });
+    const firstEvent = events.length;
+
+    let elapsed = 0; // Fraction of dt already simulated
+    let contacts = 0;
+    let wallNormal: Vec2 | null = null; // Last wall touched, and the last mallet, for a pinned puck
+    let pinner: MalletSweep | null = null;
+    for (let i = 0; i < MAX_COLLISIONS_PER_STEP && elapsed < 1; i++) {
+      const remaining = 1 - elapsed;
+      const pos: Vec2 = { x: puck.x * aspect, y: puck.y };
+      const disp: Vec2 = { x: puck.vx * aspect * puckDt * remaining, y: puck.vy * puckDt * remaining };
+
+      let hit: SweepHit | null = sweepCircleWall(pos, disp, PUCK_RADIUS, 0, 1);
+      let hitMallet: MalletSweep | null = null;
+      for (const wall of walls) {
+        const wallHit = sweepCircleRect(pos, disp, PUCK_RADIUS, wall);
+        if (wallHit && (!hit || wallHit.t < hit.t)) hit = wallHit;
+      }
+      for (const mallet of mallets) {
+        // Sweep in the mallet's frame so a swing can catch the puck
+        const centre: Vec2 = { x: mallet.from.x + mallet.disp.x * elapsed, y: mallet.from.y + mallet.disp.y * elapsed };
+        const relative: Vec2 = { x: disp.x - mallet.disp.x * remaining, y: disp.y - mallet.disp.y * remaining };
+        const malletHit = sweepCirclePoint(pos, relative, PUCK_RADIUS + mallet.radius, centre);
+        if (malletHit && (!hit || malletHit.t < hit.t)) {
+          hit = malletHit;
+          hitMallet = mallet;
+        }
+      }
+
+      if (!hit) {
+        puck.x += disp.x / aspect;
+        puck.y += disp.y;
+        break;
+      }
+
+      const contact: SweepHit = hit;
+      puck.x += (disp.x * contact.t) / aspect;
+      puck.y += disp.y * contact.t;
+      elapsed += remaining * contact.t;
+      contacts++;
+
+      if (hitMallet) {
+        this.strikePuck(puck, hitMallet, contact.normal, dt, events);
+        pinner = hitMallet;
+      } else {
+        wallNormal = contact.normal;
+        // Reflect off the wall (or a goal post), losing a little speed
+        const wx = puck.vx * aspect;
+        const dot = wx * contact.normal.x + puck.vy * contact.normal.y;
+        if (dot < 0) {
+          puck.vx = (wx - (1 + WALL_RESTITUTION) * dot * contact.normal.x) / aspect;
+          puck.vy -= (1 + WALL_RESTITUTION) * dot * contact.normal.y;
+        }
+        puck.curve *= -1;
+        puck.banks++;
+        events.push({ type: 'wall_bounce', x: puck.x, y: puck.y, speed: puck.speed });
+      }
+      puck.x += (contact.normal.x * CONTACT_SEPARATION) / aspect;
+      puck.y += contact.normal.y * CONTACT_SEPARATION;
+    }
+    // Still colliding when the budget ran out: the puck is pinned between a mallet and a wall.
+    // Rather than rattle at full speed it slides along the wall with the mallet's sideways motion
+    // (so it can be scraped loose), and quietly
+    if (contacts === MAX_COLLISIONS_PER_STEP && elapsed < 1) {
+      let slide: Vec2 = { x: 0, y: 0 };
+      if (wallNormal && pinner) {
+        const tangent: Vec2 = { x: -wallNormal.y, y: wallNormal.x };
+        const along = (pinner.disp.x * tangent.x + pinner.disp.y * tangent.y) / dt;
+        slide = { x: tangent.x * along, y: tangent.y * along };
+      }
+      puck.vx = slide.x / aspect;
+      puck.vy = slide.y;
+      puck.curve = 0;
+      events.length = firstEvent;
+    }
+    // However hard it's squeezed, the puck stays inside the walls (and doesn't keep pressing into them)
+    const radiusX = PUCK_RADIUS / aspect;
+    if (puck.y <= PUCK_RADIUS) {
+      puck.y = PUCK_RADIUS;
+      puck.vy = Math.max(0, puck.vy);
+    } else if (puck.y >= 1 - PUCK_RADIUS) {
+      puck.y = 1 - PUCK_RADIUS;
+      puck.vy = Math.min(0, puck.vy);
+    }
+    if (!inGoalMouth(puck.y) && puck.x <= radiusX) {
+      puck.x = radiusX;
+      puck.vx = Math.max(0, puck.vx);
+    } else if (!inGoalMouth(puck.y) && puck.x >= 1 - radiusX) {
+      puck.x = 1 - radiusX;
+      puck.vx = Math.min(0, puck.vx);
+    }
+    puck.speed = Math.hypot(puck.vx * aspect, puck.vy) / aspect;
+
+    // A puck pinned against a wall doesn't give way: the mallet stops at its edge instead
+    mallets.forEach(mallet => {
+      const player = this.getPlayer(mallet.id);
+      const dx = (player.x - puck.x) * aspect;
+      const dy = player.y - puck.y;
+      const distance = Math.hypot(dx, dy);
+      const reach = PUCK_RADIUS + mallet.radius;
+      if (distance >= reach || distance === 0) return;
+      const pushed = clampMallet(mallet.id, puck.x + (dx / distance) * reach / aspect, puck.y + (dy / distance) * reach, aspect, mallet.radius);
+      player.x = pushed.x;
+      player.y = pushed.y;
+    });
+
+    this.collectPowerUp(puck, startX, startY, events);
+
+    // Goal: the puck's centre is through the mouth
+    if (puck.x < 0) return { scorer: 'p2', along: puck.y };
+    if (puck.x > 1) return { scorer: 'p1', along: puck.y };
+    return null;
+  }
+
+  private strikePuck(puck: PhysicsBall, mallet: MalletSweep, normal: Vec2, dt: number, events: PhysicsEvent[]) {
+    const aspect = this.aspect;
+    const malletVelocity: Vec2 = { x: mallet.disp.x / dt, y: mallet.disp.y / dt };
+    let velocity = strikeVelocity({ x: puck.vx * aspect, y: puck.vy }, malletVelocity, normal);
+
+    const smash = this.smashArmed[mallet.id];
+    if (smash) velocity = { x: velocity.x * SMASH_MULTIPLIER, y: velocity.y * SMASH_MULTIPLIER };
+    const speed = Math.hypot(velocity.x, velocity.y);
+    const maxSpeed = PUCK_MAX_SPEED * (smash ? SMASH_SPEED_CAP : 1);
+    if (speed > maxSpeed) velocity = { x: (velocity.x * maxSpeed) / speed, y: (velocity.y * maxSpeed) / speed };
+
+    puck.vx = velocity.x / aspect;
+    puck.vy = velocity.y;
+    puck.speed = Math.hypot(velocity.x, velocity.y) / aspect;
+    puck.lastHit = mallet.id;
+    puck.banks = 0;
+    puck.curve = 0;
+    if (hasEffect(this.getPlayer(mallet.id), 'curve') && puck.speed > 0) {
+      const sideways = velocity.x * velocity.y * (mallet.id === 'p1' ? 1 : -1);
+      puck.curve = (sideways === 0 ? (Math.random() < 0.5 ? 1 : -1) : -Math.sign(sideways)) * CURVE_RATE;
+    }
+
+    // Where on the mallet it struck, top (-1) to bottom (1)
+    if (this.clock - this.lastStrike[mallet.id] < STRIKE_EVENT_GAP) return;
+    this.lastStrike[mallet.id] = this.clock;
+    events.push({ type: 'paddle_hit', player: mallet.id, paddle: mallet.id, intersectY: normal.y, smash, speed: puck.speed, x: puck.x, y: puck.y });
+  }
+
+  private activatePowerUp(pickup: PowerUpPickup, ball: PhysicsBall, events: PhysicsEvent[]) {
+    const player = ball.lastHit!;
+    const kind = pickup.kind;
+    if (kind === 'multi_ball') {
+      // Split into a fan around the ball's heading
+      const extra = Math.min(MULTI_BALL_EXTRA, MAX_BALLS - this.balls.length);
+      for (let i = 0; i < extra; i++) {
+        const angle = (i % 2 === 0 ? 1 : -1) * MULTI_BALL_SPREAD * (Math.floor(i / 2) + 1);
+        const turned = rotate(ball.vx * this.aspect, ball.vy, angle);
+        this.balls.push({ ...ball, vx: turned.wx / this.aspect, vy: turned.wy, curve: 0 });
+      }
+    } else {
+      applyEffect(this.getPlayer(POWER_UPS[kind].target === 'self' ? player : other(player)), kind);
+    }
+    events.push({ type: 'power_up', player, kind });
+  }
+
+  private bounceOffPaddle(ball: PhysicsBall, paddle: PaddleSweep, normal: Vec2, elapsed: number, dt: number, events: PhysicsEvent[]) {
+    const aspect = this.aspect;
+    const vertical = paddle.axis === 'y';
+    const paddlePos = paddle.from + (paddle.to - paddle.from) * elapsed;
+
+    // Calculate normalized intersection point (-1 to 1) along the paddle
+    // -1 = Top (or left end) of paddle, 0 = Center, 1 = Bottom (or right end)
+    let intersectY = ((vertical ? ball.y : ball.x) - paddlePos) / (paddle.length / 2);
+    intersectY = Math.max(-1, Math.min(1, intersectY)); // Clamp
+
+    const front = (vertical ? normal.x : normal.y) * paddle.direction > 0;
+    const smash = this.smashArmed[paddle.id] && front;
+
+    if (front) {
+      // Front face (or its corners): aim by where the ball struck the paddle
+      const bounceAngle = intersectY * (this.tuning.maxReflectionAngle * Math.PI) / 180;
+
+      // Increase Speed
+      ball.speed = Math.min(ball.speed + this.tuning.speedIncrement, this.tuning.maxSpeed);
+      if (smash) ball.speed = Math.min(ball.speed * SMASH_MULTIPLIER, this.tuning.maxSpeed * SMASH_SPEED_CAP);
+
+      // Set new velocity based on angle, in world space so the angle is true on screen
+      if (vertical) {
+        ball.vx = paddle.direction * ball.speed * Math.cos(bounceAngle);
+        ball.vy = ball.speed * aspect * Math.sin(bounceAngle);
+      } else {
+        ball.vx = ball.speed * Math.sin(bounceAngle);
+        ball.vy = paddle.direction * ball.speed * aspect * Math.cos(bounceAngle);
+      }
+    } else {
+      // Edges or back corners: reflect relative to the moving paddle (world units)
+      const paddleSpeed = (paddle.to - paddle.from) / dt;
+      const paddleVx = vertical ? 0 : paddleSpeed * aspect;
+      const paddleVy = vertical ? paddleSpeed : 0;
+      const relX = ball.vx * aspect - paddleVx;
+      const relY = ball.vy - paddleVy;
+      const dot = relX * normal.x + relY * normal.y;
+      let wx = relX - 2 * dot * normal.x + paddleVx;
+      let wy = relY - 2 * dot * normal.y + paddleVy;
+
+      // ball.speed is measured in widths per second
+      const maxWorldSpeed = this.tuning.maxSpeed * aspect;
+      const worldSpeed = Math.hypot(wx, wy);
+      if (worldSpeed > maxWorldSpeed) {
+        wx *= maxWorldSpeed / worldSpeed;
+        wy *= maxWorldSpeed / worldSpeed;
+      }
+      ball.vx = wx / aspect;
+      ball.vy = wy;
+
+      // Never leave the ball skimming along the paddle
+      const minDeflect = this.tuning.initialSpeed * MIN_EDGE_DEFLECT;
+      if (vertical && Math.abs(ball.vx) < minDeflect) {
+        ball.vx = (ball.vx === 0 ? -paddle.direction : Math.sign(ball.vx)) * minDeflect;
+      } else if (!vertical && Math.abs(ball.vy) < minDeflect * aspect) {
+        ball.vy = (ball.vy === 0 ? -paddle.direction : Math.sign(ball.vy)) * minDeflect * aspect;
+      }
+      ball.speed = Math.min(Math.hypot(ball.vx * aspect, ball.vy), maxWorldSpeed) / aspect;
+    }
+
+    // Curve ball: the return bends back towards straight out from the paddle as it travels
+    const team = teamOf(paddle.id);
+    ball.lastHit = team;
+    ball.curve = 0;
+    if (front && hasEffect(this.getPlayer(team), 'curve')) {
+      const sideways = vertical ? ball.vx * ball.vy : -ball.vx * ball.vy;
+      ball.curve = (sideways === 0 ? (Math.random() < 0.5 ? 1 : -1) : -Math.sign(sideways)) * CURVE_RATE;
+    }
+
+    events.push({ type: 'paddle_hit', player: team, paddle: paddle.id, intersectY, smash, speed: ball.speed, x: ball.x, y: ball.y });
+  }
+}
@@ -0,0 +1,165 @@
+import { EffectKind, PlayerState, PowerUpKind, PowerUpSettings } from '../types';
+
+export interface PowerUpInfo {
+  label: string;
+  glyph: string; // Drawn on the pickup and the effect timer
+  color: string;
+  duration: number; // Seconds; 0 = instant
+  target: 'self' | 'opponent'; // Whose side the effect lands on
+}
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpInfo> = {
+  grow: { label: 'Big Paddle', glyph: '⇕', color: '#22c55e', duration: 10, target: 'self' },
+  shrink: { label: 'Shrink Opponent', glyph: '⇣', color: '#ef4444', duration: 8, target: 'opponent' },
+  multi_ball: { label: 'Multi-Ball', glyph: '⁂', color: '#facc15', duration: 0, target: 'self' },
+  slow_mo: { label: 'Slow Motion', glyph: '◔', color: '#38bdf8', duration: 6, target: 'self' },
+  curve: { label: 'Curve Ball', glyph: '↷', color: '#a78bfa', duration: 10, target: 'self' },
+  shield: { label: 'Shield', glyph: '▮', color: '#f8fafc', duration: 7, target: 'self' },
+  reverse: { label: 'Reverse Controls', glyph: '⇄', color: '#fb923c', duration: 5, target: 'opponent' }
+};
+
+export const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+export const SPAWN_RATES: { label: string; seconds: number }[] = [
+  { label: 'Rare', seconds: 16 },
+  { label: 'Normal', seconds: 9 },
+  { label: 'Frequent', seconds: 4 }
+];
+
+export const DEFAULT_POWER_UP_SETTINGS: PowerUpSettings = {
+  enabled: false,
+  spawnSeconds: 9,
+  kinds: { grow: true, shrink: true, multi_ball: true, slow_mo: true, curve: true, shield: true, reverse: true }
+};
+
+// --- Effect Tuning ---
+export const GROW_SCALE = 1.5;
+export const SHRINK_SCALE = 0.6;
+export const SLOW_MO_SCALE = 0.55; // Time scale for balls heading at a slow-mo side's goal
+export const CURVE_RATE = 1.1; // Radians per second a curve-ball return starts turning at
+export const CURVE_DECAY_SECONDS = 0.6;
+export const MULTI_BALL_EXTRA = 2;
+export const MULTI_BALL_SPREAD = Math.PI / 7; // Angle between the split balls
+export const MAX_BALLS = 5;
+
+// --- Pickups ---
+export const PICKUP_RADIUS = 0.045; // Fraction of height
+const PICKUP_LIFETIME = 12; // Seconds on the table before it fades away
+const MAX_PICKUPS = 2;
+const SPAWN_MIN_X = 0.3; // Pickups appear in the middle of the table, away from the paddles
+const SPAWN_MAX_X = 0.7;
+const SPAWN_MARGIN_Y = 0.15;
+
+export interface PowerUpPickup {
+  id: number;
+  kind: PowerUpKind;
+  x: number; // Normalized 0-1
+  y: number;
+  age: number; // Seconds on the table
+}
+
+// Fraction of a pickup's life left, for fading it out
+export const pickupLife = (pickup: PowerUpPickup) => Math.max(0, 1 - pickup.age / PICKUP_LIFETIME);
+
+/**
+ * Places power-ups on the table at random intervals and removes them when they
+ * expire or are collected. Knows nothing about the balls; the physics engine
+ * asks it for a pickup along each ball's path.
+ */
+export class PowerUpSpawner {
+  public pickups: PowerUpPickup[] = [];
+  private settings: PowerUpSettings = DEFAULT_POWER_UP_SETTINGS;
+  private timer = 0;
+  private nextId = 1;
+
+  public configure(settings: PowerUpSettings) {
+    this.settings = settings;
+    this.reset();
+  }
+
+  public reset() {
+    this.pickups = [];
+    this.timer = this.nextInterval();
+  }
+
+  public get enabled(): boolean {
+    return this.settings.enabled && POWER_UP_KINDS.some(kind => this.settings.kinds[kind]);
+  }
+
+  // Returns a pickup placed this tick, if any
+  public update(dt: number, marginY = SPAWN_MARGIN_Y): PowerUpPickup | null {
+    this.pickups.forEach(pickup => { pickup.age += dt; });
+    this.pickups = this.pickups.filter(pickup => pickup.age < PICKUP_LIFETIME);
+    if (!this.enabled) return null;
+
+    this.timer -= dt;
+    if (this.timer > 0) return null;
+    this.timer = this.nextInterval();
+    if (this.pickups.length >= MAX_PICKUPS) return null;
+
+    const kinds = POWER_UP_KINDS.filter(kind => this.settings.kinds[kind]);
+    const pickup: PowerUpPickup = {
+      id: this.nextId++,
+      kind: kinds[Math.floor(Math.random() * kinds.length)],
+      x: SPAWN_MIN_X + Math.random() * (SPAWN_MAX_X - SPAWN_MIN_X),
+      y: marginY + Math.random() * (1 - 2 * marginY),
+      age: 0
+    };
+    this.pickups.push(pickup);
+    return pickup;
+  }
+
+  /**
+   * Removes and returns the first pickup the ball touched while moving from
+   * (x0, y0) to (x1, y1). Positions are normalized; `aspect` makes the test round on screen.
+   */
+  public collect(x0: number, y0: number, x1: number, y1: number, ballRadius: number, aspect: number): PowerUpPickup | null {
+    const reach = ballRadius + PICKUP_RADIUS;
+    const index = this.pickups.findIndex(pickup =>
+      segmentDistance(pickup.x * aspect, pickup.y, x0 * aspect, y0, x1 * aspect, y1) <= reach
+    );
+    if (index < 0) return null;
+    return this.pickups.splice(index, 1)[0];
+  }
+
+  // Jittered so spawns don't tick like a metronome
+  private nextInterval(): number {
+    return this.settings.spawnSeconds * (0.5 + Math.random());
+  }
+}
+
+// Distance from point p to the segment a-b
+const segmentDistance = (px: number, py: number, ax: number, ay: number, bx: number, by: number) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// --- Effects ---
+// Starts (or restarts) a timed effect on a side
+export const applyEffect = (player: PlayerState, kind: EffectKind) => {
+  const duration = POWER_UPS[kind].duration;
+  player.effects[kind] = { remaining: duration, duration };
+};
+
+// Counts a side's effects down; returns the ones that just ran out
+export const tickEffects = (player: PlayerState, dt: number): EffectKind[] => {
+  const expired: EffectKind[] = [];
+  (Object.keys(player.effects) as EffectKind[]).forEach(kind => {
+    const effect = player.effects[kind]!;
+    effect.remaining -= dt;
+    if (effect.remaining <= 0) {
+      delete player.effects[kind];
+      expired.push(kind);
+    }
+  });
+  return expired;
+};
+
+export const hasEffect = (player: PlayerState, kind: EffectKind) => player.effects[kind] !== undefined;
+
+// Paddle length multiplier from grow/shrink (they cancel out towards normal)
+export const paddleScale = (player: PlayerState) =>
+  (hasEffect(player, 'grow') ? GROW_SCALE : 1) * (hasEffect(player, 'shrink') ? SHRINK_SCALE : 1);
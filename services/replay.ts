@@ -0,0 +1,389 @@
+import { BallState, GameFormat, MatchResult, MatchRules, PaddleId, PlayerId, PlayerState } from '../types';
+import { PHYSICS_STEP, PADDLE_HEIGHT, BALL_SIZE } from './physicsEngine';
+import { MALLET_HOME_X } from './airHockey';
+import { downloadFile, fileStamp } from './download';
+
+export const REPLAY_VERSION = 4; // 2 added doubles partners, 3 multi-ball and paddle sizes, 4 air-hockey mallets; older files still load
+
+const MATCH_LOG_EVERY = 2; // Full-match log keeps every 2nd tick (60 Hz); the ring keeps every tick
+const MAX_MATCH_SECONDS = 20 * 60; // Longer matches keep only their last 20 minutes
+const RING_SECONDS = 10;
+
+export interface ReplayHand {
+  x: number;
+  y: number;
+  player: PaddleId | null;
+}
+
+// Everything needed to redraw one tick
+export interface ReplayFrame {
+  t: number; // Seconds of play since the match started
+  balls: BallState[]; // Main ball first
+  paddleLength: Record<PlayerId, number>;
+  p1Y: number;
+  p2Y: number;
+  p3Pos: number;
+  p4Pos: number;
+  p1X: number; // Air-hockey mallets
+  p2X: number;
+  scores: Record<PlayerId, number>;
+  hands: ReplayHand[];
+}
+
+export interface ReplayGoal {
+  t: number;
+  scorer: PlayerId;
+}
+
+export interface ReplayData {
+  recordedAt: string; // ISO date
+  gameFormat: GameFormat;
+  ballSize: number; // Ball radius from the match's gameplay settings, fraction of height
+  rules: MatchRules;
+  players: Record<PlayerId, { name: string; color: string }>;
+  result: MatchResult | null;
+  goals: ReplayGoal[];
+  frames: ReplayFrame[];
+}
+
+// --- File Format ---
+// Frames are packed into number arrays to keep files small:
+// [t, p1Y, p2Y, p3Pos, p4Pos, p1X, p2X, length1, length2, score1, score2, ballCount,
+//  ...balls as (x, y, vx, vy, speed), ...hands as (x, y, owner) triples; owner 0 = none, 1-4 = P1-P4]
+// Version 3 had no p1X/p2X. Versions 1-2 had one ball: [t, x, y, vx, vy, speed, p1Y, p2Y, (p3Pos, p4Pos,) score1, score2, ...hands]
+type PackedFrame = number[];
+const FRAME_FIELDS = 12;
+const BALL_FIELDS = 5;
+const LEGACY_FRAME_FIELDS: Record<number, number> = { 1: 10, 2: 12 };
+
+export interface ReplayFile extends Omit<ReplayData, 'frames' | 'gameFormat' | 'ballSize'> {
+  gameFormat?: GameFormat; // Absent in version 1 (always singles)
+  ballSize?: number; // Absent before gameplay settings (the default size)
+  format: 'neon-hand-hockey-replay';
+  version: number;
+  frames: PackedFrame[];
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+const OWNER_CODES: (PaddleId | null)[] = [null, 'p1', 'p2', 'p3', 'p4'];
+
+const packFrame = (f: ReplayFrame): PackedFrame => [
+  round(f.t), round(f.p1Y), round(f.p2Y), round(f.p3Pos), round(f.p4Pos), round(f.p1X), round(f.p2X),
+  round(f.paddleLength.p1), round(f.paddleLength.p2), f.scores.p1, f.scores.p2, f.balls.length,
+  ...f.balls.flatMap(b => [round(b.x), round(b.y), round(b.vx), round(b.vy), round(b.speed)]),
+  ...f.hands.flatMap(h => [round(h.x), round(h.y), OWNER_CODES.indexOf(h.player)])
+];
+
+const unpackHands = (p: PackedFrame, from: number): ReplayHand[] => {
+  const hands: ReplayHand[] = [];
+  for (let i = from; i < p.length; i += 3) hands.push({ x: p[i], y: p[i + 1], player: OWNER_CODES[p[i + 2]] ?? null });
+  return hands;
+};
+
+const malformed = () => new ReplayFormatError('Replay contains a malformed frame');
+
+const unpackLegacyFrame = (p: PackedFrame, version: number): ReplayFrame => {
+  const fields = LEGACY_FRAME_FIELDS[version];
+  if (p.length < fields || (p.length - fields) % 3 !== 0) throw malformed();
+  const partners = version >= 2;
+  return {
+    t: p[0],
+    balls: [{ x: p[1], y: p[2], vx: p[3], vy: p[4], speed: p[5] }],
+    paddleLength: { p1: PADDLE_HEIGHT, p2: PADDLE_HEIGHT },
+    p1Y: p[6],
+    p2Y: p[7],
+    p3Pos: partners ? p[8] : 0.5,
+    p4Pos: partners ? p[9] : 0.5,
+    p1X: MALLET_HOME_X,
+    p2X: 1 - MALLET_HOME_X,
+    scores: { p1: p[fields - 2], p2: p[fields - 1] },
+    hands: unpackHands(p, fields)
+  };
+};
+
+const unpackFrame = (p: PackedFrame, version: number): ReplayFrame => {
+  if (!Array.isArray(p) || !p.every(Number.isFinite)) throw malformed();
+  if (LEGACY_FRAME_FIELDS[version]) return unpackLegacyFrame(p, version);
+
+  const mallets = version >= 4; // Version 3 frames are two fields shorter
+  const o = mallets ? 0 : -2;
+  const fields = FRAME_FIELDS + o;
+  const ballCount = p[11 + o];
+  const handsFrom = fields + ballCount * BALL_FIELDS;
+  if (p.length < fields || !Number.isInteger(ballCount) || ballCount < 1 || p.length < handsFrom || (p.length - handsFrom) % 3 !== 0) throw malformed();
+  const balls: BallState[] = [];
+  for (let i = fields; i < handsFrom; i += BALL_FIELDS) {
+    balls.push({ x: p[i], y: p[i + 1], vx: p[i + 2], vy: p[i + 3], speed: p[i + 4] });
+  }
+  return {
+    t: p[0],
+    balls,
+    paddleLength: { p1: p[7 + o], p2: p[8 + o] },
+    p1Y: p[1],
+    p2Y: p[2],
+    p3Pos: p[3],
+    p4Pos: p[4],
+    p1X: mallets ? p[5] : MALLET_HOME_X,
+    p2X: mallets ? p[6] : 1 - MALLET_HOME_X,
+    scores: { p1: p[9 + o], p2: p[10 + o] },
+    hands: unpackHands(p, handsFrom)
+  };
+};
+
+export const encodeReplay = (data: ReplayData): ReplayFile => ({
+  format: 'neon-hand-hockey-replay',
+  version: REPLAY_VERSION,
+  recordedAt: data.recordedAt,
+  gameFormat: data.gameFormat,
+  ballSize: data.ballSize,
+  rules: data.rules,
+  players: data.players,
+  result: data.result,
+  goals: data.goals,
+  frames: data.frames.map(packFrame)
+});
+
+const isWholeNumber = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const isRules = (value: unknown): value is MatchRules => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rules = value as MatchRules;
+  return (
+    typeof rules.id === 'string' &&
+    typeof rules.label === 'string' &&
+    (rules.pointsToWin === null || isWholeNumber(rules.pointsToWin, 1)) &&
+    typeof rules.winByTwo === 'boolean' &&
+    (rules.timeLimitSeconds === null || (typeof rules.timeLimitSeconds === 'number' && rules.timeLimitSeconds > 0)) &&
+    isWholeNumber(rules.setsToWin, 1)
+  );
+};
+
+const isPlayer = (value: unknown): value is { name: string; color: string } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { name: unknown }).name === 'string' &&
+  typeof (value as { color: unknown }).color === 'string';
+
+// Parse and validate a replay file's JSON text
+export const decodeReplay = (json: string): ReplayData => {
+  let file: Partial<ReplayFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new ReplayFormatError('Not a JSON file');
+  }
+  if (!file || file.format !== 'neon-hand-hockey-replay') throw new ReplayFormatError('Not a Neon Hand Hockey replay');
+  const version = file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version ${version} (this build reads up to version ${REPLAY_VERSION})`);
+  }
+  if (!Array.isArray(file.frames) || file.frames.length < 2) throw new ReplayFormatError('Replay has no frames');
+  if (!file.rules || !file.players?.p1 || !file.players?.p2) throw new ReplayFormatError('Replay is missing match details');
+  if (!isRules(file.rules)) throw new ReplayFormatError('Replay has malformed match rules');
+  if (!isPlayer(file.players.p1) || !isPlayer(file.players.p2)) throw new ReplayFormatError('Replay has a malformed player');
+
+  return {
+    recordedAt: file.recordedAt ?? '',
+    gameFormat: file.gameFormat ?? 'singles',
+    ballSize: typeof file.ballSize === 'number' && file.ballSize > 0 ? file.ballSize : BALL_SIZE,
+    rules: file.rules,
+    players: file.players,
+    result: file.result ?? null,
+    goals: Array.isArray(file.goals) ? file.goals : [],
+    frames: file.frames.map(frame => unpackFrame(frame, version))
+  };
+};
+
+export const downloadReplay = (data: ReplayData) => {
+  downloadFile(`neon-hockey-replay-${fileStamp(data.recordedAt) || 'match'}.json`, JSON.stringify(encodeReplay(data)), 'application/json');
+};
+
+// --- Recording ---
+// Fixed-size circular buffer: pushing past capacity overwrites the oldest entry
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  public get length(): number {
+    return this.items.length;
+  }
+
+  public push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  public clear() {
+    this.items = [];
+    this.start = 0;
+  }
+
+  // Oldest first
+  public toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+/**
+ * Records a match tick by tick: the last few seconds at full rate (for
+ * instant replays) and the whole match at a lower rate (for export).
+ */
+export class ReplayRecorder {
+  private ring = new RingBuffer<ReplayFrame>(Math.round(RING_SECONDS / PHYSICS_STEP));
+  private matchLog = new RingBuffer<ReplayFrame>(Math.round(MAX_MATCH_SECONDS / PHYSICS_STEP / MATCH_LOG_EVERY));
+  private goals: ReplayGoal[] = [];
+  private ticks = 0;
+  private gameFormat: GameFormat = 'singles';
+  private ballSize = BALL_SIZE;
+
+  public reset(gameFormat: GameFormat = 'singles', ballSize = BALL_SIZE) {
+    this.gameFormat = gameFormat;
+    this.ballSize = ballSize;
+    this.ring.clear();
+    this.matchLog.clear();
+    this.goals = [];
+    this.ticks = 0;
+  }
+
+  public get time(): number {
+    return this.ticks * PHYSICS_STEP;
+  }
+
+  public record(balls: BallState[], paddleLength: Record<PlayerId, number>, player1: PlayerState, player2: PlayerState, hands: ReplayHand[]) {
+    const frame: ReplayFrame = {
+      t: this.time,
+      balls: balls.map(({ x, y, vx, vy, speed }) => ({ x, y, vx, vy, speed })),
+      paddleLength,
+      p1Y: player1.y,
+      p2Y: player2.y,
+      p3Pos: player1.partner,
+      p4Pos: player2.partner,
+      p1X: player1.x,
+      p2X: player2.x,
+      scores: { p1: player1.score, p2: player2.score },
+      hands
+    };
+    this.ring.push(frame);
+    if (this.ticks % MATCH_LOG_EVERY === 0) this.matchLog.push(frame);
+    this.ticks++;
+  }
+
+  // Call before recording the tick that reset the ball
+  public markGoal(scorer: PlayerId) {
+    this.goals.push({ t: this.time, scorer });
+  }
+
+  // The run-up to the latest goal
+  public lastGoalFrames(seconds: number): ReplayFrame[] {
+    const goal = this.goals[this.goals.length - 1];
+    if (!goal) return [];
+    return this.ring.toArray().filter(f => f.t < goal.t && f.t >= goal.t - seconds);
+  }
+
+  public toData(rules: MatchRules, player1: PlayerState, player2: PlayerState, result: MatchResult | null): ReplayData {
+    return {
+      recordedAt: new Date().toISOString(),
+      gameFormat: this.gameFormat,
+      ballSize: this.ballSize,
+      rules,
+      players: {
+        p1: { name: player1.name, color: player1.color },
+        p2: { name: player2.name, color: player2.color }
+      },
+      result,
+      goals: [...this.goals],
+      frames: this.matchLog.toArray()
+    };
+  }
+}
+
+// --- Playback ---
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Plays frames back at any speed, with seeking. Positions are interpolated
+ * between recorded frames so slow motion stays smooth.
+ */
+export class ReplayPlayer {
+  public readonly frames: ReplayFrame[];
+  public time: number;
+  public speed: number;
+  public playing = true;
+
+  constructor(frames: ReplayFrame[], speed = 1) {
+    this.frames = frames;
+    this.speed = speed;
+    this.time = frames[0]?.t ?? 0;
+  }
+
+  public get startTime(): number {
+    return this.frames[0]?.t ?? 0;
+  }
+
+  public get endTime(): number {
+    return this.frames[this.frames.length - 1]?.t ?? 0;
+  }
+
+  public get finished(): boolean {
+    return this.time >= this.endTime;
+  }
+
+  // Advance by real seconds, scaled by speed
+  public advance(seconds: number) {
+    if (!this.playing) return;
+    this.seek(this.time + seconds * this.speed);
+  }
+
+  public seek(time: number) {
+    this.time = Math.max(this.startTime, Math.min(this.endTime, time));
+  }
+
+  public frame(): ReplayFrame | null {
+    const frames = this.frames;
+    if (frames.length === 0) return null;
+
+    // Last frame at or before the current time
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].t <= this.time) lo = mid;
+      else hi = mid - 1;
+    }
+    const a = frames[lo];
+    const b = frames[lo + 1];
+    // Don't blend across a goal reset (the ball teleports back to the centre)
+    if (!b || b.scores.p1 !== a.scores.p1 || b.scores.p2 !== a.scores.p2) return a;
+
+    const alpha = (this.time - a.t) / (b.t - a.t || 1);
+    const blend = a.balls.length === b.balls.length; // Multi-ball just split: nothing to blend from
+    return {
+      ...a,
+      balls: a.balls.map((ball, i) => blend
+        ? { ...ball, x: lerp(ball.x, b.balls[i].x, alpha), y: lerp(ball.y, b.balls[i].y, alpha) }
+        : ball),
+      p1Y: lerp(a.p1Y, b.p1Y, alpha),
+      p2Y: lerp(a.p2Y, b.p2Y, alpha),
+      p3Pos: lerp(a.p3Pos, b.p3Pos, alpha),
+      p4Pos: lerp(a.p4Pos, b.p4Pos, alpha),
+      p1X: lerp(a.p1X, b.p1X, alpha),
+      p2X: lerp(a.p2X, b.p2X, alpha)
+    };
+  }
+}
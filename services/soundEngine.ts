@@ -0,0 +1,354 @@
+import { AudioSettings, GameplaySettings, PlayerId } from '../types';
+import { GameEventBus } from './gameEvents';
+import { DEFAULT_GAMEPLAY, speedRatio } from './gameplaySettings';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  muted: false,
+  master: 0.8,
+  sfx: 0.8,
+  music: 0.5,
+  musicEnabled: true
+};
+
+// --- Mix ---
+const PAN_WIDTH = 0.8; // Hard left/right sounds detached from the table
+const VOLUME_GLIDE = 0.03; // Seconds; volume changes glide instead of clicking
+const ATTACK_SECONDS = 0.005;
+const SILENCE = 0.0001; // Exponential ramps can't reach zero
+const DUCK_MUSIC = 0.3; // Music level while the announcer speaks, as a fraction of its setting
+const DUCK_SFX = 0.7;
+const DUCK_ATTACK = 0.08; // Seconds (time constant) to dip when speech starts...
+const DUCK_RELEASE = 0.4; // ...and to come back up after it ends
+
+// --- Effects ---
+const HIT_BASE_HZ = 330; // A serve-speed return
+const HIT_TOP_HZ = 1320; // Two octaves up at top speed
+const COUNTDOWN_HZ = 660;
+const GOAL_CHORD_HZ = [440, 554.37, 659.25]; // A major, rolled
+const FANFARE_HZ = [523.25, 659.25, 783.99, 1046.5]; // C major arpeggio
+
+// --- Music ---
+const LOOKAHEAD_SECONDS = 0.12; // Notes are scheduled this far ahead of the clock
+const SCHEDULER_MS = 25;
+const BASE_BPM = 108;
+const PEAK_BPM = 132;
+const RALLY_FOR_FULL_INTENSITY = 14; // Hits
+const INTENSITY_EASE = 0.08; // Per 16th note, towards the rally's target
+const PROGRESSION_HZ = [110, 87.31, 130.81, 98]; // A, F, C, G roots, one bar each
+const ARPEGGIO = [1, 1.5, 2, 1.5]; // Root, fifth, octave, fifth
+const HATS_FROM = 0.25; // Intensity at which each music layer joins
+const ARPEGGIO_FROM = 0.55;
+
+/**
+ * Synthesises every sound in code with the Web Audio API, so there is nothing to
+ * download. Effects follow the GameEventBus and are panned by where the ball is;
+ * the background loop runs while a match is live and gets busier as the rally grows.
+ * Browsers keep audio suspended until a user gesture, so nothing plays before
+ * unlock() has run from one (installUnlock wires that up).
+ */
+export class SoundEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private settings: AudioSettings;
+  private gameplay: GameplaySettings = DEFAULT_GAMEPLAY; // Hit pitch rises between its serve and top speeds
+  private ducked = false; // The announcer is speaking
+
+  // Music scheduler
+  private musicActive = false;
+  private musicTimer: number | null = null;
+  private nextStepTime = 0;
+  private step = 0;
+  private intensity = 0;
+  private targetIntensity = 0;
+
+  constructor(settings: AudioSettings = DEFAULT_AUDIO_SETTINGS) {
+    this.settings = settings;
+  }
+
+  public get available(): boolean {
+    return typeof window !== 'undefined' && 'AudioContext' in window;
+  }
+
+  // Creates or resumes the audio context. The first call must come from a user gesture.
+  public unlock() {
+    if (!this.available) return;
+    if (!this.ctx) this.createGraph();
+    const ctx = this.ctx!;
+    if (ctx.state === 'suspended') ctx.resume().then(() => this.updateMusic()).catch(() => {});
+    else this.updateMusic();
+  }
+
+  // Unlocks on the first click, tap or key press; returns a function that removes the listeners
+  public installUnlock(target: Window): () => void {
+    const types = ['pointerdown', 'keydown', 'touchend'];
+    const remove = () => types.forEach(type => target.removeEventListener(type, handler));
+    const handler = () => {
+      this.unlock();
+      if (this.ctx?.state === 'running') remove();
+    };
+    types.forEach(type => target.addEventListener(type, handler));
+    return remove;
+  }
+
+  public configure(settings: AudioSettings) {
+    this.settings = settings;
+    this.applyVolumes();
+    this.updateMusic();
+  }
+
+  public setGameplay(settings: GameplaySettings) {
+    this.gameplay = settings;
+  }
+
+  // Dips music (and, less, effects) under spoken commentary; unduck() brings them back
+  public duck() {
+    if (this.ducked) return;
+    this.ducked = true;
+    this.applyVolumes(DUCK_ATTACK);
+  }
+
+  public unduck() {
+    if (!this.ducked) return;
+    this.ducked = false;
+    this.applyVolumes(DUCK_RELEASE);
+  }
+
+  // The loop only plays during live play
+  public setMusicActive(active: boolean) {
+    this.musicActive = active;
+    this.updateMusic();
+  }
+
+  // Returns an unsubscribe function
+  public subscribe(bus: GameEventBus): () => void {
+    const unsubscribers = [
+      bus.on('match_start', () => this.setRally(0)),
+      bus.on('paddle_hit', event => {
+        this.hit(event.x, event.speed, event.smash);
+        this.setRally(event.rally);
+      }),
+      bus.on('wall_bounce', event => this.wall(event.x, event.speed)),
+      bus.on('serve', () => this.serve()),
+      bus.on('goal', event => {
+        this.goal(event.scorer);
+        this.setRally(0);
+      }),
+      bus.on('countdown', event => this.countdown(event.count)),
+      bus.on('match_end', () => {
+        this.fanfare();
+        this.setRally(0);
+      })
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // A sample hit for the settings panel
+  public preview() {
+    this.unlock();
+    this.hit(0.5, (this.gameplay.initialSpeed + this.gameplay.maxSpeed) / 2, false);
+  }
+
+  // --- Sound Effects ---
+  // Pitch rises with ball speed; a smash adds a crack and a low growl
+  private hit(x: number, speed: number, smash: boolean) {
+    const t = this.now();
+    if (t === null) return;
+    const hz = HIT_BASE_HZ * Math.pow(HIT_TOP_HZ / HIT_BASE_HZ, speedRatio(speed, this.gameplay));
+    const out = this.route(this.sfxBus!, x, null);
+    this.tone('square', hz, hz * 0.97, t, 0.09, 0.18, out);
+    this.tone('sine', hz / 2, hz / 2, t, 0.12, 0.3, out);
+    if (smash) {
+      this.burst(t, 0.15, 0.3, 1500, out);
+      this.tone('sawtooth', hz / 2, hz / 4, t, 0.25, 0.2, this.route(this.sfxBus!, x, 1200));
+    }
+  }
+
+  private wall(x: number, speed: number) {
+    const t = this.now();
+    if (t === null) return;
+    const hz = 180 + 120 * speedRatio(speed, this.gameplay);
+    this.tone('triangle', hz, hz * 0.7, t, 0.08, 0.22, this.route(this.sfxBus!, x, null));
+  }
+
+  private serve() {
+    const t = this.now();
+    if (t === null) return;
+    this.tone('triangle', 300, 900, t, 0.18, 0.2, this.route(this.sfxBus!, 0.5, null));
+  }
+
+  // Heard from the goal the ball went into
+  private goal(scorer: PlayerId) {
+    const t = this.now();
+    if (t === null) return;
+    const x = scorer === 'p1' ? 1 : 0;
+    const out = this.route(this.sfxBus!, x, null);
+    this.tone('sine', 120, 40, t, 0.4, 0.5, out);
+    this.burst(t, 0.5, 0.25, 600, out);
+    const chord = this.route(this.sfxBus!, x, 2400);
+    GOAL_CHORD_HZ.forEach((hz, i) => this.tone('sawtooth', hz, hz, t + i * 0.07, 0.35, 0.15, chord));
+  }
+
+  // Short beeps for 3-2-1, a higher, longer one as play resumes
+  private countdown(count: number) {
+    const t = this.now();
+    if (t === null) return;
+    const out = this.route(this.sfxBus!, 0.5, 3000);
+    if (count > 0) this.tone('square', COUNTDOWN_HZ, COUNTDOWN_HZ, t, 0.12, 0.2, out);
+    else this.tone('square', COUNTDOWN_HZ * 2, COUNTDOWN_HZ * 2, t, 0.35, 0.22, out);
+  }
+
+  private fanfare() {
+    const t = this.now();
+    if (t === null) return;
+    const out = this.route(this.sfxBus!, 0.5, 3000);
+    FANFARE_HZ.forEach((hz, i) => {
+      const last = i === FANFARE_HZ.length - 1;
+      this.tone('sawtooth', hz, hz, t + i * 0.12, last ? 0.9 : 0.2, 0.16, out);
+      if (last) this.tone('triangle', hz / 2, hz / 2, t + i * 0.12, 0.9, 0.2, out);
+    });
+  }
+
+  // --- Music ---
+  private setRally(rally: number) {
+    this.targetIntensity = Math.min(1, rally / RALLY_FOR_FULL_INTENSITY);
+  }
+
+  private updateMusic() {
+    const ctx = this.ctx;
+    const play = this.musicActive && this.settings.musicEnabled && !this.settings.muted && ctx?.state === 'running';
+    if (play && this.musicTimer === null) {
+      this.nextStepTime = ctx!.currentTime + 0.05;
+      this.step = 0;
+      this.musicTimer = window.setInterval(() => this.scheduleMusic(), SCHEDULER_MS);
+    } else if (!play && this.musicTimer !== null) {
+      window.clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+  }
+
+  // Queues every 16th note that starts within the lookahead window
+  private scheduleMusic() {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    // A background tab throttles timers; skip ahead rather than play the backlog at once
+    if (this.nextStepTime < ctx.currentTime - LOOKAHEAD_SECONDS) this.nextStepTime = ctx.currentTime + 0.05;
+    while (this.nextStepTime < ctx.currentTime + LOOKAHEAD_SECONDS) {
+      this.playStep(this.step, this.nextStepTime);
+      this.intensity += (this.targetIntensity - this.intensity) * INTENSITY_EASE;
+      const bpm = BASE_BPM + (PEAK_BPM - BASE_BPM) * this.intensity;
+      this.nextStepTime += 60 / bpm / 4;
+      this.step = (this.step + 1) % (16 * PROGRESSION_HZ.length);
+    }
+  }
+
+  // Kick and bass always; hats, then an arpeggio, join as the rally builds
+  private playStep(step: number, t: number) {
+    const bus = this.musicBus!;
+    const root = PROGRESSION_HZ[Math.floor(step / 16)];
+    const beat = step % 16;
+    const intensity = this.intensity;
+
+    if (beat % 4 === 0) this.tone('sine', 150, 45, t, 0.22, 0.5, bus);
+    if (beat % 2 === 0) this.tone('sawtooth', root, root, t, 0.16, 0.16, this.route(bus, null, 300 + 1800 * intensity));
+    if (intensity > HATS_FROM && beat % 2 === 1) this.burst(t, 0.04, 0.1 * intensity, 7000, bus);
+    if (intensity > ARPEGGIO_FROM) {
+      const hz = root * 4 * ARPEGGIO[beat % ARPEGGIO.length];
+      this.tone('square', hz, hz, t, 0.1, 0.06 * intensity, this.route(bus, null, 2500));
+    }
+  }
+
+  // --- Synthesis ---
+  private createGraph() {
+    const ctx = new AudioContext();
+    const compressor = ctx.createDynamicsCompressor(); // Stacked effects shouldn't clip
+    compressor.connect(ctx.destination);
+    this.master = ctx.createGain();
+    this.master.connect(compressor);
+    this.sfxBus = ctx.createGain();
+    this.sfxBus.connect(this.master);
+    this.musicBus = ctx.createGain();
+    this.musicBus.connect(this.master);
+
+    // One second of white noise, reused by every burst
+    this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const samples = this.noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    this.ctx = ctx;
+    this.applyVolumes();
+  }
+
+  private applyVolumes(busGlide = VOLUME_GLIDE) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const { muted, master, sfx, music } = this.settings;
+    this.master!.gain.setTargetAtTime(muted ? 0 : master, ctx.currentTime, VOLUME_GLIDE);
+    this.sfxBus!.gain.setTargetAtTime(sfx * (this.ducked ? DUCK_SFX : 1), ctx.currentTime, busGlide);
+    this.musicBus!.gain.setTargetAtTime(music * (this.ducked ? DUCK_MUSIC : 1), ctx.currentTime, busGlide);
+  }
+
+  // Audio clock time, or null while nothing can be heard
+  private now(): number | null {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running' || this.settings.muted) return null;
+    return ctx.currentTime;
+  }
+
+  // Feeds a bus through an optional low-pass and a stereo position (ball x, 0-1); returns the input
+  private route(bus: GainNode, x: number | null, lowpassHz: number | null): AudioNode {
+    const ctx = this.ctx!;
+    let node: AudioNode = bus;
+    if (x !== null) {
+      const panner = ctx.createStereoPanner();
+      panner.pan.value = Math.max(-1, Math.min(1, (x * 2 - 1) * PAN_WIDTH));
+      panner.connect(node);
+      node = panner;
+    }
+    if (lowpassHz !== null) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = lowpassHz;
+      filter.connect(node);
+      node = filter;
+    }
+    return node;
+  }
+
+  // One oscillator note with a click-free envelope, gliding from one pitch to another
+  private tone(type: OscillatorType, fromHz: number, toHz: number, start: number, duration: number, peak: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const envelope = ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(fromHz, start);
+    if (toHz !== fromHz) osc.frequency.exponentialRampToValueAtTime(toHz, start + duration);
+    envelope.gain.setValueAtTime(SILENCE, start);
+    envelope.gain.exponentialRampToValueAtTime(peak, start + ATTACK_SECONDS);
+    envelope.gain.exponentialRampToValueAtTime(SILENCE, start + duration);
+    osc.connect(envelope);
+    envelope.connect(out);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  }
+
+  // Filtered white noise: cracks, whooshes and hi-hats
+  private burst(start: number, duration: number, peak: number, highpassHz: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = highpassHz;
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(peak, start);
+    envelope.gain.exponentialRampToValueAtTime(SILENCE, start + duration);
+    source.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(out);
+    source.start(start);
+    source.stop(start + duration + 0.02);
+  }
+}
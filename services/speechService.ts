@@ -0,0 +1,195 @@
+import { GameCommentary, SpeechSettings } from '../types';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface TtsUtterance {
+  text: string;
+  voiceId: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface TtsCallbacks {
+  onBoundary: (charIndex: number, charLength: number) => void; // A word is about to be spoken
+  onEnd: () => void; // Finished, failed or cancelled
+}
+
+/**
+ * A text-to-speech engine. Only one utterance plays at a time; speak() while
+ * another is playing may cut it off, so the Announcer cancels first.
+ */
+export interface TtsBackend {
+  readonly available: boolean;
+  getVoices(): TtsVoice[];
+  onVoicesChanged(listener: () => void): () => void;
+  speak(utterance: TtsUtterance, callbacks: TtsCallbacks): void;
+  cancel(): void;
+}
+
+// --- Web Speech API ---
+export class WebSpeechBackend implements TtsBackend {
+  private synth: SpeechSynthesis | null = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+
+  public get available(): boolean {
+    return this.synth !== null;
+  }
+
+  public getVoices(): TtsVoice[] {
+    return (this.synth?.getVoices() ?? []).map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  }
+
+  // Browsers load the voice list asynchronously
+  public onVoicesChanged(listener: () => void): () => void {
+    const synth = this.synth;
+    if (!synth) return () => {};
+    synth.addEventListener('voiceschanged', listener);
+    return () => synth.removeEventListener('voiceschanged', listener);
+  }
+
+  public speak(utterance: TtsUtterance, callbacks: TtsCallbacks) {
+    if (!this.synth) {
+      callbacks.onEnd();
+      return;
+    }
+    const u = new SpeechSynthesisUtterance(utterance.text);
+    u.voice = this.synth.getVoices().find(voice => voice.voiceURI === utterance.voiceId) ?? null;
+    u.rate = utterance.rate;
+    u.pitch = utterance.pitch;
+    u.volume = utterance.volume;
+    u.onboundary = e => {
+      if (e.name !== 'word') return;
+      // charLength is missing in some browsers: run to the next space instead
+      const end = utterance.text.indexOf(' ', e.charIndex);
+      callbacks.onBoundary(e.charIndex, e.charLength || (end === -1 ? utterance.text.length : end) - e.charIndex);
+    };
+    u.onend = () => callbacks.onEnd();
+    u.onerror = () => callbacks.onEnd();
+    this.synth.speak(u);
+  }
+
+  public cancel() {
+    this.synth?.cancel();
+  }
+}
+
+// --- Announcer ---
+interface SpeechPolicy {
+  priority: number; // A higher-priority line may cut off an interruptible one
+  interruptible: boolean;
+  maxAgeMs: number; // Queued lines older than this are skipped
+}
+
+export const SPEECH_POLICIES: Record<GameCommentary['type'], SpeechPolicy> = {
+  hype: { priority: 0, interruptible: true, maxAgeMs: 3000 },
+  intro: { priority: 1, interruptible: false, maxAgeMs: 5000 },
+  score: { priority: 2, interruptible: true, maxAgeMs: 5000 },
+  game_over: { priority: 3, interruptible: false, maxAgeMs: 10000 }
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  muted: false,
+  voiceId: null,
+  rate: 1.1,
+  pitch: 1,
+  volume: 1
+};
+
+// What is being said right now, for captions that follow along
+export interface SpeechProgress {
+  line: GameCommentary;
+  charIndex: number; // Start of the word being spoken
+  charLength: number;
+}
+
+/**
+ * Reads commentary aloud one line at a time. A new line either cuts in (if
+ * it outranks an interruptible line), or waits its turn; waiting lines replace
+ * older ones of the same type and expire after their policy's maxAgeMs.
+ */
+export class Announcer {
+  public readonly backend: TtsBackend;
+  private settings: SpeechSettings;
+  private onProgress: (progress: SpeechProgress | null) => void;
+  private current: GameCommentary | null = null;
+  private queue: GameCommentary[] = [];
+  private token = 0; // Identifies the utterance whose callbacks are still wanted
+
+  constructor(backend: TtsBackend, settings: SpeechSettings, onProgress: (progress: SpeechProgress | null) => void) {
+    this.backend = backend;
+    this.settings = settings;
+    this.onProgress = onProgress;
+  }
+
+  public get speaking(): boolean {
+    return this.current !== null;
+  }
+
+  public configure(settings: SpeechSettings) {
+    this.settings = settings;
+    if (settings.muted) this.stop();
+  }
+
+  public say(line: GameCommentary) {
+    if (this.settings.muted || !this.backend.available) return;
+    const policy = SPEECH_POLICIES[line.type];
+
+    // Newer lines make waiting ones of the same type (and any hype) redundant
+    this.queue = this.queue.filter(queued => queued.type !== line.type && queued.type !== 'hype');
+
+    const current = this.current;
+    if (current) {
+      const currentPolicy = SPEECH_POLICIES[current.type];
+      if (!currentPolicy.interruptible || policy.priority < currentPolicy.priority) {
+        this.queue.push(line);
+        this.queue.sort((a, b) => SPEECH_POLICIES[b.type].priority - SPEECH_POLICIES[a.type].priority);
+        return;
+      }
+    }
+    this.speak(line);
+  }
+
+  // Silence now and forget anything waiting
+  public stop() {
+    this.queue = [];
+    this.token++;
+    if (this.current) this.backend.cancel();
+    this.setCurrent(null);
+  }
+
+  private speak(line: GameCommentary) {
+    const token = ++this.token;
+    if (this.current) this.backend.cancel();
+    this.setCurrent(line);
+
+    this.backend.speak(
+      { text: line.text, voiceId: this.settings.voiceId, rate: this.settings.rate, pitch: this.settings.pitch, volume: this.settings.volume },
+      {
+        onBoundary: (charIndex, charLength) => {
+          if (token === this.token) this.onProgress({ line, charIndex, charLength });
+        },
+        onEnd: () => {
+          if (token !== this.token) return; // Cancelled in favour of another line
+          this.setCurrent(null);
+          this.next();
+        }
+      }
+    );
+  }
+
+  private next() {
+    const now = Date.now();
+    this.queue = this.queue.filter(line => now - line.timestamp <= SPEECH_POLICIES[line.type].maxAgeMs);
+    const line = this.queue.shift();
+    if (line) this.speak(line);
+  }
+
+  private setCurrent(line: GameCommentary | null) {
+    this.current = line;
+    this.onProgress(line ? { line, charIndex: 0, charLength: 0 } : null);
+  }
+}
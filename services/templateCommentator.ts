@@ -0,0 +1,191 @@
+import { CommentaryEvent, CommentaryRequest, MatchContext, PlayerId, TournamentContext } from '../types';
+import { CommentaryProvider } from './commentaryProvider';
+import { INITIAL_SPEED } from './physicsEngine';
+
+// --- Grammar ---
+// Each {slot} expands to a value from the request, or a random entry of the same name below.
+const SLOTS: Record<string, string[]> = {
+  strike: ['laser strike', 'cyber slam', 'photon blast', 'plasma drive', 'neon rocket'],
+  praise: ['unstoppable', 'pure velocity', 'running hot', 'locked in', 'in overdrive'],
+  arena: ['the grid', 'the arena', 'the neon rink', 'the circuit'],
+  reaction: ['The crowd erupts!', 'Systems overloading!', 'What a strike!', 'Unreal velocity!']
+};
+
+// Goals use the angle their stats offer (snipe, comeback...) instead of score_p1/score_p2,
+// a match point for both sides is called as next goal wins, and tournament matches get their own intros and sign-offs
+type TemplateKey =
+  | Exclude<CommentaryEvent, 'score_p1' | 'score_p2'> | 'score' | 'snipe' | 'smash' | 'bank' | 'comeback' | 'streak' | 'long_rally'
+  | 'next_goal_wins' | 'tournament_intro' | 'unbeaten_intro' | 'tournament_over' | 'champion';
+
+const TEMPLATES: Record<TemplateKey, string[]> = {
+  next_goal_wins: [
+    'Next goal wins! {p1} or {p2}, {arena} holds its breath!',
+    'It all comes down to one goal! {p1} versus {p2}, winner takes all!'
+  ],
+  intro: [
+    'Welcome to {arena}! {p1} versus {p2}, maximum velocity!',
+    'Power up {arena}! {p1} and {p2} are locked and loaded!',
+    'Lights on, lasers hot! {p1} meets {p2} on {arena}!'
+  ],
+  score: [
+    '{reaction} {scorer} lands a {strike}, {score}!',
+    '{scorer} is {praise}! {score} on {arena}!',
+    'A {strike} from {scorer}! {other} never saw it coming, {score}!'
+  ],
+  snipe: [
+    'Edge snipe! {scorer} clips the corner, {score}!',
+    'Off the very edge of the paddle! {scorer} snipes it, {score}!'
+  ],
+  smash: [
+    'SMASH! {scorer} cracks it home, {score}!',
+    '{scorer} unloads a {strike} smash! {score}!'
+  ],
+  bank: [
+    'Off the wall and in! {scorer} banks it home, {score}!',
+    'Bank shot! {scorer} finds the angle, {score}!'
+  ],
+  comeback: [
+    '{scorer} was {deficit} down and now look, {score}!',
+    'The comeback is real! {scorer} erases a {deficit}-point gap!'
+  ],
+  streak: [
+    '{scorer} makes it {streak} straight! {score}!',
+    '{streak} in a row for {scorer}! {other} needs a reboot!'
+  ],
+  long_rally: [
+    '{rally} hits and {scorer} finally breaks it! {score}!',
+    'What a {rally}-hit war! {scorer} takes it, {score}!'
+  ],
+  match_point: [
+    'Match point {player}! One more {strike} ends it!',
+    '{player} is one away! {arena} holds its breath!'
+  ],
+  rally: [
+    '{rally} hits and counting! {reaction}',
+    'This rally will not die! {rally} and rising!'
+  ],
+  top_speed: [
+    '{player} hits top speed, {pace} serve pace! {reaction}',
+    'Fastest shot of the match from {player}! {pace} and climbing!'
+  ],
+  scoreless: [
+    'Nobody can break through! {arena} is on lockdown!',
+    'Still locked at {score}! Who blinks first?'
+  ],
+  game_over: [
+    '{winner} takes it {final}! {arena} belongs to {winner}!',
+    'Match over! {winner} wins {final}, {praise} to the end!',
+    'Final signal: {winner} {final}. {reaction}'
+  ],
+  tournament_intro: [
+    '{tournament}, {stage}! {p1} versus {p2}, maximum velocity!',
+    '{stage} at {tournament}! {p1} meets {p2} on {arena}!',
+    'Lights on at {tournament}! {stage}: {p1} and {p2}, locked and loaded!'
+  ],
+  unbeaten_intro: [
+    '{tournament}, {stage}! {unbeaten} is undefeated at {record}. Can {challenger} end the run?',
+    '{unbeaten} rolls in on an undefeated run, {record}! {challenger} stands in the way. {stage}, {tournament}!'
+  ],
+  tournament_over: [
+    '{stage}: {winner} takes it {final}! {fate}',
+    '{winner} wins {final}, {praise} to the end! {fate}'
+  ],
+  champion: [
+    '{winner} wins {tournament}, {final}! Champion of {arena}!',
+    'We have a champion! {winner} takes {tournament} {final}!'
+  ]
+};
+
+const LONG_RALLY = 10; // Hits
+
+const goalTemplate = (context: MatchContext | undefined): TemplateKey => {
+  if (!context) return 'score';
+  if (context.comebackFrom > 0) return 'comeback';
+  if (context.finish === 'edge_snipe') return 'snipe';
+  if (context.finish === 'smash') return 'smash';
+  if (context.finish === 'bank_shot') return 'bank';
+  if (context.streak && context.streak.points >= 3) return 'streak';
+  if (context.rally >= LONG_RALLY) return 'long_rally';
+  return 'score';
+};
+
+const unbeaten = (tournament: TournamentContext): PlayerId | null => {
+  const { p1, p2 } = tournament.records;
+  if (p1.losses === 0 && p1.wins > 0 && p1.wins >= p2.wins) return 'p1';
+  if (p2.losses === 0 && p2.wins > 0) return 'p2';
+  return null;
+};
+
+const templateFor = ({ event, context, tournament, player }: CommentaryRequest, winner: PlayerId): TemplateKey => {
+  if (event === 'score_p1' || event === 'score_p2') return goalTemplate(context);
+  if (event === 'match_point' && !player) return 'next_goal_wins';
+  if (tournament && event === 'intro') return unbeaten(tournament) ? 'unbeaten_intro' : 'tournament_intro';
+  if (tournament && event === 'game_over') return tournament.crowns[winner] ? 'champion' : 'tournament_over';
+  return event as TemplateKey;
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length) % items.length];
+
+/**
+ * Offline announcer: fills templates from a small grammar, so it always answers
+ * instantly and never needs the network. Used on its own, or as the fallback
+ * whenever a remote provider fails or is too slow.
+ */
+export class TemplateCommentator implements CommentaryProvider {
+  public readonly id = 'offline';
+  public readonly label = 'Offline';
+  public readonly available = true;
+  private random: () => number;
+  private lastLine = '';
+
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  public async generate(request: CommentaryRequest): Promise<string> {
+    return this.line(request);
+  }
+
+  // Synchronous form for callers that can't wait
+  public line(request: CommentaryRequest): string {
+    const { event, scoreP1, scoreP2, player, players, context, tournament, sets } = request;
+    const names = { p1: players.p1.name, p2: players.p2.name };
+    const p1Scored = event === 'score_p1';
+    const p1Won = scoreP1 > scoreP2;
+    const loser: PlayerId = p1Won ? 'p2' : 'p1';
+    const standout = tournament ? unbeaten(tournament) : null;
+    const tally = sets ?? { p1: scoreP1, p2: scoreP2 }; // A multi-set match is won on sets
+    const values: Record<string, string> = {
+      p1: names.p1,
+      p2: names.p2,
+      scorer: p1Scored ? names.p1 : names.p2,
+      other: p1Scored ? names.p2 : names.p1,
+      winner: p1Won ? names.p1 : names.p2,
+      player: names[player ?? 'p1'],
+      score: event === 'score_p2' ? `${scoreP2}-${scoreP1}` : `${scoreP1}-${scoreP2}`, // Scorer's tally first
+      final: (p1Won ? `${tally.p1}-${tally.p2}` : `${tally.p2}-${tally.p1}`) + (sets ? ' in sets' : ''),
+      rally: String(context?.rally ?? 0),
+      streak: String(context?.streak?.points ?? 0),
+      deficit: String(context?.comebackFrom ?? 0),
+      pace: `${((context?.ballSpeed ?? INITIAL_SPEED) / INITIAL_SPEED).toFixed(1)}x`,
+      tournament: tournament?.name ?? '',
+      stage: tournament?.stage ?? '',
+      unbeaten: standout ? names[standout] : '',
+      challenger: names[standout === 'p1' ? 'p2' : 'p1'],
+      record: standout && tournament ? `${tournament.records[standout].wins}-0` : '',
+      fate: !tournament || tournament.format === 'round_robin' ? ''
+        : tournament.eliminates[loser] ? `${names[loser]} is out!` : `${names[loser]} lives to fight again!`
+    };
+    const templates = TEMPLATES[templateFor(request, p1Won ? 'p1' : 'p2')];
+
+    // Avoid saying the exact same thing twice in a row
+    let text = '';
+    for (let attempt = 0; attempt < 3 && (text === '' || text === this.lastLine); attempt++) {
+      text = pick(templates, this.random).replace(/\{(\w+)\}/g, (_, slot: string) =>
+        values[slot] ?? (SLOTS[slot] ? pick(SLOTS[slot], this.random) : slot)
+      ).trim(); // {fate} is empty in a round robin
+    }
+    this.lastLine = text;
+    return text;
+  }
+}
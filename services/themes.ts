@@ -0,0 +1,111 @@
+import { PlayerId, PlayerProfile, Theme } from '../types';
+
+const STORAGE_KEY = 'neon-hand-hockey.appearance';
+const STORAGE_VERSION = 1;
+export const MAX_NAME_LENGTH = 12;
+
+export const THEMES: Theme[] = [
+  {
+    id: 'neon', label: 'Neon', colors: { p1: '#06b6d4', p2: '#d946ef' }, colorblindSafe: false,
+    ball: '#ffffff', lines: '#ffffff', markings: 'full', glow: 1, ballStyle: 'glow', paddleStyle: 'glow',
+    font: "'Orbitron', sans-serif"
+  },
+  {
+    id: 'retro', label: 'Retro', colors: { p1: '#f8fafc', p2: '#fbbf24' }, colorblindSafe: false,
+    ball: '#f8fafc', lines: '#f8fafc', markings: 'minimal', glow: 0, ballStyle: 'square', paddleStyle: 'solid',
+    font: "'Courier New', monospace"
+  },
+  {
+    id: 'minimal', label: 'Minimal', colors: { p1: '#93c5fd', p2: '#fca5a5' }, colorblindSafe: false,
+    ball: '#e5e7eb', lines: '#9ca3af', markings: 'none', glow: 0, ballStyle: 'ring', paddleStyle: 'outline',
+    font: "'Roboto', sans-serif"
+  },
+  // Okabe-Ito sky blue and orange: distinct under protanopia and deuteranopia
+  {
+    id: 'colorblind', label: 'Colorblind Safe', colors: { p1: '#56b4e9', p2: '#e69f00' }, colorblindSafe: true,
+    ball: '#ffffff', lines: '#ffffff', markings: 'full', glow: 0.6, ballStyle: 'glow', paddleStyle: 'glow',
+    font: "'Orbitron', sans-serif"
+  },
+  // Paul Tol's vibrant teal and magenta: distinct under tritanopia too
+  {
+    id: 'colorblind_tritan', label: 'Colorblind (Tritan)', colors: { p1: '#009988', p2: '#ee3377' }, colorblindSafe: true,
+    ball: '#ffffff', lines: '#ffffff', markings: 'full', glow: 0.6, ballStyle: 'glow', paddleStyle: 'glow',
+    font: "'Orbitron', sans-serif"
+  }
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const themeById = (id: string): Theme => THEMES.find(theme => theme.id === id) ?? DEFAULT_THEME;
+
+export const defaultPlayers = (theme: Theme = DEFAULT_THEME): Record<PlayerId, PlayerProfile> => ({
+  p1: { name: 'PLAYER 1', color: theme.colors.p1 },
+  p2: { name: 'PLAYER 2', color: theme.colors.p2 }
+});
+
+// Trimmed and capped; a blank name falls back to the side's default
+export const cleanName = (name: string, id: PlayerId): string =>
+  name.trim().slice(0, MAX_NAME_LENGTH).toUpperCase() || defaultPlayers()[id].name;
+
+// '#rrggbb' (or '#rgb') to an rgba() string, for fades the canvas can't do with globalAlpha
+export const withAlpha = (hex: string, alpha: number): string => {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  const value = parseInt(full, 16);
+  if (full.length !== 6 || Number.isNaN(value)) return `rgba(255, 255, 255, ${alpha})`;
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+// Rough colour words, so the announcer can say "in orange" rather than a hex code
+const COLOR_NAMES: [string, number, number, number][] = [
+  ['red', 230, 50, 50], ['orange', 240, 150, 20], ['yellow', 240, 220, 40], ['green', 40, 190, 80],
+  ['teal', 0, 150, 136], ['cyan', 6, 182, 212], ['sky blue', 100, 180, 240], ['blue', 50, 100, 230], ['purple', 140, 70, 220],
+  ['magenta', 217, 70, 239], ['pink', 240, 110, 170], ['white', 245, 245, 245], ['grey', 128, 128, 128]
+];
+
+export const colorName = (hex: string): string => {
+  const rgb = withAlpha(hex, 1).match(/\d+/g)!.map(Number);
+  let best = COLOR_NAMES[0];
+  let bestDistance = Infinity;
+  COLOR_NAMES.forEach(entry => {
+    const distance = (entry[1] - rgb[0]) ** 2 + (entry[2] - rgb[1]) ** 2 + (entry[3] - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  });
+  return best[0];
+};
+
+// --- Storage (localStorage; a broken or missing entry reads as the defaults) ---
+export interface Appearance {
+  themeId: string;
+  players: Record<PlayerId, PlayerProfile>;
+}
+
+const isProfile = (value: unknown): value is PlayerProfile =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as PlayerProfile).name === 'string' &&
+  typeof (value as PlayerProfile).color === 'string' &&
+  /^#[0-9a-f]{6}$/i.test((value as PlayerProfile).color);
+
+export const loadAppearance = (): Appearance => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored?.version === STORAGE_VERSION && isProfile(stored.players?.p1) && isProfile(stored.players?.p2)) {
+      return { themeId: themeById(stored.themeId).id, players: { p1: stored.players.p1, p2: stored.players.p2 } };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return { themeId: DEFAULT_THEME.id, players: defaultPlayers() };
+};
+
+export const saveAppearance = (appearance: Appearance) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...appearance }));
+  } catch (error) {
+    console.warn('Could not save appearance:', error);
+  }
+};
@@ -0,0 +1,318 @@
+import { PlayerId, PlayerProfile, Tournament, TournamentContext, TournamentEntrant, TournamentFormat, TournamentMatch, TournamentRoute } from '../types';
+
+const STORAGE_KEY = 'neon-hand-hockey.tournament';
+const STORAGE_VERSION = 1;
+export const MAX_ENTRANTS = 32;
+
+// A placeholder entrant in a bracket that doesn't fill a power of two; anyone drawn against it goes straight through
+export const BYE = 'bye';
+
+export const TOURNAMENT_FORMATS: { id: TournamentFormat; label: string; description: string }[] = [
+  { id: 'single_elimination', label: 'Knockout', description: 'Lose once and you are out' },
+  { id: 'double_elimination', label: 'Double Elim', description: 'A first loss drops you to the losers bracket; a second knocks you out' },
+  { id: 'round_robin', label: 'Round Robin', description: 'Everyone plays everyone; most wins takes it' }
+];
+
+// New entrants cycle through these; each can be changed before the start
+export const ENTRANT_COLORS = ['#06b6d4', '#d946ef', '#f59e0b', '#22c55e', '#ef4444', '#3b82f6', '#f8fafc', '#a855f7'];
+
+export interface Standing {
+  entrant: TournamentEntrant;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+const match = (id: string, bracket: TournamentMatch['bracket'], round: number): TournamentMatch => ({
+  id, bracket, round, players: [null, null], winner: null, score: null, winnerTo: null, loserTo: null
+});
+
+// 1 v N, then N/2 v N/2+1, and so on, so the top seeds can only meet late: [1, 8, 4, 5, 2, 7, 3, 6] for 8
+const seedPositions = (size: number): number[] => {
+  let positions = [1];
+  while (positions.length < size) {
+    const length = positions.length * 2;
+    positions = positions.flatMap(seed => [seed, length + 1 - seed]);
+  }
+  return positions;
+};
+
+const bracketSize = (entrants: number) => 2 ** Math.ceil(Math.log2(Math.max(2, entrants)));
+
+// --- Brackets ---
+// Winners bracket (the whole bracket in single elimination): round 1 takes the seeds, byes included
+const winnersBracket = (entrants: TournamentEntrant[]): TournamentMatch[][] => {
+  const size = bracketSize(entrants.length);
+  const positions = seedPositions(size);
+  const rounds: TournamentMatch[][] = [];
+  for (let round = 1, count = size / 2; count >= 1; round++, count /= 2) {
+    rounds.push(Array.from({ length: count }, (_, i) => match(`w${round}-${i + 1}`, 'winners', round)));
+  }
+  rounds[0].forEach((first, i) => {
+    first.players = [positions[i * 2], positions[i * 2 + 1]].map(seed => entrants[seed - 1]?.id ?? BYE) as [string, string];
+  });
+  rounds.forEach((matches, r) => {
+    if (r === rounds.length - 1) return;
+    matches.forEach((m, i) => { m.winnerTo = { match: rounds[r + 1][Math.floor(i / 2)].id, slot: (i % 2) as 0 | 1 }; });
+  });
+  return rounds;
+};
+
+/**
+ * Losers bracket for a winners bracket of `winners.length` rounds. Odd rounds
+ * pair up the survivors; even rounds bring in the losers of the next winners
+ * round, in reverse order so early opponents don't meet again straight away.
+ */
+const losersBracket = (winners: TournamentMatch[][]): TournamentMatch[][] => {
+  const rounds: TournamentMatch[][] = [];
+  const total = 2 * (winners.length - 1);
+  for (let round = 1; round <= total; round++) {
+    const count = round === 1 ? winners[0].length / 2 : round % 2 === 0 ? winners[round / 2].length : rounds[round - 2].length / 2;
+    rounds.push(Array.from({ length: count }, (_, i) => match(`l${round}-${i + 1}`, 'losers', round)));
+  }
+  if (total === 0) return rounds;
+
+  winners[0].forEach((m, i) => { m.loserTo = { match: rounds[0][Math.floor(i / 2)].id, slot: (i % 2) as 0 | 1 }; });
+  rounds.forEach((matches, r) => {
+    const round = r + 1;
+    if (round % 2 === 0) {
+      const feeders = winners[round / 2];
+      feeders.forEach((m, i) => { m.loserTo = { match: matches[feeders.length - 1 - i].id, slot: 1 }; });
+    }
+    if (round === total) return;
+    const next = rounds[r + 1];
+    matches.forEach((m, i) => {
+      m.winnerTo = next.length === matches.length
+        ? { match: next[i].id, slot: 0 }
+        : { match: next[Math.floor(i / 2)].id, slot: (i % 2) as 0 | 1 };
+    });
+  });
+  return rounds;
+};
+
+// Circle method: one entrant stays put while the rest rotate. An odd field gets a bye each round, which isn't played
+const roundRobin = (entrants: TournamentEntrant[]): TournamentMatch[] => {
+  const ids = entrants.map(entrant => entrant.id);
+  if (ids.length % 2 === 1) ids.push(BYE);
+  const matches: TournamentMatch[] = [];
+  let ring = ids.slice(1);
+  for (let round = 1; round < ids.length; round++) {
+    const lineup = [ids[0], ...ring];
+    for (let i = 0; i < lineup.length / 2; i++) {
+      const pair: [string, string] = [lineup[i], lineup[lineup.length - 1 - i]];
+      if (pair.includes(BYE)) continue;
+      const m = match(`r${round}-${i + 1}`, 'round_robin', round);
+      m.players = round % 2 === 0 ? [pair[1], pair[0]] : pair; // Swap ends every other round
+      matches.push(m);
+    }
+    ring = [ring[ring.length - 1], ...ring.slice(0, -1)];
+  }
+  return matches;
+};
+
+// Entrants in seed order; with `shuffle`, the seeds are drawn at random
+export const createTournament = (
+  name: string,
+  format: TournamentFormat,
+  players: PlayerProfile[],
+  shuffle = false,
+  random: () => number = Math.random
+): Tournament => {
+  const order = players.slice(0, MAX_ENTRANTS);
+  if (shuffle) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  }
+  const entrants = order.map((player, i) => ({ id: `e${i + 1}`, name: player.name, color: player.color, seed: i + 1 }));
+
+  let matches: TournamentMatch[];
+  if (format === 'round_robin') {
+    matches = roundRobin(entrants);
+  } else {
+    const winners = winnersBracket(entrants);
+    if (format === 'single_elimination') {
+      matches = winners.flat();
+    } else {
+      const losers = losersBracket(winners);
+      const final = match('gf', 'final', 1);
+      winners[winners.length - 1][0].winnerTo = { match: final.id, slot: 0 };
+      const losersChampion = losers.length > 0 ? losers[losers.length - 1][0] : winners[winners.length - 1][0];
+      losersChampion[losers.length > 0 ? 'winnerTo' : 'loserTo'] = { match: final.id, slot: 1 };
+      // Play in waves: each losers round right after the winners round that feeds it
+      const wave = (m: TournamentMatch) => (m.bracket === 'winners' ? 2 * m.round - 2 : m.round);
+      matches = [...winners.flat(), ...losers.flat()].sort((a, b) => wave(a) - wave(b));
+      matches.push(final);
+    }
+  }
+
+  return settleByes({ name: name.trim() || 'Tournament', format, entrants, matches, champion: null, createdAt: new Date().toISOString() });
+};
+
+// --- Results ---
+const place = (matches: TournamentMatch[], route: TournamentRoute | null, entrant: string) => {
+  const target = route && matches.find(m => m.id === route.match);
+  if (target) target.players[route!.slot] = entrant;
+};
+
+const decide = (tournament: Tournament, m: TournamentMatch, winnerSlot: 0 | 1, score: [number, number] | null) => {
+  const winner = m.players[winnerSlot]!;
+  const loser = m.players[winnerSlot === 0 ? 1 : 0]!;
+  m.winner = winner;
+  m.score = score;
+  place(tournament.matches, m.winnerTo, winner);
+  place(tournament.matches, m.loserTo, loser);
+
+  if (m.bracket === 'final' && m.round === 1 && winnerSlot === 1) {
+    // The losers-bracket champion beat the unbeaten finalist: one more match, and this time it's final
+    const reset = match('gf2', 'final', 2);
+    reset.players = [winner, loser];
+    tournament.matches.push(reset);
+  } else if (!m.winnerTo && tournament.format !== 'round_robin') {
+    tournament.champion = winner;
+  }
+};
+
+// Walk anyone drawn against a bye straight through, as far as that goes
+const settleByes = (tournament: Tournament): Tournament => {
+  let settled = true;
+  while (settled) {
+    settled = false;
+    for (const m of tournament.matches) {
+      if (m.winner || m.players[0] === null || m.players[1] === null || !m.players.includes(BYE)) continue;
+      decide(tournament, m, m.players[0] === BYE ? 1 : 0, null);
+      settled = true;
+    }
+  }
+  if (tournament.format === 'round_robin' && tournament.matches.every(m => m.winner)) {
+    tournament.champion = standings(tournament)[0]?.entrant.id ?? null;
+  }
+  return tournament;
+};
+
+// A new tournament with the result in and everyone moved on. Score is slot 0's first
+export const reportResult = (tournament: Tournament, matchId: string, winnerSlot: 0 | 1, score: [number, number]): Tournament => {
+  const next: Tournament = { ...tournament, matches: tournament.matches.map(m => ({ ...m, players: [...m.players] as [string | null, string | null] })) };
+  const m = next.matches.find(candidate => candidate.id === matchId);
+  if (!m || m.winner || !playable(m)) return tournament;
+  decide(next, m, winnerSlot, score);
+  return settleByes(next);
+};
+
+const playable = (m: TournamentMatch) =>
+  !m.winner && m.players[0] !== null && m.players[1] !== null && !m.players.includes(BYE);
+
+// The next match to play, in bracket order, or null when the tournament is over
+export const nextMatch = (tournament: Tournament): TournamentMatch | null => tournament.matches.find(playable) ?? null;
+
+export const entrantById = (tournament: Tournament, id: string | null): TournamentEntrant | null =>
+  tournament.entrants.find(entrant => entrant.id === id) ?? null;
+
+// Wins and losses in played matches (byes don't count)
+const record = (tournament: Tournament, id: string) => {
+  const played = tournament.matches.filter(m => m.score && m.players.includes(id));
+  const wins = played.filter(m => m.winner === id).length;
+  return { wins, losses: played.length - wins };
+};
+
+// Round robin table: most wins, then point difference, then points scored, then seed
+export const standings = (tournament: Tournament): Standing[] =>
+  tournament.entrants
+    .map(entrant => {
+      const row: Standing = { entrant, played: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 };
+      tournament.matches.forEach(m => {
+        const slot = m.players.indexOf(entrant.id);
+        if (slot === -1 || !m.score) return;
+        row.played++;
+        if (m.winner === entrant.id) row.wins++;
+        else row.losses++;
+        row.pointsFor += m.score[slot];
+        row.pointsAgainst += m.score[1 - slot];
+      });
+      return row;
+    })
+    .sort((a, b) =>
+      b.wins - a.wins ||
+      (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst) ||
+      b.pointsFor - a.pointsFor ||
+      a.entrant.seed - b.entrant.seed
+    );
+
+// --- Labels ---
+const roundsIn = (tournament: Tournament, bracket: TournamentMatch['bracket']) =>
+  Math.max(0, ...tournament.matches.filter(m => m.bracket === bracket).map(m => m.round));
+
+const fromEnd = (round: number, rounds: number, prefix: string) => {
+  const left = rounds - round;
+  const stage = left === 0 ? 'final' : left === 1 ? 'semi-final' : left === 2 ? 'quarter-final' : `round ${round}`;
+  const label = prefix ? `${prefix} ${stage}` : stage;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// "Semi-final", "Winners final", "Losers round 3", "Grand final", "Round 2 of 5"
+export const stageLabel = (tournament: Tournament, m: TournamentMatch): string => {
+  switch (m.bracket) {
+    case 'round_robin':
+      return `Round ${m.round} of ${roundsIn(tournament, 'round_robin')}`;
+    case 'final':
+      return m.round === 1 ? 'Grand final' : 'Grand final reset';
+    case 'losers': {
+      const rounds = roundsIn(tournament, 'losers');
+      return m.round === rounds ? 'Losers final' : `Losers round ${m.round}`;
+    }
+    case 'winners':
+      return fromEnd(m.round, roundsIn(tournament, 'winners'), tournament.format === 'double_elimination' ? 'winners' : '');
+  }
+};
+
+// --- Playing a Match ---
+// Names and colours for GameCanvas: slot 0 plays as P1
+export const matchPlayers = (tournament: Tournament, m: TournamentMatch): Record<PlayerId, PlayerProfile> => {
+  const profile = (id: string | null): PlayerProfile => {
+    const entrant = entrantById(tournament, id);
+    return { name: entrant?.name ?? 'TBD', color: entrant?.color ?? '#ffffff' };
+  };
+  return { p1: profile(m.players[0]), p2: profile(m.players[1]) };
+};
+
+// For the announcer: the stage, each side's record so far, and what winning or losing means
+export const tournamentContext = (tournament: Tournament, m: TournamentMatch): TournamentContext => {
+  const ids: Record<PlayerId, string> = { p1: m.players[0]!, p2: m.players[1]! };
+  const outcome = (winner: PlayerId) => reportResult(tournament, m.id, winner === 'p1' ? 0 : 1, winner === 'p1' ? [1, 0] : [0, 1]);
+  const ifWins = { p1: outcome('p1'), p2: outcome('p2') };
+  const stillIn = (after: Tournament, id: string) => after.champion === id || after.matches.some(other => !other.winner && other.players.includes(id));
+  return {
+    name: tournament.name,
+    format: tournament.format,
+    stage: stageLabel(tournament, m),
+    records: { p1: record(tournament, ids.p1), p2: record(tournament, ids.p2) },
+    eliminates: {
+      p1: tournament.format !== 'round_robin' && !stillIn(ifWins.p2, ids.p1),
+      p2: tournament.format !== 'round_robin' && !stillIn(ifWins.p1, ids.p2)
+    },
+    crowns: { p1: ifWins.p1.champion === ids.p1, p2: ifWins.p2.champion === ids.p2 }
+  };
+};
+
+// --- Storage (localStorage; a broken or missing entry reads as no tournament) ---
+export const loadTournament = (): Tournament | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    const tournament = stored?.version === STORAGE_VERSION ? stored.tournament : null;
+    return tournament && Array.isArray(tournament.entrants) && Array.isArray(tournament.matches) ? tournament : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTournament = (tournament: Tournament | null) => {
+  try {
+    if (tournament) localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, tournament }));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not save the tournament:', error);
+  }
+};
@@ -1,8 +1,43 @@
 import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
 
+export type VisionDelegate = "GPU" | "CPU";
+
+export interface VisionOptions {
+  wasmPath: string; // Folder holding vision_wasm_internal.{js,wasm}
+  modelPath: string; // hand_landmarker.task
+  delegates: VisionDelegate[]; // Tried in order until one initialises
+  timeoutMs: number;
+}
+
+// Served from the app's own build output (see vite.config.ts), overridable via .env.local
+export const DEFAULT_VISION_OPTIONS: VisionOptions = {
+  wasmPath: process.env.MEDIAPIPE_WASM_PATH || "/mediapipe/wasm",
+  modelPath: process.env.HAND_MODEL_PATH || "/models/hand_landmarker.task",
+  delegates: ["GPU", "CPU"],
+  timeoutMs: 20000
+};
+
+const DETECT_BUDGET_MS = 20; // Default smoothed detection time above which every other camera frame is skipped
+const DETECT_SMOOTHING = 0.1;
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number, what: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms / 1000}s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
 export class VisionService {
   private static instance: VisionService;
   public handLandmarker: HandLandmarker | null = null;
+  public activeDelegate: VisionDelegate | null = null;
+  private initPromise: Promise<void> | null = null;
+  private maxHands = 2;
+  private detectMs = 0; // Moving average of detection time
+  private skipped = false;
+  private detectBudgetMs = DETECT_BUDGET_MS;
   private constructor() {}
 
   public static getInstance(): VisionService {
@@ -12,31 +47,84 @@ export class VisionService {
     return VisionService.instance;
   }
 
-  public async initialize(): Promise<void> {
-    if (this.handLandmarker) return;
+  // Safe to call repeatedly: concurrent callers share one attempt, and a failed attempt can be retried
+  public initialize(options: VisionOptions = DEFAULT_VISION_OPTIONS): Promise<void> {
+    if (this.handLandmarker) return Promise.resolve();
+    if (!this.initPromise) {
+      this.initPromise = this.load(options).catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
 
+  private async load(options: VisionOptions): Promise<void> {
+    let vision;
     try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-      );
-
-      this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-          delegate: "GPU"
-        },
-        runningMode: "VIDEO",
-        numHands: 2
-      });
-      console.log("HandLandmarker loaded successfully");
+      vision = await withTimeout(FilesetResolver.forVisionTasks(options.wasmPath), options.timeoutMs, "Loading the vision runtime");
     } catch (error) {
-      console.error("Error loading HandLandmarker:", error);
-      throw error;
+      console.error("Error loading MediaPipe WASM:", error);
+      throw new Error(`Could not load the hand-tracking runtime from ${options.wasmPath}.`);
     }
+
+    let lastError: unknown = null;
+    for (const delegate of options.delegates) {
+      try {
+        this.handLandmarker = await withTimeout(
+          HandLandmarker.createFromOptions(vision, {
+            baseOptions: {
+              modelAssetPath: options.modelPath,
+              delegate
+            },
+            runningMode: "VIDEO",
+            numHands: this.maxHands
+          }),
+          options.timeoutMs,
+          `Hand model (${delegate})`
+        );
+        this.activeDelegate = delegate;
+        console.log(`HandLandmarker loaded successfully (${delegate})`);
+        return;
+      } catch (error) {
+        // Typically no WebGL for the GPU delegate: fall through to the next one
+        console.warn(`HandLandmarker ${delegate} delegate failed:`, error);
+        lastError = error;
+      }
+    }
+
+    console.error("Error loading HandLandmarker:", lastError);
+    throw new Error(`Could not start hand tracking with model ${options.modelPath}.`);
+  }
+
+  // Doubles tracks four hands; applies to the running model or the next one loaded
+  public async setMaxHands(numHands: number) {
+    if (numHands === this.maxHands) return;
+    this.maxHands = numHands;
+    this.detectMs = 0;
+    await this.handLandmarker?.setOptions({ numHands });
+  }
+
+  // From the gameplay settings: a lower budget skips frames sooner on a slow machine
+  public setDetectBudget(ms: number) {
+    this.detectBudgetMs = ms;
+  }
+
+  /**
+   * Call once per new camera frame. When detection is slower than the frame
+   * budget (more hands cost more), alternate frames are skipped so rendering
+   * stays smooth; the hand filters predict across the gap.
+   */
+  public skipFrame(): boolean {
+    this.skipped = this.detectMs > this.detectBudgetMs && !this.skipped;
+    return this.skipped;
   }
 
   public detect(video: HTMLVideoElement, startTimeMs: number) {
     if (!this.handLandmarker) return null;
-    return this.handLandmarker.detectForVideo(video, startTimeMs);
+    const start = performance.now();
+    const result = this.handLandmarker.detectForVideo(video, startTimeMs);
+    this.detectMs += (performance.now() - start - this.detectMs) * DETECT_SMOOTHING;
+    return result;
   }
 }
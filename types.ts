@@ -3,26 +3,273 @@ export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY' // Watching a recorded match, no camera needed
 }
 
+export type PlayerId = 'p1' | 'p2';
+
+// Every paddle on the table. In doubles p3 partners p1 and p4 partners p2; a team scores as its PlayerId
+export type PaddleId = PlayerId | 'p3' | 'p4';
+
+// singles: one paddle a side. doubles_lanes: each team adds a front-lane paddle.
+// doubles_walls: each team adds a paddle on the top (p1's team) or bottom (p2's team) edge, which become goals
+// air_hockey: round mallets move freely in their own half; goals are openings in the end walls
+export type GameFormat = 'singles' | 'doubles_lanes' | 'doubles_walls' | 'air_hockey';
+
+export type CpuDifficulty = 'easy' | 'normal' | 'hard' | 'insane';
+
+// switch: one button; the paddle sweeps on its own and each press turns it round
+export type InputKind = 'hand' | 'keyboard' | 'pointer' | 'gamepad' | 'switch';
+
+// Who is controlling each paddle for a match
+export interface GameSetup {
+  opponent: 'human' | 'cpu' | 'remote'; // remote = online, the other paddle is steered over the network
+  humanSide: PlayerId; // Only meaningful against the CPU or a remote player
+  format: GameFormat; // Doubles is local only, with every paddle on hand tracking
+  cpuDifficulty: CpuDifficulty;
+  inputs: Record<PlayerId, InputKind>; // Ignored for the CPU's paddle
+  assist: Record<PlayerId, boolean>; // Assisted play: a longer paddle, and balls slow down on their way to it
+}
+
+// How newly detected hands are matched to paddles
+export type AssignmentPolicy = 'side' | 'handedness' | 'first_claimed';
+
+export type GestureKind = 'pinch' | 'open_palm' | 'fist' | 'push';
+
+// One-Euro filter + prediction tuning for a player's hand tracking
+export interface SmoothingSettings {
+  minCutoff: number; // Hz
+  beta: number;
+  dCutoff: number; // Hz
+  predictionMs: number;
+}
+
+export type PowerUpKind = 'grow' | 'shrink' | 'multi_ball' | 'slow_mo' | 'curve' | 'shield' | 'reverse';
+
+// Power-ups that last a while; multi-ball happens once
+export type EffectKind = Exclude<PowerUpKind, 'multi_ball'>;
+
+export interface ActiveEffect {
+  remaining: number; // Seconds
+  duration: number;
+}
+
+export interface PowerUpSettings {
+  enabled: boolean;
+  spawnSeconds: number; // Average time between spawns
+  kinds: Record<PowerUpKind, boolean>; // Which power-ups can appear
+}
+
+// A side's display name and colour, entered in the menu
+export interface PlayerProfile {
+  name: string;
+  color: string; // #rrggbb
+}
+
+export type BallStyle = 'glow' | 'solid' | 'ring' | 'square';
+export type PaddleStyle = 'glow' | 'solid' | 'outline';
+// full: centre line and circle plus format markings. minimal: dashed centre line. none: bare table
+export type TableMarkings = 'full' | 'minimal' | 'none';
+
+// How the arena looks: the default palette, table and fonts
+export interface Theme {
+  id: string;
+  label: string;
+  colors: Record<PlayerId, string>; // Player colours the theme starts with (#rrggbb)
+  colorblindSafe: boolean;
+  ball: string;
+  lines: string; // Table markings
+  markings: TableMarkings;
+  glow: number; // Multiplier on every glow; 0 = flat
+  ballStyle: BallStyle;
+  paddleStyle: PaddleStyle;
+  font: string; // CSS font-family for the canvas and the UI
+}
+
+// Gameplay tuning, from a preset or set by hand. Speeds are in widths per second
+export interface GameplaySettings {
+  paddleHeight: number; // Fraction of screen height (air-hockey mallets scale with it)
+  ballSize: number; // Radius, fraction of screen height
+  initialSpeed: number; // Serve speed
+  speedIncrement: number; // Added on every return
+  maxSpeed: number;
+  maxReflectionAngle: number; // Degrees off straight for a hit on the paddle's tip
+  serveBoostPerGoal: number; // Serves get faster with every goal scored...
+  maxServeBoost: number; // ...up to this much
+  detectBudgetMs: number; // Hand detection slower than this skips every other camera frame
+}
+
+export type EffectsQuality = 'low' | 'medium' | 'high';
+
+// Particle and glow effects
+export interface VisualSettings {
+  quality: EffectsQuality; // Scales particle counts, trail length and shadow blur
+  reducedMotion: boolean; // No shake, flashes, sparks or pulsing
+  highContrast: boolean; // Dark table, white markings and outlines, no glow
+}
+
+// One side of the table: a single player, or a doubles team
 export interface PlayerState {
   score: number;
   y: number; // Normalized 0-1
+  x: number; // Air hockey: the mallet's centre across the table, normalized 0-1 (Pong paddles sit at a fixed x)
+  partner: number; // Doubles: the team's second paddle (front-lane y, or x along its edge), normalized 0-1
   name: string;
   color: string;
+  effects: Partial<Record<EffectKind, ActiveEffect>>; // Timed power-up effects on this side
 }
 
 export interface BallState {
   x: number; // Normalized 0-1
   y: number; // Normalized 0-1
-  vx: number;
-  vy: number;
-  speed: number;
+  vx: number; // Widths per second
+  vy: number; // Heights per second
+  speed: number; // Widths per second
 }
 
 export interface GameCommentary {
   text: string;
   timestamp: number;
-  type: 'hype' | 'score' | 'intro';
+  type: 'hype' | 'score' | 'intro' | 'game_over';
+}
+
+// Running match stats at the moment of an event, for commentary and stats
+export interface MatchContext {
+  scores: Record<PlayerId, number>;
+  rally: number; // Hits in the current rally (or the one that just ended on a goal)
+  ballSpeed: number; // Widths per second
+  topSpeed: number; // Fastest ball this match
+  longestRally: number;
+  momentum: number; // -1 (all P2) to 1 (all P1), weighted towards recent points
+  streak: { player: PlayerId; points: number } | null; // Consecutive points by one player
+  finish: 'edge_snipe' | 'smash' | 'bank_shot' | null; // How the last point was won
+  comebackFrom: number; // Deficit the scorer just erased (0 = none)
+}
+
+export type CommentaryEvent =
+  | 'intro' | 'score_p1' | 'score_p2' | 'game_over'
+  | 'match_point' | 'rally' | 'top_speed' | 'scoreless';
+
+// What the announcer is asked to talk about, with the score at that moment
+export interface CommentaryRequest {
+  event: CommentaryEvent;
+  scoreP1: number;
+  scoreP2: number;
+  player?: PlayerId; // Who the event is about (match point, top speed); a match point without one is for both sides
+  players: Record<PlayerId, PlayerProfile>; // Names (and colours) the announcer uses
+  context?: MatchContext;
+  tournament?: TournamentContext; // Intro and game-over lines, when the match is part of a tournament
+  sets?: Record<PlayerId, number>; // Game over in a multi-set match: sets won (the scores are the final set's)
+}
+
+export type CommentaryProviderId = 'gemini' | 'openai' | 'offline';
+
+// Spoken commentary (text-to-speech) preferences
+export interface SpeechSettings {
+  muted: boolean;
+  voiceId: string | null; // Backend voice id; null = system default
+  rate: number; // 0.5-2, 1 = normal
+  pitch: number; // 0-2, 1 = normal
+  volume: number; // 0-1
+}
+
+// Sound effects and music volumes (each 0-1; the master scales the other two)
+export interface AudioSettings {
+  muted: boolean;
+  master: number;
+  sfx: number;
+  music: number;
+  musicEnabled: boolean; // Background loop during play
+}
+
+export interface MatchRules {
+  id: string;
+  label: string;
+  pointsToWin: number | null; // Points needed to take a set; null = no point target (timed only)
+  winByTwo: boolean;
+  timeLimitSeconds: number | null; // Whole-match clock; level at the buzzer goes to sudden death
+  setsToWin: number; // 1 = single game, 2 = best of 3, ...
+}
+
+export interface MatchResult {
+  winner: PlayerId;
+  winnerName: string;
+  scores: Record<PlayerId, number>; // Points in the final set
+  sets: Record<PlayerId, number>;
+  durationSeconds: number;
+  suddenDeath: boolean;
+  rules: MatchRules;
+}
+
+export interface PauseInfo {
+  reason: 'manual' | 'hand_lost' | 'disconnected';
+  missing: PaddleId[]; // Paddles with no tracked hand right now
+  countdown: number | null; // 3-2-1 before play resumes, null while waiting
+}
+
+export interface MatchStats {
+  hits: Record<PlayerId, number>;
+  goals: Record<PlayerId, number>; // Across all sets
+  longestRally: number;
+  averageSpeed: number; // Ball speed at each return, widths per second
+  peakSpeed: number;
+  peakSpeeds: Record<PlayerId, number>; // Each player's fastest return
+  intersects: Record<PlayerId, number[]>; // Returns per paddle zone, top edge first
+  serves: Record<PlayerId, { served: number; won: number }>;
+  goalCrossings: Record<PlayerId, number[]>; // Keyed by scorer: goals per band of the line, top first
+}
+
+export interface MatchRecord {
+  id: string;
+  playedAt: string; // ISO date
+  players: Record<PlayerId, { name: string; color: string; cpu: boolean }>;
+  result: MatchResult;
+  stats: MatchStats;
+}
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin';
+
+// An entrant; seed 1 is the top seed
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  color: string; // #rrggbb
+  seed: number;
+}
+
+// Where a match's winner or loser goes next
+export interface TournamentRoute {
+  match: string;
+  slot: 0 | 1;
+}
+
+export interface TournamentMatch {
+  id: string;
+  bracket: 'winners' | 'losers' | 'final' | 'round_robin'; // winners is the whole bracket in single elimination
+  round: number; // From 1, within its bracket
+  players: [string | null, string | null]; // Entrant ids (or a bye); null = not decided yet. Slot 0 plays as P1
+  winner: string | null;
+  score: [number, number] | null; // Points, or sets in a multi-set match; null for a bye
+  winnerTo: TournamentRoute | null;
+  loserTo: TournamentRoute | null;
+}
+
+export interface Tournament {
+  name: string;
+  format: TournamentFormat;
+  entrants: TournamentEntrant[]; // In seed order
+  matches: TournamentMatch[]; // In playing order
+  champion: string | null; // Entrant id, once decided
+  createdAt: string; // ISO date
+}
+
+// What the announcer knows about a tournament match
+export interface TournamentContext {
+  name: string;
+  format: TournamentFormat;
+  stage: string; // "Semi-final", "Losers round 2", "Round 3 of 5"
+  records: Record<PlayerId, { wins: number; losses: number }>; // Before this match
+  eliminates: Record<PlayerId, boolean>; // Losing this match knocks the side out
+  crowns: Record<PlayerId, boolean>; // Winning it makes the side champion
 }
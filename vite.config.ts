@@ -1,18 +1,62 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const DEFAULT_MEDIAPIPE_WASM_PATH = '/mediapipe/wasm';
+const DEFAULT_HAND_MODEL_PATH = '/models/hand_landmarker.task';
+
+// Serves the MediaPipe WASM fileset from node_modules in dev and copies it into the build,
+// so hand tracking never depends on a CDN (and always matches the installed package version).
+const mediapipeWasm = (urlPath: string): Plugin => {
+  // Pointed at an external URL instead: nothing to serve
+  if (!urlPath.startsWith('/')) return { name: 'mediapipe-wasm' };
+
+  const wasmDir = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+  const files = () => (fs.existsSync(wasmDir) ? fs.readdirSync(wasmDir) : []);
+
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(urlPath, (req, res, next) => {
+        const name = path.basename((req.url || '').split('?')[0]);
+        if (!files().includes(name)) return next();
+        res.setHeader('Content-Type', name.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(path.join(wasmDir, name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      files().forEach(name => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${urlPath.replace(/^\/+/, '')}/${name}`,
+          source: fs.readFileSync(path.join(wasmDir, name))
+        });
+      });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const mediapipeWasmPath = env.MEDIAPIPE_WASM_PATH || DEFAULT_MEDIAPIPE_WASM_PATH;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm(mediapipeWasmPath)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(mediapipeWasmPath),
+        'process.env.HAND_MODEL_PATH': JSON.stringify(env.HAND_MODEL_PATH || DEFAULT_HAND_MODEL_PATH),
+        'process.env.COMMENTARY_PROVIDER': JSON.stringify(env.COMMENTARY_PROVIDER || ''),
+        'process.env.COMMENTARY_API_URL': JSON.stringify(env.COMMENTARY_API_URL || ''),
+        'process.env.COMMENTARY_MODEL': JSON.stringify(env.COMMENTARY_MODEL || ''),
+        'process.env.COMMENTARY_API_KEY': JSON.stringify(env.COMMENTARY_API_KEY || ''),
+        'process.env.NETPLAY_SIGNALING_URL': JSON.stringify(env.NETPLAY_SIGNALING_URL || ''),
+        'process.env.NETPLAY_STUN_URL': JSON.stringify(env.NETPLAY_STUN_URL || '')
       },
       resolve: {
         alias: {